@@ -0,0 +1,13 @@
+// Shows web push notifications sent through the notifications API (see
+// src/lib/notifications/channels.ts) and opens their link when clicked
+self.addEventListener('push', event => {
+  const data = event.data ? event.data.json() : {}
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Homi', { body: data.body, data: { link: data.link || '/' } })
+  )
+})
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  event.waitUntil(self.clients.openWindow(event.notification.data.link))
+})
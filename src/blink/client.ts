@@ -1,6 +1,67 @@
-import { createClient } from '@blinkdotnew/sdk'
+import {
+  createClient,
+  type AuthStateChangeCallback,
+  type BlinkAI,
+  type BlinkStorage,
+  type TableOperations
+} from '@blinkdotnew/sdk'
+import { blinkConfig, type BlinkConfig } from './config'
+import { createLocalBackend } from './local/backend'
+import { localSeed, scriptedIntakeReply, scriptedRankingExplanation } from './local/fixtures'
 
-export const blink = createClient({
-  projectId: 'homi-ai-marketplace-wdt9rv34',
-  authRequired: true
-})
\ No newline at end of file
+// The slice of the Blink SDK the app depends on. Anything implementing it can
+// stand in for the real backend (see setBlinkClient).
+export interface BlinkBackend {
+  auth: {
+    onAuthStateChanged(callback: AuthStateChangeCallback): () => void
+    login(nextUrl?: string): void
+    logout(redirectUrl?: string): void
+  }
+  db: {
+    table<T = any>(tableName: string): TableOperations<T>
+  }
+  ai: Pick<BlinkAI, 'generateText' | 'generateObject'>
+  storage: Pick<BlinkStorage, 'upload'>
+}
+
+export const createBlinkClient = (config: BlinkConfig): BlinkBackend =>
+  config.backend === 'local'
+    ? createLocalBackend({
+      seed: localSeed,
+      storageKey: `homi:local-backend:${config.projectId}`,
+      fallbackObject: scriptedIntakeReply,
+      fallbackText: scriptedRankingExplanation
+    })
+    : createClient({
+      projectId: config.projectId,
+      authRequired: config.authMode === 'required'
+    })
+
+let current: BlinkBackend | null = null
+
+// Created lazily so an injected client is used before the SDK ever starts
+const getClient = (): BlinkBackend => {
+  if (!current) current = createBlinkClient(blinkConfig)
+  return current
+}
+
+// Swap the backend used by every module, e.g. for local development or tests.
+// Call before the app renders.
+export const setBlinkClient = (client: BlinkBackend) => {
+  current = client
+}
+
+export const blink: BlinkBackend = {
+  get auth() {
+    return getClient().auth
+  },
+  get db() {
+    return getClient().db
+  },
+  get ai() {
+    return getClient().ai
+  },
+  get storage() {
+    return getClient().storage
+  }
+}
@@ -0,0 +1,19 @@
+// Backend settings come from Vite env vars (see .env.example)
+
+export type AuthMode = 'required' | 'optional'
+// 'local' swaps in the in-memory backend from ./local with fixture data
+export type BackendKind = 'blink' | 'local'
+
+export interface BlinkConfig {
+  projectId: string
+  authMode: AuthMode
+  backend: BackendKind
+}
+
+const DEFAULT_PROJECT_ID = 'homi-ai-marketplace-wdt9rv34'
+
+export const blinkConfig: BlinkConfig = {
+  projectId: import.meta.env.VITE_BLINK_PROJECT_ID || DEFAULT_PROJECT_ID,
+  authMode: import.meta.env.VITE_BLINK_AUTH_MODE === 'optional' ? 'optional' : 'required',
+  backend: import.meta.env.VITE_BLINK_BACKEND === 'local' ? 'local' : 'blink'
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest'
+import { blink, setBlinkClient } from '../client'
+import { createLocalBackend } from './backend'
+
+const seed = {
+  user: { id: 'user_1', email: 'one@example.com' },
+  tables: {
+    jobs: [
+      { id: 'job_a', user_id: 'user_1', hourly_rate: 40, title: 'Deep clean' },
+      { id: 'job_b', user_id: 'user_2', hourly_rate: 85, title: 'Fix a leak' },
+      { id: 'job_c', user_id: 'user_1', hourly_rate: 55, title: 'Mount a TV' }
+    ]
+  }
+}
+
+describe('createLocalBackend', () => {
+  it('serves the seed rows with camelCase keys', async () => {
+    const backend = createLocalBackend({ seed })
+
+    expect(backend.dump('jobs')[0]).toEqual({ id: 'job_a', userId: 'user_1', hourlyRate: 40, title: 'Deep clean' })
+    expect(await backend.db.table('jobs').get('job_b')).toMatchObject({ userId: 'user_2' })
+  })
+
+  it('filters, orders and limits lists like the SDK', async () => {
+    const jobs = createLocalBackend({ seed }).db.table('jobs')
+
+    const mine = await jobs.list({ where: { user_id: 'user_1' }, orderBy: { hourly_rate: 'desc' } })
+    expect(mine.map(job => job.id)).toEqual(['job_c', 'job_a'])
+    const cheap = await jobs.list({ where: { hourlyRate: { lt: 60 } }, orderBy: 'title.asc', limit: 1 })
+    expect(cheap.map(job => job.id)).toEqual(['job_a'])
+    expect(await jobs.count({ where: { title: { ilike: '%LEAK%' } } })).toBe(1)
+  })
+
+  it('rejects a second row with the same id', async () => {
+    const jobs = createLocalBackend({ seed }).db.table('jobs')
+
+    await expect(jobs.create({ id: 'job_a', title: 'Again' })).rejects.toThrow('Duplicate id job_a')
+  })
+
+  it('returns scripted AI responses in order, then the fallbacks', async () => {
+    const backend = createLocalBackend({ fallbackText: 'fallback', fallbackObject: () => ({ ok: false }) })
+    backend.script({ text: ['first', request => `echo: ${request.prompt}`], object: [{ ok: true }] })
+
+    expect((await backend.ai.generateText({ prompt: 'a' })).text).toBe('first')
+    expect((await backend.ai.generateText({ prompt: 'b' })).text).toBe('echo: b')
+    expect((await backend.ai.generateText({ prompt: 'c' })).text).toBe('fallback')
+    expect((await backend.ai.generateObject({ prompt: 'd', schema: {} })).object).toEqual({ ok: true })
+    expect((await backend.ai.generateObject({ prompt: 'e', schema: {} })).object).toEqual({ ok: false })
+    expect(backend.aiCalls.map(call => `${call.kind}:${call.request.prompt}`)).toEqual([
+      'text:a', 'text:b', 'text:c', 'object:d', 'object:e'
+    ])
+  })
+
+  it('goes back to the seed on reset', async () => {
+    const backend = createLocalBackend({ seed })
+    await backend.db.table('jobs').delete('job_a')
+    await backend.db.table('jobs').create({ id: 'job_d', title: 'Paint a fence' })
+    backend.script({ text: ['unused'] })
+    await backend.ai.generateText({ prompt: 'x' })
+    backend.auth.logout()
+
+    backend.reset()
+
+    expect(backend.dump('jobs').map(job => job.id)).toEqual(['job_a', 'job_b', 'job_c'])
+    expect(backend.aiCalls).toEqual([])
+    expect((await backend.ai.generateText({ prompt: 'y' })).text).toBe('')
+    const listener = vi.fn()
+    backend.auth.onAuthStateChanged(listener)
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ isAuthenticated: true, user: seed.user }))
+  })
+
+  it('reports sign-in changes to listeners', () => {
+    const backend = createLocalBackend({ seed })
+    const listener = vi.fn()
+    const unsubscribe = backend.auth.onAuthStateChanged(listener)
+
+    backend.auth.logout()
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ isAuthenticated: false, user: null }))
+    unsubscribe()
+    backend.auth.login()
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it('stands in for the SDK everywhere once injected', async () => {
+    const backend = createLocalBackend({ seed })
+    setBlinkClient(backend)
+
+    await blink.db.table('jobs').update('job_b', { hourly_rate: 90 })
+    expect(backend.dump('jobs')[1]).toMatchObject({ id: 'job_b', hourlyRate: 90 })
+  })
+})
@@ -0,0 +1,308 @@
+import type {
+  AuthState,
+  AuthStateChangeCallback,
+  BlinkUser,
+  FilterCondition,
+  ObjectGenerationRequest,
+  ObjectGenerationResponse,
+  QueryOptions,
+  StorageUploadResponse,
+  TableOperations,
+  TextGenerationRequest,
+  TextGenerationResponse
+} from '@blinkdotnew/sdk'
+import type { BlinkBackend } from '../client'
+
+// In-memory stand-in for the Blink backend. Implements the same surface the
+// app uses (auth events, table CRUD with where/orderBy/limit, text and object
+// generation, file uploads) so the app can run offline and be driven from tests.
+
+type Row = Record<string, any>
+
+export type ScriptedText = string | ((request: TextGenerationRequest) => string | Promise<string>)
+export type ScriptedObject = unknown | ((request: ObjectGenerationRequest) => unknown)
+
+export interface LocalBackendSeed {
+  user?: BlinkUser | null
+  tables?: Record<string, Row[]>
+}
+
+export interface LocalBackendOptions {
+  seed?: LocalBackendSeed
+  // Persist tables to localStorage under this key so data survives reloads
+  storageKey?: string
+  // Used when no scripted response is queued
+  fallbackText?: ScriptedText
+  fallbackObject?: ScriptedObject
+}
+
+export interface LocalBackend extends BlinkBackend {
+  // Queue responses returned by the next generateText/generateObject calls, in order
+  script(responses: { text?: ScriptedText[]; object?: ScriptedObject[] }): void
+  // Every AI request made so far, for assertions
+  aiCalls: Array<{ kind: 'text' | 'object'; request: TextGenerationRequest | ObjectGenerationRequest }>
+  // Snapshot of a table's rows
+  dump(tableName: string): Row[]
+  // Restore the seed data and clear scripted responses
+  reset(): void
+}
+
+const snakeToCamel = (key: string) => key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+
+// Mirror the SDK, which always hands back camelCase keys
+const camelizeKeys = (row: Row): Row =>
+  Object.fromEntries(Object.entries(row).map(([key, value]) => [snakeToCamel(key), value]))
+
+const compare = (a: any, b: any) => {
+  if (a === b) return 0
+  if (a === undefined || a === null) return -1
+  if (b === undefined || b === null) return 1
+  return a < b ? -1 : 1
+}
+
+const likeToRegExp = (pattern: string, flags = '') =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, flags)
+
+const matchesValue = (value: any, condition: any): boolean => {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    // SQLite-style loose equality: '5' matches 5, 1 matches true
+    return value == condition || String(value) === String(condition)
+  }
+  return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case 'eq': return matchesValue(value, operand)
+      case 'neq': return !matchesValue(value, operand)
+      case 'gt': return compare(value, operand) > 0
+      case 'gte': return compare(value, operand) >= 0
+      case 'lt': return compare(value, operand) < 0
+      case 'lte': return compare(value, operand) <= 0
+      case 'in': return (operand as any[]).some(item => matchesValue(value, item))
+      case 'not_in': return !(operand as any[]).some(item => matchesValue(value, item))
+      case 'like': return likeToRegExp(operand).test(String(value ?? ''))
+      case 'ilike': return likeToRegExp(operand, 'i').test(String(value ?? ''))
+      case 'is': return operand === null ? value === null || value === undefined : Boolean(value) === operand
+      case 'not': return !matchesValue(value, operand)
+      default: return false
+    }
+  })
+}
+
+export const matchesFilter = (row: Row, where?: FilterCondition): boolean => {
+  if (!where) return true
+  const { AND, OR, ...fields } = where as Row
+  if (AND && !(AND as FilterCondition[]).every(condition => matchesFilter(row, condition))) return false
+  if (OR && !(OR as FilterCondition[]).some(condition => matchesFilter(row, condition))) return false
+  return Object.entries(camelizeKeys(fields)).every(([field, condition]) => matchesValue(row[field], condition))
+}
+
+const applyQuery = (rows: Row[], options: QueryOptions = {}): Row[] => {
+  let result = rows.filter(row => matchesFilter(row, options.where))
+
+  if (options.orderBy) {
+    const order: Array<[string, 'asc' | 'desc']> =
+      typeof options.orderBy === 'string'
+        ? options.orderBy.split(',').map(part => {
+          const [field, direction] = part.trim().split('.')
+          return [snakeToCamel(field), direction === 'desc' ? 'desc' : 'asc']
+        })
+        : Object.entries(options.orderBy).map(([field, direction]) => [snakeToCamel(field), direction])
+    result = [...result].sort((a, b) => {
+      for (const [field, direction] of order) {
+        const diff = compare(a[field], b[field])
+        if (diff !== 0) return direction === 'desc' ? -diff : diff
+      }
+      return 0
+    })
+  }
+
+  const offset = options.offset ?? 0
+  result = result.slice(offset, options.limit !== undefined ? offset + options.limit : undefined)
+
+  if (options.select) {
+    const fields = options.select.map(snakeToCamel)
+    result = result.map(row => Object.fromEntries(fields.map(field => [field, row[field]])))
+  }
+  return result
+}
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value))
+
+const createTable = (rows: () => Row[], persist: () => void): TableOperations<any> => {
+  const table: TableOperations<any> = {
+    async create(data) {
+      const row = camelizeKeys({ id: `local_${crypto.randomUUID()}`, createdAt: new Date().toISOString(), ...data })
+      if (rows().some(existing => existing.id === row.id)) {
+        throw new Error(`Duplicate id ${row.id}`)
+      }
+      rows().push(row)
+      persist()
+      return clone(row)
+    },
+    async createMany(data) {
+      return Promise.all(data.map(item => table.create(item)))
+    },
+    async upsert(data) {
+      const row = camelizeKeys(data)
+      return row.id && rows().some(existing => existing.id === row.id)
+        ? table.update(row.id, row)
+        : table.create(row)
+    },
+    async upsertMany(data) {
+      return Promise.all(data.map(item => table.upsert(item)))
+    },
+    async get(id) {
+      const row = rows().find(existing => existing.id === id)
+      return row ? clone(row) : null
+    },
+    async list(options) {
+      return clone(applyQuery(rows(), options))
+    },
+    async update(id, data) {
+      const row = rows().find(existing => existing.id === id)
+      if (!row) throw new Error(`Record ${id} not found`)
+      Object.assign(row, camelizeKeys(data), { id, updatedAt: new Date().toISOString() })
+      persist()
+      return clone(row)
+    },
+    async updateMany(updates) {
+      return Promise.all(updates.map(({ id, ...data }) => table.update(id, data)))
+    },
+    async delete(id) {
+      const index = rows().findIndex(existing => existing.id === id)
+      if (index >= 0) rows().splice(index, 1)
+      persist()
+    },
+    async deleteMany({ where }) {
+      const keep = rows().filter(row => !matchesFilter(row, where))
+      rows().splice(0, rows().length, ...keep)
+      persist()
+    },
+    async count(options) {
+      return rows().filter(row => matchesFilter(row, options?.where)).length
+    },
+    async exists({ where }) {
+      return rows().some(row => matchesFilter(row, where))
+    }
+  }
+  return table
+}
+
+// Uploads come back as data URLs, so they live in whichever row stores the URL
+const toDataUrl = async (file: Blob | Uint8Array) => {
+  const blob = file instanceof Blob ? file : new Blob([file as BlobPart])
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000))
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`
+}
+
+export const createLocalBackend = (options: LocalBackendOptions = {}): LocalBackend => {
+  const seedTables = () =>
+    Object.fromEntries(
+      Object.entries(options.seed?.tables ?? {}).map(([name, rows]) => [name, rows.map(camelizeKeys)])
+    )
+
+  const load = (): Record<string, Row[]> => {
+    if (options.storageKey && typeof localStorage !== 'undefined') {
+      const stored = localStorage.getItem(options.storageKey)
+      if (stored) return JSON.parse(stored)
+    }
+    return seedTables()
+  }
+
+  let data = load()
+  let authState: AuthState = {
+    user: options.seed?.user ?? null,
+    tokens: null,
+    isAuthenticated: Boolean(options.seed?.user),
+    isLoading: false
+  }
+  const listeners = new Set<AuthStateChangeCallback>()
+  let textQueue: ScriptedText[] = []
+  let objectQueue: ScriptedObject[] = []
+
+  const persist = () => {
+    if (options.storageKey && typeof localStorage !== 'undefined') {
+      localStorage.setItem(options.storageKey, JSON.stringify(data))
+    }
+  }
+
+  const setUser = (user: BlinkUser | null) => {
+    authState = { ...authState, user, isAuthenticated: Boolean(user) }
+    listeners.forEach(listener => listener(authState))
+  }
+
+  const tables = new Map<string, TableOperations<any>>()
+
+  const backend: LocalBackend = {
+    auth: {
+      onAuthStateChanged(callback) {
+        listeners.add(callback)
+        callback(authState)
+        return () => {
+          listeners.delete(callback)
+        }
+      },
+      login() {
+        setUser(options.seed?.user ?? { id: 'local_user', email: 'demo@homi.local', displayName: 'Demo User' })
+      },
+      logout() {
+        setUser(null)
+      }
+    },
+
+    db: {
+      table(tableName: string) {
+        if (!tables.has(tableName)) {
+          tables.set(tableName, createTable(() => (data[tableName] ??= []), persist))
+        }
+        return tables.get(tableName)!
+      }
+    },
+
+    ai: {
+      async generateText(request): Promise<TextGenerationResponse> {
+        backend.aiCalls.push({ kind: 'text', request })
+        const next = textQueue.length > 0 ? textQueue.shift()! : options.fallbackText ?? ''
+        const text = typeof next === 'function' ? await next(request) : next
+        return { text, finishReason: 'stop' }
+      },
+      async generateObject(request): Promise<ObjectGenerationResponse> {
+        backend.aiCalls.push({ kind: 'object', request })
+        const next = objectQueue.length > 0 ? objectQueue.shift() : options.fallbackObject ?? {}
+        const object = typeof next === 'function' ? await next(request) : next
+        return { object: clone(object), finishReason: 'stop' }
+      }
+    },
+
+    storage: {
+      async upload(file): Promise<StorageUploadResponse> {
+        return { publicUrl: await toDataUrl(file) }
+      }
+    },
+
+    script({ text = [], object = [] }) {
+      textQueue.push(...text)
+      objectQueue.push(...object)
+    },
+
+    aiCalls: [],
+
+    dump(tableName) {
+      return clone(data[tableName] ?? [])
+    },
+
+    reset() {
+      data = seedTables()
+      persist()
+      textQueue = []
+      objectQueue = []
+      backend.aiCalls.length = 0
+      setUser(options.seed?.user ?? null)
+    }
+  }
+
+  return backend
+}
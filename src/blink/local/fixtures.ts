@@ -0,0 +1,196 @@
+import type { BlinkUser, ObjectGenerationRequest, TextGenerationRequest } from '@blinkdotnew/sdk'
+import type { LocalBackendSeed } from './backend'
+
+// Seed data for the local backend. Rows use the canonical column layout from
+// lib/db/schema, except one request kept in the legacy layout so the schema
+// backfill has something to do. The scripted responders at the bottom stand
+// in for the AI so the intake chat and match explanations work offline.
+
+export const localUser: BlinkUser = {
+  id: 'local_user',
+  email: 'demo@homi.local',
+  displayName: 'Demo Customer'
+}
+
+const avatar = (seed: string) => `https://i.pravatar.cc/150?u=${seed}`
+
+const provider = (
+  id: string,
+  name: string,
+  skills: string[],
+  hourlyRate: number,
+  location: string,
+  availability: string,
+  rating: number,
+  reviewCount: number,
+  completedJobs: number,
+  bio: string
+) => ({
+  id,
+  userId: `user_${id}`,
+  name,
+  bio,
+  skills: JSON.stringify(skills),
+  hourlyRate,
+  location,
+  availability,
+  rating,
+  reviewCount,
+  completedJobs,
+  profileImage: avatar(id)
+})
+
+export const fixtureProviders = [
+  provider(
+    'prov_maria', 'Maria Lopez', ['cleaning', 'deep cleaning', 'organizing'], 35, 'San Francisco, CA',
+    'Weekdays and weekends', 4.9, 148, 212, 'Detail-oriented home cleaner with ten years of experience.'
+  ),
+  provider(
+    'prov_james', 'James Carter', ['plumbing', 'leak repair', 'fixture installation'], 85, 'Oakland, CA',
+    'Weekdays', 4.7, 61, 96, 'Licensed plumber handling leaks, clogs and fixture installs.'
+  ),
+  provider(
+    'prov_aisha', 'Aisha Khan', ['electrical', 'lighting', 'wiring'], 90, 'San Francisco, CA',
+    'Weekdays and evenings', 4.8, 97, 143, 'Certified electrician for lighting, outlets and panel work.'
+  ),
+  provider(
+    'prov_tom', 'Tom Becker', ['handyman', 'furniture assembly', 'painting', 'mounting'], 55, 'Berkeley, CA',
+    'Weekends', 4.5, 33, 58, 'Handy with flat-pack furniture, TV mounts and small paint jobs.'
+  ),
+  provider(
+    'prov_lena', 'Lena Park', ['gardening', 'lawn care', 'landscaping'], 45, 'San Jose, CA',
+    'Flexible', 4.6, 45, 74, 'Keeps yards tidy year round, from mowing to seasonal planting.'
+  ),
+  provider(
+    'prov_sam', 'Sam Rivera', ['moving', 'packing', 'heavy lifting'], 60, 'San Francisco, CA',
+    'Weekends', 3.9, 9, 12, 'Two-person crew for local moves and packing help.'
+  )
+]
+
+export const fixtureRequests = [
+  {
+    id: 'req_fixture_cleaning',
+    userId: localUser.id,
+    inputText: 'I need my two-bedroom apartment deep cleaned before guests arrive',
+    parsedTaskType: 'Deep cleaning',
+    description: 'Deep clean of a two-bedroom apartment, including kitchen and bathrooms.',
+    skillsNeeded: JSON.stringify(['deep cleaning']),
+    location: 'San Francisco, CA',
+    timeline: 'This weekend',
+    complexity: 'standard',
+    budget: 200,
+    estimatedHours: 3,
+    flatPrice: 171,
+    confirmed: 1,
+    status: 'pending',
+    createdAt: '2026-10-12T09:30:00.000Z'
+  },
+  // Written by an older version of the app: no flatPrice/location columns yet
+  {
+    id: 'req_fixture_legacy_plumbing',
+    userId: localUser.id,
+    inputText: 'Kitchen sink is leaking under the cabinet',
+    parsedTaskType: 'Plumbing',
+    description: 'Leak under the kitchen sink needs fixing.',
+    skillsNeeded: JSON.stringify(['plumbing']),
+    parsedLocation: 'Oakland, CA',
+    parsedTimeline: 'As soon as possible',
+    parsedBudget: '150',
+    parsedDuration: '2 hours',
+    suggestedPrice: '170',
+    confirmed: 1,
+    createdAt: '2026-10-05T16:00:00.000Z'
+  }
+]
+
+export const localSeed: LocalBackendSeed = {
+  user: localUser,
+  tables: {
+    providers: fixtureProviders,
+    requests: fixtureRequests,
+    bookings: []
+  }
+}
+
+type IntakeField = 'service' | 'location' | 'budget' | 'timeline'
+
+interface IntakeDraft {
+  service: string | null
+  description: string | null
+  location: string | null
+  budget: number | null
+  timeline: string | null
+}
+
+const intakeQuestions: Record<IntakeField, { message: string; suggestions: string[] }> = {
+  service: { message: 'What do you need help with?', suggestions: ['House cleaning', 'Leaky faucet', 'Furniture assembly'] },
+  location: { message: 'Where is the job?', suggestions: ['San Francisco, CA', 'Oakland, CA', 'San Jose, CA'] },
+  budget: { message: "What's your budget for this?", suggestions: ['$100', '$200', '$500'] },
+  timeline: { message: 'When do you need it done?', suggestions: ['As soon as possible', 'This weekend', 'Next week'] }
+}
+
+const BUDGET = /\$\s?(\d[\d,]*(?:\.\d+)?)|(\d[\d,]*(?:\.\d+)?)\s*(?:dollars|usd|bucks)\b/i
+const TIMELINE = /\b(as soon as possible|asap|urgent(?:ly)?|today|tonight|tomorrow|(?:this|next) (?:week(?:end)?|month)|(?:on |this |next )?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)|flexible)\b/i
+const LOCATION = /\b(?:in|at|near)\s+([A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)*(?:,\s*[A-Z]{2})?)/
+
+// `anyNumber` when the budget was just asked for, so "around 300" counts
+const parseBudget = (text: string, anyNumber: boolean) => {
+  const match = text.match(BUDGET) ?? (anyNumber ? text.match(/(\d[\d,]*(?:\.\d+)?)/) : null)
+  const amount = match ? Number((match[1] ?? match[2]).replace(/,/g, '')) : NaN
+  return amount > 0 ? amount : null
+}
+
+const describeService = (text: string) =>
+  text
+    .replace(/^(hi|hello|hey)[,!.]?\s*/i, '')
+    .replace(/^(i need|i want|i'm looking for|looking for|can (someone|you)|i'd like)\s+/i, '')
+    .replace(/^(my|a|an|the|some)\s+/i, '')
+    .split(/,|\s+(?:in|at|near|for|by|before)\s+/i)[0]
+    .replace(/[.!?]+$/, '')
+    .slice(0, 60)
+    .trim()
+
+// Stands in for the intake model (lib/intake). Reads the draft and the latest
+// message out of the prompt, fills in every field it recognizes (the first
+// missing field, budget aside, takes the whole message) and asks about the next one.
+export const scriptedIntakeReply = ({ prompt }: ObjectGenerationRequest) => {
+  const draft: IntakeDraft = JSON.parse(prompt.match(/Request draft so far:\n(.*)\n/)?.[1] ?? 'null') ?? {
+    service: null, description: null, location: null, budget: null, timeline: null
+  }
+  const conversation = prompt.match(/Conversation so far:\n([\s\S]*?)\n\nRequest draft so far:/)?.[1] ?? ''
+  const latest = conversation.split(/\n(?=(?:User|Assistant): )/).filter(turn => turn.startsWith('User: ')).pop()
+  const text = latest?.slice('User: '.length).trim() ?? ''
+  const missing = () => (Object.keys(intakeQuestions) as IntakeField[]).find(field => !draft[field])
+
+  if (text) {
+    const first = missing()
+    draft.budget ??= parseBudget(text, first === 'budget')
+    draft.timeline ??= text.match(TIMELINE)?.[1] ?? null
+    draft.location ??= text.match(LOCATION)?.[1] ?? null
+    if (first === 'service') {
+      draft.service = describeService(text) || text
+      if (text.length >= 10) draft.description = text
+    } else if (first === 'location' || first === 'timeline') {
+      draft[first] ??= text
+    }
+  }
+
+  const next = missing()
+  if (next) return { draft, complexity: null, ...intakeQuestions[next] }
+
+  draft.description ??= `${draft.service} in ${draft.location}, ${draft.timeline}.`
+  const job = `${draft.service} ${draft.description}`
+  const complexity = /\b(quick|small|minor|simple|single)\b/i.test(job)
+    ? 'simple'
+    : /\b(large|entire|whole|full|multiple|renovat\w*|complex)\b/i.test(job) ? 'complex' : 'standard'
+  return { draft, complexity, message: "Thanks! Here's what I have so far.", suggestions: [] }
+}
+
+// Stands in for the ranking explanation (lib/matching) using the top entry of
+// the ranking in the prompt
+export const scriptedRankingExplanation = ({ prompt = '' }: TextGenerationRequest) => {
+  const top = prompt.match(/^1\. (.+?) — (\d+)% match/m)
+  return top
+    ? `${top[1]} ranks first with a ${top[2]}% match, based on their skills, price, distance, availability and reviews.`
+    : ''
+}
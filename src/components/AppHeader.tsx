@@ -0,0 +1,41 @@
+import { Link } from 'react-router-dom'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { blink } from '../blink/client'
+import { Button } from './ui/button'
+import { NotificationBell } from './NotificationBell'
+import { Sparkles } from 'lucide-react'
+
+export function AppHeader({ user }: { user: BlinkUser }) {
+  return (
+    <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center h-16">
+          <Link to="/" className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gradient-to-br from-indigo-600 to-purple-600 rounded-lg flex items-center justify-center">
+              <Sparkles className="w-5 h-5 text-white" />
+            </div>
+            <span className="text-xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+              Homi
+            </span>
+          </Link>
+          <div className="flex items-center space-x-4">
+            <Button asChild variant="ghost" className="text-gray-600 hover:text-gray-900">
+              <Link to="/dashboard">My Requests</Link>
+            </Button>
+            <Button asChild variant="ghost" className="text-gray-600 hover:text-gray-900">
+              <Link to="/provider">Provider Hub</Link>
+            </Button>
+            <NotificationBell user={user} />
+            <Button
+              variant="outline"
+              onClick={() => blink.auth.logout()}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              Sign Out
+            </Button>
+          </div>
+        </div>
+      </div>
+    </header>
+  )
+}
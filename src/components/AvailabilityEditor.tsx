@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { X } from 'lucide-react'
+import { WEEKDAY_NAMES, describeSchedule } from '../lib/bookings/availability'
+import type { AvailabilitySchedule } from '../types'
+
+interface AvailabilityEditorProps {
+  open: boolean
+  schedule: AvailabilitySchedule
+  saving: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (schedule: AvailabilitySchedule) => void
+}
+
+// Monday first, like the summary text
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+const DEFAULT_HOURS = { start: '09:00', end: '17:00' }
+
+// Weekly hours (one range per day), days off and the buffer between jobs
+export function AvailabilityEditor({ open, schedule, saving, onOpenChange, onSave }: AvailabilityEditorProps) {
+  const [draft, setDraft] = useState(schedule)
+  const [blackoutInput, setBlackoutInput] = useState('')
+
+  // Start from the saved schedule every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(schedule)
+  }, [open]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const setDay = (day: number, hours: AvailabilitySchedule['weekly'][number]) =>
+    setDraft(current => ({ ...current, weekly: current.weekly.map((ranges, index) => (index === day ? hours : ranges)) }))
+
+  const addBlackout = () => {
+    if (!blackoutInput || draft.blackoutDates.includes(blackoutInput)) return
+    setDraft(current => ({ ...current, blackoutDates: [...current.blackoutDates, blackoutInput].sort() }))
+    setBlackoutInput('')
+  }
+
+  const invalidDay = DAY_ORDER.find(day => draft.weekly[day].some(range => range.start >= range.end))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Update Availability</DialogTitle>
+          <DialogDescription>Customers can only book times inside these hours.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {DAY_ORDER.map(day => {
+            const range = draft.weekly[day][0]
+            return (
+              <div key={day} className="flex items-center gap-3">
+                <Switch checked={!!range} onCheckedChange={(checked) => setDay(day, checked ? [DEFAULT_HOURS] : [])} />
+                <span className="w-24 text-sm">{WEEKDAY_NAMES[day]}</span>
+                {range ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={range.start}
+                      onChange={(e) => setDay(day, [{ ...range, start: e.target.value }])}
+                      className="w-28"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      value={range.end}
+                      onChange={(e) => setDay(day, [{ ...range, end: e.target.value }])}
+                      className="w-28"
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Unavailable</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Days off</label>
+          <div className="flex gap-2">
+            <Input type="date" value={blackoutInput} onChange={(e) => setBlackoutInput(e.target.value)} />
+            <Button variant="outline" onClick={addBlackout} disabled={!blackoutInput}>Add</Button>
+          </div>
+          {draft.blackoutDates.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {draft.blackoutDates.map(date => (
+                <Badge key={date} variant="secondary" className="gap-1">
+                  {new Date(`${date}T00:00`).toLocaleDateString()}
+                  <button
+                    type="button"
+                    aria-label={`Remove ${date}`}
+                    onClick={() => setDraft(current => ({ ...current, blackoutDates: current.blackoutDates.filter(item => item !== date) }))}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Break between jobs (minutes)</label>
+          <Input
+            type="number"
+            min="0"
+            step="15"
+            value={draft.bufferMinutes}
+            onChange={(e) => setDraft(current => ({ ...current, bufferMinutes: Math.max(0, Number(e.target.value) || 0) }))}
+            className="w-28"
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">{describeSchedule(draft)}</p>
+        {invalidDay !== undefined && (
+          <p className="text-xs text-red-600">{WEEKDAY_NAMES[invalidDay]} has to end after it starts</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(draft)} disabled={saving || invalidDay !== undefined}>
+            {saving ? 'Saving...' : 'Save Availability'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
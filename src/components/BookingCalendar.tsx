@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { dateKey } from '../lib/bookings/availability'
+import { entryStart, entryTitle, isCancelledEntry, type CalendarEntry } from '../lib/calendar/entries'
+import { formatTime, zonedDateKey } from '../lib/timezones'
+
+type CalendarView = 'month' | 'week'
+
+interface BookingCalendarProps {
+  entries: CalendarEntry[]
+}
+
+// Entries shown per day in the month grid before "+n more"
+const MONTH_CELL_LIMIT = 3
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+const startOfWeek = (date: Date) => addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -date.getDay())
+
+// Whole weeks covering the cursor's month, or the cursor's week
+const visibleDays = (cursor: Date, view: CalendarView) => {
+  const first = view === 'month' ? startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1)) : startOfWeek(cursor)
+  const last = view === 'month' ? new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0) : addDays(first, 6)
+  const days: Date[] = []
+  for (let day = first; day <= last || days.length % 7 !== 0; day = addDays(day, 1)) days.push(day)
+  return days
+}
+
+const heading = (cursor: Date, view: CalendarView, days: Date[]) => {
+  if (view === 'month') return cursor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+  const format = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  return `${format(days[0])} – ${format(days[days.length - 1])}, ${days[days.length - 1].getFullYear()}`
+}
+
+// Bookings land on the day they happen where the service is
+const entryDay = (entry: CalendarEntry) =>
+  entry.booking.timeZone ? zonedDateKey(entryStart(entry), entry.booking.timeZone) : dateKey(entryStart(entry))
+
+function EntryLink({ entry }: { entry: CalendarEntry }) {
+  const cancelled = isCancelledEntry(entry)
+  return (
+    <Link
+      to={`/bookings/${entry.booking.id}`}
+      className={cn(
+        'block truncate rounded px-1.5 py-0.5 text-xs',
+        entry.role === 'provider' ? 'bg-purple-100 text-purple-800' : 'bg-indigo-100 text-indigo-800',
+        cancelled && 'line-through opacity-60'
+      )}
+      title={entryTitle(entry)}
+    >
+      {formatTime(entry.booking.scheduledTime, entry.booking.timeZone)} {entryTitle(entry)}
+    </Link>
+  )
+}
+
+// Month or week grid of the user's bookings, as a customer and as a provider
+export function BookingCalendar({ entries }: BookingCalendarProps) {
+  const [view, setView] = useState<CalendarView>('month')
+  const [cursor, setCursor] = useState(() => new Date())
+
+  const days = visibleDays(cursor, view)
+  const byDay = new Map<string, CalendarEntry[]>()
+  for (const entry of entries) {
+    const key = entryDay(entry)
+    byDay.set(key, [...(byDay.get(key) ?? []), entry])
+  }
+  const today = dateKey(new Date())
+
+  const move = (direction: 1 | -1) =>
+    setCursor(current =>
+      view === 'month'
+        ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+        : addDays(current, 7 * direction)
+    )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle>{heading(cursor, view, days)}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => move(-1)} aria-label="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>Today</Button>
+            <Button variant="outline" size="sm" onClick={() => move(1)} aria-label="Next">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <div className="flex rounded-md border">
+              {(['month', 'week'] as const).map(option => (
+                <Button
+                  key={option}
+                  variant={view === option ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView(option)}
+                  className="capitalize"
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-7 gap-px rounded-lg border bg-border overflow-hidden">
+          {days.slice(0, 7).map(day => (
+            <div key={`label-${day.getDay()}`} className="bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+              {day.toLocaleDateString(undefined, { weekday: 'short' })}
+            </div>
+          ))}
+          {days.map(day => {
+            const key = dateKey(day)
+            const dayEntries = byDay.get(key) ?? []
+            const shown = view === 'month' ? dayEntries.slice(0, MONTH_CELL_LIMIT) : dayEntries
+            const outside = view === 'month' && day.getMonth() !== cursor.getMonth()
+            return (
+              <div
+                key={key}
+                className={cn('bg-white p-1.5 space-y-1', view === 'month' ? 'min-h-[96px]' : 'min-h-[240px]', outside && 'bg-muted/40')}
+              >
+                <div className={cn('text-xs', key === today ? 'font-bold text-primary' : outside ? 'text-muted-foreground' : '')}>
+                  {day.getDate()}
+                </div>
+                {shown.map(entry => (
+                  <EntryLink key={`${entry.role}-${entry.booking.id}`} entry={entry} />
+                ))}
+                {dayEntries.length > shown.length && (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:underline"
+                    onClick={() => {
+                      setCursor(day)
+                      setView('week')
+                    }}
+                  >
+                    +{dayEntries.length - shown.length} more
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <div className="flex gap-4 pt-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-indigo-100" /> Services you booked</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-purple-100" /> Jobs you're doing</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
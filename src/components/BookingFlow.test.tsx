@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { resetLocalApp } from '../test/localApp'
+import { providersRepository, requestsRepository } from '../lib/db/repository'
+import { matchProvider } from '../lib/matching'
+import { toCents } from '../lib/payments/provider'
+import { BookingFlow } from './BookingFlow'
+import type { ProviderMatch, ServiceRequest } from '../types'
+
+let app: ReturnType<typeof resetLocalApp>
+let request: ServiceRequest
+let provider: ProviderMatch
+
+beforeEach(async () => {
+  // 7am on a Monday in San Francisco, so the whole working day is bookable.
+  // Only Date is faked; the page's timers still run.
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2030-01-07T15:00:00Z'))
+  app = resetLocalApp()
+  request = (await requestsRepository.get('req_fixture_cleaning'))!
+  provider = matchProvider((await providersRepository.get('prov_maria'))!, request)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+const renderFlow = () => {
+  const onBookingComplete = vi.fn()
+  render(<BookingFlow request={request} provider={provider} user={app.user} onBookingComplete={onBookingComplete} onBack={() => {}} />)
+  return { onBookingComplete }
+}
+
+const pickNineAm = async () => userEvent.click(await screen.findByRole('button', { name: /^9:00\sAM/ }))
+
+const book = () => userEvent.click(screen.getByRole('button', { name: /^Confirm & Pay/ }))
+
+describe('BookingFlow', () => {
+  it('holds the chosen slot while the customer checks out', async () => {
+    renderFlow()
+    await pickNineAm()
+
+    await screen.findByText(/We're holding 9:00\sAM/)
+    const holds = app.backend.dump('slot_holds')
+    expect(holds.length).toBeGreaterThan(0)
+    expect(holds.every(hold => hold.holderId === app.user.id && !hold.bookingId)).toBe(true)
+  })
+
+  it('books the held slot and authorizes the card', async () => {
+    const { onBookingComplete } = renderFlow()
+    await pickNineAm()
+    await userEvent.type(screen.getByPlaceholderText('Any specific requirements or details for the provider...'), 'Please bring eco-friendly supplies')
+    await book()
+
+    await vi.waitFor(() => expect(onBookingComplete).toHaveBeenCalledOnce())
+    const [bookingId] = onBookingComplete.mock.calls[0]
+    const [booking] = app.backend.dump('bookings')
+    expect(booking).toMatchObject({
+      id: bookingId,
+      status: 'requested',
+      paymentStatus: 'authorized',
+      scheduledTime: '2030-01-07T17:00:00.000Z',
+      timeZone: 'America/Los_Angeles'
+    })
+    expect(app.backend.dump('slot_holds').every(hold => hold.bookingId === bookingId)).toBe(true)
+    expect(app.payments.intents()).toMatchObject([
+      { id: booking.paymentIntentId, status: 'requires_capture', amount: toCents(booking.finalPrice) }
+    ])
+    expect(app.backend.dump('booking_messages')).toMatchObject([{ bookingId, body: 'Please bring eco-friendly supplies' }])
+  })
+
+  it('stores the itemized quote it charged, discount included', async () => {
+    const { onBookingComplete } = renderFlow()
+    await userEvent.type(screen.getByPlaceholderText('Discount code'), 'BOGUS')
+    await userEvent.click(screen.getByRole('button', { name: 'Apply' }))
+    await screen.findByText('That code is not valid')
+    await userEvent.clear(screen.getByPlaceholderText('Discount code'))
+    await userEvent.type(screen.getByPlaceholderText('Discount code'), 'welcome10{Enter}')
+    await pickNineAm()
+    await book()
+
+    await vi.waitFor(() => expect(onBookingComplete).toHaveBeenCalledOnce())
+    const [booking] = app.backend.dump('bookings')
+    const quote = JSON.parse(booking.quote)
+    expect(quote.total).toBe(booking.finalPrice)
+    expect(quote.lines.map((line: { kind: string }) => line.kind)).toContain('discount')
+    expect(app.payments.intents()[0].amount).toBe(toCents(quote.total))
+  })
+
+  it('gives the slot back when the card is declined', async () => {
+    app.payments.declineNext()
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { onBookingComplete } = renderFlow()
+    await pickNineAm()
+    await book()
+
+    await vi.waitFor(() => expect(logged).toHaveBeenCalledWith('Error creating booking:', expect.anything()))
+    expect(onBookingComplete).not.toHaveBeenCalled()
+    expect(app.backend.dump('bookings')).toMatchObject([{ status: 'cancelled', paymentStatus: 'failed' }])
+    expect(app.backend.dump('slot_holds')).toEqual([])
+    expect(app.payments.intents()).toEqual([])
+    logged.mockRestore()
+  })
+})
@@ -1,119 +1,186 @@
-import { useState } from 'react'
-import { blink } from '../blink/client'
+import { useEffect, useRef, useState } from 'react'
 import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
 import { Separator } from './ui/separator'
 import { Calendar } from './ui/calendar'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Textarea } from './ui/textarea'
-import { ArrowLeft, Calendar as CalendarIcon, Clock, DollarSign, Star, MapPin, Check, CreditCard } from 'lucide-react'
+import { ArrowLeft, Calendar as CalendarIcon, Clock, Star, MapPin, CreditCard } from 'lucide-react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import toast from 'react-hot-toast'
+import { requestBooking } from '../lib/bookings/lifecycle'
+import { dateKey, getFreeSlots, isDayAvailable, scheduleFor } from '../lib/bookings/availability'
+import { SlotTakenError, placeHold, releaseHold, type PlacedHold } from '../lib/bookings/holds'
+import { CANCELLATION_POLICY } from '../lib/bookings/cancellation'
+import { PaymentError, fromCents } from '../lib/payments/provider'
+import { availableCredit } from '../lib/ledger/credits'
+import { sendMessage } from '../lib/messages/messages'
+import { findDiscount, formatMoney, quotePrice } from '../lib/pricing'
+import { browserTimeZone, formatTime, timeZoneForLocation, zonedDateKey } from '../lib/timezones'
+import { QuoteBreakdown } from './QuoteBreakdown'
+import { Input } from './ui/input'
+import type { ProviderMatch, ServiceRequest } from '../types'
 
 interface BookingFlowProps {
-  request: any
-  requestId: string
-  provider: any
-  user: any
+  request: ServiceRequest
+  provider: ProviderMatch
+  user: BlinkUser
+  onBookingComplete: (bookingId: string) => void
   onBack: () => void
 }
 
-export function BookingFlow({ request, requestId, provider, user, onBack }: BookingFlowProps) {
+export function BookingFlow({ request, provider, user, onBookingComplete, onBack }: BookingFlowProps) {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date())
+  // ISO start time of the chosen slot
   const [selectedTime, setSelectedTime] = useState('')
+  const [slots, setSlots] = useState<Date[]>([])
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  // Bumped to reload the slots after one turns out to be taken
+  const [slotsVersion, setSlotsVersion] = useState(0)
+  // Keeps the chosen time for this customer while they check out
+  const [hold, setHold] = useState<PlacedHold | null>(null)
+  const holdRef = useRef<PlacedHold | null>(null)
   const [notes, setNotes] = useState('')
+  const [codeInput, setCodeInput] = useState('')
+  const [discountCode, setDiscountCode] = useState<string | undefined>()
+  const [codeError, setCodeError] = useState<string | null>(null)
+  // Homi credit in cents, e.g. from a provider who didn't show up
+  const [credit, setCredit] = useState(0)
   const [isBooking, setIsBooking] = useState(false)
-  const [bookingComplete, setBookingComplete] = useState(false)
 
-  const timeSlots = [
-    '9:00 AM', '10:00 AM', '11:00 AM', '12:00 PM',
-    '1:00 PM', '2:00 PM', '3:00 PM', '4:00 PM', '5:00 PM'
-  ]
+  // Same engine and inputs as the matches page, so the total is identical
+  // until the customer's credit comes off
+  const quote = quotePrice(request, provider, { discountCode, credit: fromCents(credit) })
+  const totalPrice = quote.total
+  const schedule = scheduleFor(provider)
+  const durationMinutes = quote.estimatedHours * 60
+  // Slots are offered and stored in the zone where the work happens
+  const timeZone = timeZoneForLocation(request.location)
+  const formatSlot = (slot: Date | string) => formatTime(new Date(slot).toISOString(), timeZone)
 
-  const totalPrice = Math.round(provider.hourlyRate * parseFloat(request.duration.split(' ')[0] || '2'))
+  const replaceHold = (next: PlacedHold | null) => {
+    const previous = holdRef.current
+    holdRef.current = next
+    setHold(next)
+    if (previous && previous.holdId !== next?.holdId) {
+      releaseHold(previous.holdId).catch(error => console.error('Error releasing slot hold:', error))
+    }
+  }
+
+  // Let the time go if the customer leaves checkout
+  useEffect(() => () => replaceHold(null), [])
+
+  useEffect(() => {
+    availableCredit(user.id)
+      .then(setCredit)
+      .catch(error => console.error('Error loading Homi credit:', error))
+  }, [user.id])
+
+  // Only start times where the whole job fits around the provider's other bookings
+  useEffect(() => {
+    setSelectedTime('')
+    replaceHold(null)
+    if (!selectedDate) {
+      setSlots([])
+      return
+    }
+    let cancelled = false
+    setLoadingSlots(true)
+    getFreeSlots(provider, selectedDate, durationMinutes, timeZone, user.id)
+      .then(free => {
+        if (!cancelled) setSlots(free)
+      })
+      .catch(error => {
+        console.error('Error loading time slots:', error)
+        if (!cancelled) setSlots([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSlots(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedDate, provider, durationMinutes, timeZone, slotsVersion]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const slotTaken = (error: SlotTakenError) => {
+    toast.error(error.message)
+    setSlotsVersion(version => version + 1)
+  }
+
+  const holdSlot = async (slot: Date) => {
+    const placed = await placeHold({ provider, holderId: user.id, start: slot, durationMinutes })
+    replaceHold(placed)
+    return placed
+  }
+
+  const selectSlot = async (slot: Date) => {
+    setSelectedTime(slot.toISOString())
+    replaceHold(null)
+    try {
+      await holdSlot(slot)
+    } catch (error) {
+      console.error('Error holding time slot:', error)
+      if (error instanceof SlotTakenError) slotTaken(error)
+      else toast.error('Could not reserve this time. Please try again.')
+    }
+  }
+
+  const applyCode = () => {
+    const discount = findDiscount(codeInput)
+    if (!discount) {
+      setCodeError('That code is not valid')
+      return
+    }
+    setCodeError(null)
+    setDiscountCode(discount.code)
+  }
 
   const handleBooking = async () => {
     if (!selectedDate || !selectedTime) return
 
     setIsBooking(true)
     try {
-      // Create booking record
-      const scheduledDateTime = new Date(selectedDate)
-      const [time, period] = selectedTime.split(' ')
-      const [hours, minutes] = time.split(':')
-      let hour = parseInt(hours)
-      if (period === 'PM' && hour !== 12) hour += 12
-      if (period === 'AM' && hour === 12) hour = 0
-      
-      scheduledDateTime.setHours(hour, parseInt(minutes || '0'))
+      // A lapsed hold is placed again if nobody has taken the time since
+      const active = hold && new Date(hold.expiresAt) > new Date() ? hold : await holdSlot(new Date(selectedTime))
 
-      const booking = await blink.db.bookings.create({
+      // Places the card hold; it is captured when the job is completed
+      const booking = await requestBooking({
         id: `booking_${Date.now()}`,
-        requestId,
+        requestId: request.id,
         providerId: provider.id,
         userId: user.id,
-        scheduledTime: scheduledDateTime.toISOString(),
+        scheduledTime: selectedTime,
+        timeZone,
         finalPrice: totalPrice,
-        status: 'confirmed',
-        paymentStatus: 'completed'
-      })
-
-      // Update request status
-      await blink.db.requests.update(requestId, {
-        status: 'booked',
-        finalPrice: totalPrice
-      })
+        // Stored as quoted so receipts never drift from what was charged
+        quote,
+        createdAt: new Date().toISOString()
+      }, { role: 'customer', id: user.id }, active.holdId)
 
-      setBookingComplete(true)
+      // The booking owns the slot now
+      holdRef.current = null
+      // Notes open the booking's message thread; the booking stands either way
+      if (notes.trim()) {
+        await sendMessage(booking, { role: 'customer', id: user.id }, { body: notes })
+          .catch(error => console.error('Error sending booking notes:', error))
+      }
+      onBookingComplete(booking.id)
     } catch (error) {
       console.error('Error creating booking:', error)
+      // A failed booking gives its slot back, so hold it again on the next try
+      replaceHold(null)
+      if (error instanceof SlotTakenError) {
+        setSelectedTime('')
+        slotTaken(error)
+      } else {
+        toast.error(error instanceof PaymentError ? error.message : 'Something went wrong while booking. Please try again.')
+      }
     } finally {
       setIsBooking(false)
     }
   }
 
-  if (bookingComplete) {
-    return (
-      <div className="max-w-4xl mx-auto space-y-6">
-        <Card className="border-green-200 bg-green-50">
-          <CardContent className="p-8 text-center space-y-6">
-            <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto">
-              <Check className="w-8 h-8 text-white" />
-            </div>
-            <div className="space-y-2">
-              <h2 className="text-2xl font-bold text-green-800">Booking Confirmed!</h2>
-              <p className="text-green-700">
-                Your service has been booked with {provider.name}
-              </p>
-            </div>
-            <div className="bg-white rounded-lg p-4 space-y-2">
-              <div className="flex justify-between">
-                <span className="font-medium">Date & Time:</span>
-                <span>{selectedDate?.toLocaleDateString()} at {selectedTime}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="font-medium">Service:</span>
-                <span>{request.taskType}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="font-medium">Total:</span>
-                <span className="font-bold">${totalPrice}</span>
-              </div>
-            </div>
-            <div className="flex gap-4 justify-center">
-              <Button onClick={() => window.location.reload()}>
-                Book Another Service
-              </Button>
-              <Button variant="outline" onClick={onBack}>
-                View Details
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    )
-  }
-
   return (
     <div className="max-w-6xl mx-auto space-y-6">
       {/* Header */}
@@ -149,7 +216,9 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
                     <div className="flex items-center gap-1">
                       <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                      <span>{provider.rating} ({provider.completedJobs} jobs)</span>
+                      <span>
+                        {provider.reviewCount > 0 ? provider.rating : 'New'} ({provider.reviewCount} reviews · {provider.completedJobs} jobs)
+                      </span>
                     </div>
                     <div className="flex items-center gap-1">
                       <MapPin className="w-4 h-4" />
@@ -177,7 +246,7 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
                 mode="single"
                 selected={selectedDate}
                 onSelect={setSelectedDate}
-                disabled={(date) => date < new Date() || date < new Date(Date.now() - 86400000)}
+                disabled={(date) => dateKey(date) < zonedDateKey(new Date(), timeZone) || !isDayAvailable(schedule, date)}
                 className="rounded-md border"
               />
             </CardContent>
@@ -192,18 +261,34 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-3 gap-3">
-                {timeSlots.map((time) => (
-                  <Button
-                    key={time}
-                    variant={selectedTime === time ? "default" : "outline"}
-                    onClick={() => setSelectedTime(time)}
-                    className="h-12"
-                  >
-                    {time}
-                  </Button>
-                ))}
-              </div>
+              {timeZone !== browserTimeZone() && (
+                <p className="text-sm text-muted-foreground mb-3">Times are local to {request.location} ({timeZone}).</p>
+              )}
+              {loadingSlots ? (
+                <p className="text-sm text-muted-foreground">Checking {provider.name}'s calendar...</p>
+              ) : slots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No free times on this day for a {quote.estimatedHours}-hour job. Try another date.
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 gap-3">
+                  {slots.map((slot) => (
+                    <Button
+                      key={slot.toISOString()}
+                      variant={selectedTime === slot.toISOString() ? "default" : "outline"}
+                      onClick={() => selectSlot(slot)}
+                      className="h-12"
+                    >
+                      {formatSlot(slot)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {hold && (
+                <p className="text-sm text-muted-foreground mt-3">
+                  We're holding {formatSlot(hold.startsAt)} for you until {formatTime(hold.expiresAt)}.
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -219,6 +304,9 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
                 onChange={(e) => setNotes(e.target.value)}
                 className="min-h-[100px]"
               />
+              <p className="text-xs text-muted-foreground mt-2">
+                Sent to {provider.name} as the first message about this booking
+              </p>
             </CardContent>
           </Card>
         </div>
@@ -233,11 +321,11 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
               <div className="space-y-3">
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Service</span>
-                  <span className="text-sm font-medium">{request.taskType}</span>
+                  <span className="text-sm font-medium">{request.service}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Duration</span>
-                  <span className="text-sm font-medium">{request.duration}</span>
+                  <span className="text-sm font-medium">{provider.estimatedHours} hours</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Rate</span>
@@ -252,16 +340,28 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
                 {selectedTime && (
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Time</span>
-                    <span className="text-sm font-medium">{selectedTime}</span>
+                    <span className="text-sm font-medium">{formatSlot(selectedTime)}</span>
                   </div>
                 )}
               </div>
 
               <Separator />
 
-              <div className="flex justify-between text-lg font-bold">
-                <span>Total</span>
-                <span>${totalPrice}</span>
+              <QuoteBreakdown quote={quote} />
+
+              <div className="space-y-1">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Discount code"
+                    value={codeInput}
+                    onChange={(e) => setCodeInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && applyCode()}
+                  />
+                  <Button variant="outline" onClick={applyCode} disabled={!codeInput.trim()}>
+                    Apply
+                  </Button>
+                </div>
+                {codeError && <p className="text-xs text-red-600">{codeError}</p>}
               </div>
 
               <Button
@@ -277,13 +377,14 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
                 ) : (
                   <>
                     <CreditCard className="w-4 h-4 mr-2" />
-                    Confirm & Pay ${totalPrice}
+                    Confirm & Pay {formatMoney(totalPrice)}
                   </>
                 )}
               </Button>
 
               <div className="text-xs text-muted-foreground text-center">
-                Secure payment processing. You'll be charged when the service is completed.
+                We'll place a hold of {formatMoney(totalPrice)} on your card. You're only charged when the service is completed.
+                Free cancellation until {CANCELLATION_POLICY.freeCancelHours} hours before the start.
               </div>
             </CardContent>
           </Card>
@@ -301,7 +402,7 @@ export function BookingFlow({ request, requestId, provider, user, onBack }: Book
               <div>
                 <p className="text-sm font-medium mb-1">Required Skills</p>
                 <div className="flex flex-wrap gap-1">
-                  {request.skills.map((skill: string, index: number) => (
+                  {request.skills.map((skill, index) => (
                     <Badge key={index} variant="outline" className="text-xs">
                       {skill}
                     </Badge>
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Textarea } from './ui/textarea'
+import { Check, CheckCheck, ImagePlus, MessageSquare, Send, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { MESSAGE_LIMITS, MessageError, getThread, markThreadRead, sendMessage, uploadAttachment } from '../lib/messages/messages'
+import { formatDateTime } from '../lib/timezones'
+import { cn } from '../lib/utils'
+import type { Booking, BookingMessage } from '../types'
+
+interface BookingMessagesProps {
+  booking: Booking
+  userId: string
+  role: 'customer' | 'provider'
+  // The other party's name, for the empty state and headings
+  otherName: string
+}
+
+// Opens a booking's thread, with the count of messages waiting there
+export function MessagesLink({ bookingId, unread }: { bookingId: string; unread: number }) {
+  return (
+    <Button asChild variant="ghost" size="sm">
+      <Link to={`/bookings/${bookingId}`}>
+        <MessageSquare className="w-4 h-4 mr-1" />
+        Messages
+        {unread > 0 && <Badge className="ml-1 px-1.5">{unread}</Badge>}
+      </Link>
+    </Button>
+  )
+}
+
+// There is no push channel, so an open thread checks for new messages now and then
+const REFRESH_MS = 20 * 1000
+
+export function BookingMessages({ booking, userId, role, otherName }: BookingMessagesProps) {
+  const [messages, setMessages] = useState<BookingMessage[]>([])
+  const [draft, setDraft] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [sending, setSending] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const bottom = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const refresh = async () => {
+      try {
+        // Opening the thread reads it
+        const thread = await markThreadRead(await getThread(booking.id), userId)
+        if (!cancelled) setMessages(thread)
+      } catch (error) {
+        console.error('Error loading messages:', error)
+      }
+    }
+    refresh()
+    const timer = setInterval(refresh, REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [booking.id, userId])
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: 'nearest' })
+  }, [messages.length])
+
+  const addFiles = (picked: FileList | null) => {
+    if (!picked) return
+    setFiles(current => [...current, ...Array.from(picked)].slice(0, MESSAGE_LIMITS.attachments))
+    if (fileInput.current) fileInput.current.value = ''
+  }
+
+  const send = async () => {
+    setSending(true)
+    try {
+      const attachments = await Promise.all(files.map(file => uploadAttachment(booking, file)))
+      const message = await sendMessage(booking, { role, id: userId }, { body: draft, attachments })
+      setMessages(current => [...current, message])
+      setDraft('')
+      setFiles([])
+    } catch (error) {
+      console.error('Error sending message:', error)
+      toast.error(error instanceof MessageError ? error.message : 'Could not send your message. Please try again.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Messages with {otherName}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {messages.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No messages yet. Ask {otherName} about access, parking or anything else about the job.
+            </p>
+          )}
+          {messages.map(message => {
+            const mine = message.senderId === userId
+            return (
+              <div key={message.id} className={cn('flex flex-col', mine ? 'items-end' : 'items-start')}>
+                <div className={cn('max-w-[80%] rounded-lg px-3 py-2 space-y-2', mine ? 'bg-primary text-primary-foreground' : 'bg-muted')}>
+                  {message.body && <p className="text-sm whitespace-pre-wrap">{message.body}</p>}
+                  {message.attachments.length > 0 && (
+                    <div className="grid grid-cols-2 gap-2">
+                      {message.attachments.map(attachment => (
+                        <a key={attachment.url} href={attachment.url} target="_blank" rel="noreferrer">
+                          <img src={attachment.url} alt={attachment.name} className="rounded-md max-h-40 object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                  {formatDateTime(message.createdAt)}
+                  {mine && (message.readAt ? (
+                    <span className="flex items-center gap-0.5" title={`Seen ${formatDateTime(message.readAt)}`}>
+                      <CheckCheck className="w-3 h-3 text-primary" />
+                      Seen
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-0.5">
+                      <Check className="w-3 h-3" />
+                      Sent
+                    </span>
+                  ))}
+                </span>
+              </div>
+            )
+          })}
+          <div ref={bottom} />
+        </div>
+
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={`Message ${otherName}`}
+            maxLength={MESSAGE_LIMITS.bodyLength}
+            rows={2}
+          />
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <span key={index} className="flex items-center gap-1 text-xs bg-muted rounded-full px-2 py-1">
+                  {file.name}
+                  <button type="button" aria-label={`Remove ${file.name}`} onClick={() => setFiles(files.filter((_, i) => i !== index))}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between">
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => addFiles(e.target.files)}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInput.current?.click()}
+              disabled={sending || files.length >= MESSAGE_LIMITS.attachments}
+            >
+              <ImagePlus className="w-4 h-4 mr-2" />
+              Add Photos
+            </Button>
+            <Button size="sm" onClick={send} disabled={sending || (!draft.trim() && files.length === 0)}>
+              <Send className="w-4 h-4 mr-2" />
+              {sending ? 'Sending...' : 'Send'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { CANCELLATION_POLICY, cancellationTerms, freeCancelUntil } from '../lib/bookings/cancellation'
+import { formatMoney } from '../lib/pricing'
+import { formatDateTime } from '../lib/timezones'
+import type { Booking, BookingRole } from '../types'
+
+interface CancelBookingDialogProps {
+  // The booking being cancelled; the dialog is open while this is set
+  booking: Booking | null
+  role: BookingRole
+  saving: boolean
+  onClose: () => void
+  onConfirm: (booking: Booking) => void
+}
+
+// Shows what cancelling costs under the cancellation policy before anyone
+// commits to it. A customer cancelling after the provider missed the start
+// is reporting a no-show.
+export function CancelBookingDialog({ booking, role, saving, onClose, onConfirm }: CancelBookingDialogProps) {
+  const terms = booking && cancellationTerms(booking, role)
+  const noShow = terms?.reason === 'provider_no_show'
+
+  return (
+    <Dialog open={!!booking} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{noShow ? "Report That Your Provider Didn't Show" : 'Cancel Booking'}</DialogTitle>
+          <DialogDescription>
+            {booking && `${formatDateTime(booking.scheduledTime, booking.timeZone)}. `}
+            {terms?.summary}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {booking && terms && (
+          <div className="space-y-1 text-sm text-muted-foreground">
+            {terms.fee > 0 && (
+              <p>
+                You'll be charged {formatMoney(terms.fee)} of your {formatMoney(booking.finalPrice)} hold and the rest is released.
+              </p>
+            )}
+            {terms.credit > 0 && (
+              <p>The {formatMoney(terms.credit)} credit comes off your next booking automatically.</p>
+            )}
+            {terms.reason === 'free' && booking.status === 'scheduled' && role === 'customer' && (
+              <p>
+                Cancelling is free until {formatDateTime(freeCancelUntil(booking).toISOString(), booking.timeZone)}.
+                After that there's a late fee of {Math.round(CANCELLATION_POLICY.lateCancelFeeRate * 100)}% of the total.
+              </p>
+            )}
+            {role === 'provider' && terms.reason === 'free' && booking.status === 'scheduled' && (
+              <p>
+                Cancelling less than {CANCELLATION_POLICY.freeCancelHours} hours before the job gives the customer a{' '}
+                {formatMoney(CANCELLATION_POLICY.providerNoShowCredit)} Homi credit.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Keep Booking</Button>
+          <Button variant="destructive" onClick={() => booking && onConfirm(booking)} disabled={saving}>
+            {saving ? 'Cancelling...' : noShow ? 'Report No-Show' : 'Cancel Booking'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
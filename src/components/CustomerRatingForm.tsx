@@ -0,0 +1,44 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+import { StarRating } from './StarRating'
+import { CUSTOMER_ASPECTS, aspectLabels } from '../lib/reviews/reliability'
+import type { CustomerRatingAspect } from '../types'
+
+interface CustomerRatingFormProps {
+  saving: boolean
+  onSubmit: (ratings: Record<CustomerRatingAspect, number>, comment: string) => void
+  onCancel: () => void
+}
+
+// The provider's side of a finished job: how reliable was the customer
+export function CustomerRatingForm({ saving, onSubmit, onCancel }: CustomerRatingFormProps) {
+  const [ratings, setRatings] = useState<Record<CustomerRatingAspect, number>>({ punctuality: 0, accuracy: 0, payment: 0 })
+  const [comment, setComment] = useState('')
+
+  const complete = CUSTOMER_ASPECTS.every(aspect => ratings[aspect] > 0)
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-3 space-y-3">
+      <p className="text-sm font-medium">How was this customer to work with?</p>
+      {CUSTOMER_ASPECTS.map(aspect => (
+        <div key={aspect} className="flex items-center justify-between gap-4 text-sm">
+          <span>{aspectLabels[aspect]}</span>
+          <StarRating value={ratings[aspect]} onChange={(value) => setRatings({ ...ratings, [aspect]: value })} />
+        </div>
+      ))}
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Anything other providers should know (optional, only providers see ratings)"
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => onSubmit(ratings, comment)} disabled={saving || !complete}>
+          {saving ? 'Saving...' : 'Submit Rating'}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { Bell, Settings } from 'lucide-react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { NotificationSettingsDialog } from './NotificationSettingsDialog'
+import { listNotifications, markAllNotificationsRead, markNotificationRead } from '../lib/notifications/notify'
+import { formatDateTime } from '../lib/timezones'
+import { cn } from '../lib/utils'
+import type { UserNotification } from '../types'
+
+// Notifications shown in the menu; older ones stay stored
+const MENU_LIMIT = 15
+// Like an open message thread, the bell checks for news now and then
+const REFRESH_MS = 30 * 1000
+
+export function NotificationBell({ user }: { user: BlinkUser }) {
+  const navigate = useNavigate()
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [showingSettings, setShowingSettings] = useState(false)
+
+  const refresh = async () => {
+    try {
+      setNotifications(await listNotifications(user.id))
+    } catch (error) {
+      console.error('Error loading notifications:', error)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+    const timer = setInterval(refresh, REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [user.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const unread = notifications.filter(notification => !notification.readAt)
+
+  const replace = (updated: UserNotification[]) => {
+    const byId = new Map(updated.map(notification => [notification.id, notification]))
+    setNotifications(current => current.map(notification => byId.get(notification.id) ?? notification))
+  }
+
+  const open = async (notification: UserNotification) => {
+    navigate(notification.link)
+    try {
+      replace([await markNotificationRead(notification)])
+    } catch (error) {
+      console.error('Error marking notification read:', error)
+    }
+  }
+
+  const readAll = async () => {
+    try {
+      replace(await markAllNotificationsRead(unread))
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(isOpen) => isOpen && refresh()}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative text-gray-600 hover:text-gray-900" aria-label="Notifications">
+            <Bell className="w-5 h-5" />
+            {unread.length > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4">
+                {unread.length > 9 ? '9+' : unread.length}
+              </span>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-80">
+          <DropdownMenuLabel className="flex items-center justify-between">
+            Notifications
+            {unread.length > 0 && (
+              <button type="button" className="text-xs font-normal text-primary hover:underline" onClick={readAll}>
+                Mark all read
+              </button>
+            )}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-2 py-6 text-sm text-center text-muted-foreground">You're all caught up</p>
+            ) : (
+              notifications.slice(0, MENU_LIMIT).map(notification => (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onSelect={() => open(notification)}
+                  className="flex items-start gap-2 cursor-pointer"
+                >
+                  <span className={cn('mt-1.5 w-2 h-2 rounded-full shrink-0', notification.readAt ? 'bg-transparent' : 'bg-primary')} />
+                  <span className="space-y-0.5">
+                    <span className={cn('block text-sm', !notification.readAt && 'font-medium')}>{notification.title}</span>
+                    {notification.body && <span className="block text-xs text-muted-foreground line-clamp-2">{notification.body}</span>}
+                    <span className="block text-xs text-muted-foreground">{formatDateTime(notification.createdAt)}</span>
+                  </span>
+                </DropdownMenuItem>
+              ))
+            )}
+          </div>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setShowingSettings(true)} className="cursor-pointer">
+            <Settings className="w-4 h-4 mr-2" />
+            Notification settings
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <NotificationSettingsDialog
+        open={showingSettings}
+        userId={user.id}
+        defaultEmail={user.email}
+        onOpenChange={setShowingSettings}
+      />
+    </>
+  )
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Input } from './ui/input'
+import { Switch } from './ui/switch'
+import toast from 'react-hot-toast'
+import { CHANNEL_KINDS, channelLabels, deliveryLog, type LoggedDelivery } from '../lib/notifications/channels'
+import { notificationsConfig } from '../lib/notifications/client'
+import { NotificationSettingsError, getPreferences, savePreferences } from '../lib/notifications/notify'
+import { subscribeToPush } from '../lib/notifications/push'
+import type { NotificationChannelKind, NotificationPreferences } from '../types'
+
+interface NotificationSettingsDialogProps {
+  open: boolean
+  userId: string
+  // Suggested address until the user saves their own
+  defaultEmail?: string
+  onOpenChange: (open: boolean) => void
+}
+
+// Which channels get a copy of each notification, and where to send them.
+// The bell in the header always gets everything. Without a notifications
+// API the copies that would have gone out are listed here instead.
+export function NotificationSettingsDialog({ open, userId, defaultEmail, onOpenChange }: NotificationSettingsDialogProps) {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [recorded, setRecorded] = useState<LoggedDelivery[]>([])
+
+  useEffect(() => {
+    if (!open) return
+    setRecorded(deliveryLog.slice(-5).reverse())
+    getPreferences(userId)
+      .then(saved => setPreferences({ ...saved, email: saved.email || defaultEmail || '' }))
+      .catch(error => console.error('Error loading notification settings:', error))
+  }, [open, userId, defaultEmail])
+
+  const toggle = (channel: NotificationChannelKind, on: boolean) => {
+    if (!preferences) return
+    setPreferences({
+      ...preferences,
+      channels: on ? [...preferences.channels, channel] : preferences.channels.filter(item => item !== channel)
+    })
+  }
+
+  const save = async () => {
+    if (!preferences) return
+    setSaving(true)
+    try {
+      // Subscribe this browser when push is switched on
+      const wantsPush = preferences.channels.includes('push')
+      const pushSubscription = wantsPush ? preferences.pushSubscription ?? await subscribeToPush() : undefined
+      await savePreferences({ ...preferences, pushSubscription })
+      toast.success('Notification settings saved')
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error saving notification settings:', error)
+      toast.error(error instanceof NotificationSettingsError ? error.message : 'Could not save your settings. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+          <DialogDescription>
+            Updates about your bookings always appear under the bell. Choose where else to get them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preferences && (
+          <div className="space-y-4">
+            {CHANNEL_KINDS.map(channel => (
+              <div key={channel} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{channelLabels[channel]}</span>
+                  <Switch
+                    checked={preferences.channels.includes(channel)}
+                    onCheckedChange={(checked) => toggle(channel, checked)}
+                  />
+                </div>
+                {channel === 'email' && preferences.channels.includes('email') && (
+                  <Input
+                    type="email"
+                    value={preferences.email}
+                    onChange={(e) => setPreferences({ ...preferences, email: e.target.value })}
+                    placeholder="you@example.com"
+                  />
+                )}
+                {channel === 'sms' && preferences.channels.includes('sms') && (
+                  <Input
+                    type="tel"
+                    value={preferences.phone}
+                    onChange={(e) => setPreferences({ ...preferences, phone: e.target.value })}
+                    placeholder="+1 555 123 4567"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {notificationsConfig.provider === 'local' && (
+          <div className="space-y-2 border-t border-gray-200 pt-4">
+            <p className="text-sm font-medium">Recent copies (not sent)</p>
+            {recorded.length === 0 ? (
+              <p className="text-xs text-gray-500">Nothing yet</p>
+            ) : (
+              <ul className="space-y-1">
+                {recorded.map(delivery => (
+                  <li key={`${delivery.at}-${delivery.channel}-${delivery.title}`} className="text-xs text-gray-600">
+                    {channelLabels[delivery.channel]} to {delivery.to}: {delivery.title}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save} disabled={saving || !preferences}>
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
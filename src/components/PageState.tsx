@@ -0,0 +1,27 @@
+import { Link } from 'react-router-dom'
+import { Button } from './ui/button'
+
+export function LoadingScreen({ message }: { message: string }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 flex items-center justify-center">
+      <div className="text-center">
+        <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600">{message}</p>
+      </div>
+    </div>
+  )
+}
+
+export function NotFoundScreen({ message = "We couldn't find that page." }: { message?: string }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Not found</h1>
+        <p className="text-gray-600 mb-6">{message}</p>
+        <Button asChild>
+          <Link to="/">Back to Home</Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Separator } from './ui/separator'
+import { Wallet } from 'lucide-react'
+import { formatMoney } from '../lib/pricing'
+import { fromCents } from '../lib/payments/provider'
+import type { LedgerEntry, PayoutBatch } from '../types'
+
+interface PayoutLedgerProps {
+  batches: PayoutBatch[]
+  entries: LedgerEntry[]
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+
+// Provider's view of the ledger: payout batches and every movement of their
+// payable balance
+export function PayoutLedger({ batches, entries }: PayoutLedgerProps) {
+  const movements = entries
+    .filter(entry => entry.account === 'provider_payable')
+    .slice()
+    .reverse()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payouts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {batches.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <Wallet className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p className="text-sm">Completed jobs are paid out weekly once the escrow hold ends</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {batches.map(batch => (
+              <div key={batch.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium">{formatDate(batch.paidAt ?? batch.scheduledFor)}</span>
+                  <span className="text-muted-foreground"> · {batch.bookingIds.length} job{batch.bookingIds.length === 1 ? '' : 's'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={batch.status === 'paid' ? 'secondary' : 'outline'}>{batch.status}</Badge>
+                  <span className="font-medium">{formatMoney(fromCents(batch.amount))}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {movements.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Ledger</h4>
+              {movements.map(entry => (
+                <div key={entry.id} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {formatDate(entry.createdAt)} · {entry.kind === 'payout' ? 'Paid out' : 'Earned'}
+                    {entry.bookingId && ` (${entry.bookingId})`}
+                  </span>
+                  <span className={entry.credit > 0 ? 'text-green-600' : ''}>
+                    {entry.credit > 0 ? '+' : '−'}{formatMoney(fromCents(entry.credit || entry.debit))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,65 +1,140 @@
 import { useState, useEffect } from 'react'
-import { blink } from '../blink/client'
+import { Link } from 'react-router-dom'
 import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Input } from './ui/input'
 import { Textarea } from './ui/textarea'
 import { Separator } from './ui/separator'
-import { Plus, Star, DollarSign, Calendar, Clock, MapPin, Edit, Save, X } from 'lucide-react'
+import { QuoteBreakdown } from './QuoteBreakdown'
+import { PayoutLedger } from './PayoutLedger'
+import { AvailabilityEditor } from './AvailabilityEditor'
+import { CancelBookingDialog } from './CancelBookingDialog'
+import { RescheduleDialog } from './RescheduleDialog'
+import { ProviderReviews } from './ProviderReviews'
+import { CustomerRatingForm } from './CustomerRatingForm'
+import { MessagesLink } from './BookingMessages'
+import { CustomerReliabilityNote, ProviderInbox, type ProviderJob, type RequestMatch } from './ProviderInbox'
+import { Plus, Star, DollarSign, Calendar, CalendarClock, Clock, MapPin, Edit, Save, X, Download, CheckCircle, Play } from 'lucide-react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import toast from 'react-hot-toast'
+import {
+  bookingsRepository,
+  customerRatingsRepository,
+  ledgerRepository,
+  providersRepository,
+  requestsRepository,
+  reviewsRepository
+} from '../lib/db/repository'
+import { PriceAdjustmentError, formatMoney } from '../lib/pricing'
+import { downloadReceipt } from '../lib/receipt'
+import { formatDateTime } from '../lib/timezones'
+import {
+  acceptBooking,
+  availableTransitions,
+  bookingStatusLabels,
+  proposeChanges,
+  rescheduleBooking,
+  transitionBooking
+} from '../lib/bookings/lifecycle'
+import { RescheduleClosedError, canReschedule } from '../lib/bookings/cancellation'
+import { SlotTakenError } from '../lib/bookings/holds'
+import { replyToReview } from '../lib/reviews/reviews'
+import { CustomerRatingError, getReliabilities, getReliability, rateCustomer } from '../lib/reviews/reliability'
+import { unreadCounts } from '../lib/messages/messages'
+import { findMatchingRequests } from '../lib/matching'
+import { fromCents } from '../lib/payments/provider'
+import { summarizeEarnings, type ProviderEarnings } from '../lib/ledger/entries'
+import { settlePayouts } from '../lib/ledger/payouts'
+import { describeSchedule, scheduleFor } from '../lib/bookings/availability'
+import type {
+  AvailabilitySchedule,
+  Booking,
+  BookingStatus,
+  CustomerRating,
+  CustomerRatingAspect,
+  LedgerEntry,
+  PayoutBatch,
+  Provider,
+  Review
+} from '../types'
 
-interface ProviderDashboardProps {
-  user: any
+// Buttons for the provider's next steps once a request is answered (see
+// ProviderInbox). Cancelling is confirmed in CancelBookingDialog first.
+const jobActions: Partial<Record<BookingStatus, { label: string; icon: typeof Play; variant?: 'outline' }>> = {
+  in_progress: { label: 'Start Job', icon: Play },
+  completed: { label: 'Mark Completed', icon: CheckCircle },
+  cancelled: { label: 'Cancel', icon: X, variant: 'outline' }
 }
 
-interface ProviderProfile {
-  id: string
-  name: string
-  bio: string
-  skills: string[]
-  hourlyRate: number
-  location: string
-  rating: number
-  completedJobs: number
+interface ProviderDashboardProps {
+  user: BlinkUser
 }
 
 export function ProviderDashboard({ user }: ProviderDashboardProps) {
-  const [profile, setProfile] = useState<ProviderProfile | null>(null)
+  const [profile, setProfile] = useState<Provider | null>(null)
+  const [jobs, setJobs] = useState<ProviderJob[]>([])
+  const [requestMatches, setRequestMatches] = useState<RequestMatch[]>([])
+  const [ledger, setLedger] = useState<LedgerEntry[]>([])
+  const [batches, setBatches] = useState<PayoutBatch[]>([])
+  const [earnings, setEarnings] = useState<ProviderEarnings>({ total: 0, thisMonth: 0, inEscrow: 0, paidOut: 0 })
   const [isEditing, setIsEditing] = useState(false)
   const [editForm, setEditForm] = useState({
     name: '',
     bio: '',
     skills: '',
     hourlyRate: '',
-    location: ''
+    location: '',
+    minCustomerReliability: ''
   })
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [editingAvailability, setEditingAvailability] = useState(false)
+  const [cancelling, setCancelling] = useState<ProviderJob | null>(null)
+  const [rescheduling, setRescheduling] = useState<ProviderJob | null>(null)
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [showingReviews, setShowingReviews] = useState(false)
+  const [customerRatings, setCustomerRatings] = useState<CustomerRating[]>([])
+  const [ratingJobId, setRatingJobId] = useState<string | null>(null)
 
   useEffect(() => {
     loadProviderProfile()
   }, [user]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  const loadEarnings = async (providerId: string, bookings: Booking[]) => {
+    setBatches(await settlePayouts(providerId))
+    const entries = await ledgerRepository.listByProvider(providerId)
+    setLedger(entries)
+    setEarnings(summarizeEarnings(entries, bookings))
+  }
+
   const loadProviderProfile = async () => {
     try {
-      const providers = await blink.db.providers.list({
-        where: { userId: user.id },
-        limit: 1
-      })
+      const provider = await providersRepository.getByUser(user.id)
 
-      if (providers.length > 0) {
-        const provider = providers[0]
-        const profileData = {
-          ...provider,
-          skills: JSON.parse(provider.skills || '[]')
-        }
-        setProfile(profileData)
+      if (provider) {
+        setProfile(provider)
+        const bookings = await bookingsRepository.listByProvider(provider.id)
+        const reliabilities = await getReliabilities(bookings.map(booking => booking.userId))
+        const unread = await unreadCounts(user.id)
+        setJobs(await Promise.all(bookings.map(async booking => ({
+          ...booking,
+          request: await requestsRepository.get(booking.requestId),
+          reliability: reliabilities.get(booking.userId) ?? null,
+          unreadMessages: unread.get(booking.id) ?? 0
+        }))))
+        await loadEarnings(provider.id, bookings)
+        setReviews(await reviewsRepository.listByProvider(provider.id))
+        setCustomerRatings(await customerRatingsRepository.listByProvider(provider.id))
+        setRequestMatches(await findMatchingRequests(provider))
         setEditForm({
           name: provider.name,
-          bio: provider.bio || '',
-          skills: JSON.parse(provider.skills || '[]').join(', '),
-          hourlyRate: provider.hourlyRate?.toString() || '',
-          location: provider.location || ''
+          bio: provider.bio,
+          skills: provider.skills.join(', '),
+          hourlyRate: provider.hourlyRate ? provider.hourlyRate.toString() : '',
+          location: provider.location,
+          minCustomerReliability: provider.minCustomerReliability ? provider.minCustomerReliability.toString() : ''
         })
       }
     } catch (error) {
@@ -69,30 +144,90 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
     }
   }
 
+  // Completing a job charges the hold placed when the customer booked
+  const updateJob = async (job: Booking, change: () => Promise<Booking>) => {
+    setUpdatingId(job.id)
+    try {
+      const booking = await change()
+      const updated = jobs.map(item => (item.id === job.id ? { ...item, ...booking } : item))
+      setJobs(updated)
+      setCancelling(null)
+      setRescheduling(null)
+      await loadEarnings(booking.providerId, updated)
+      // Completing a job updates the provider's job count
+      setProfile(await providersRepository.get(booking.providerId))
+    } catch (error) {
+      console.error('Error updating job:', error)
+      toast.error(
+        error instanceof SlotTakenError || error instanceof RescheduleClosedError || error instanceof PriceAdjustmentError
+          ? error.message
+          : 'Could not update this job. Please try again.'
+      )
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const actor = { role: 'provider' as const, id: user.id }
+
+  const handleReply = async (review: Review, reply: string) => {
+    try {
+      const updated = await replyToReview(review, reply)
+      setReviews(current => current.map(item => (item.id === updated.id ? updated : item)))
+      toast.success('Reply posted')
+    } catch (error) {
+      console.error('Error replying to review:', error)
+      toast.error('Could not post your reply. Please try again.')
+      throw error
+    }
+  }
+
+  const handleRateCustomer = async (job: ProviderJob, ratings: Record<CustomerRatingAspect, number>, comment: string) => {
+    setUpdatingId(job.id)
+    try {
+      const rating = await rateCustomer(job, actor, { ...ratings, comment })
+      setCustomerRatings(current => [rating, ...current])
+      setRatingJobId(null)
+      // Every job with this customer shows the new score
+      const reliability = await getReliability(job.userId)
+      setJobs(current => current.map(item => (item.userId === job.userId ? { ...item, reliability } : item)))
+      toast.success('Thanks for rating this customer')
+    } catch (error) {
+      console.error('Error rating customer:', error)
+      toast.error(error instanceof CustomerRatingError ? error.message : 'Could not save your rating. Please try again.')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const incoming = jobs.filter(job => job.status === 'requested')
+  const answered = jobs.filter(job => job.status !== 'requested')
+  const unreadMessages = answered.reduce((sum, job) => sum + job.unreadMessages, 0)
+
   const handleSaveProfile = async () => {
     setSaving(true)
     try {
       const skillsArray = editForm.skills.split(',').map(s => s.trim()).filter(s => s)
       
-      const profileData = {
+      const profileData: Provider = {
+        id: profile?.id || `provider_${Date.now()}`,
         userId: user.id,
         name: editForm.name,
         bio: editForm.bio,
-        skills: JSON.stringify(skillsArray),
+        skills: skillsArray,
         hourlyRate: parseFloat(editForm.hourlyRate),
         location: editForm.location,
-        rating: profile?.rating || 5.0,
-        completedJobs: profile?.completedJobs || 0
+        availability: profile?.availability || '',
+        schedule: profile?.schedule,
+        // Maintained from reviews and bookings, never edited here
+        rating: profile?.rating ?? 0,
+        reviewCount: profile?.reviewCount ?? 0,
+        completedJobs: profile?.completedJobs ?? 0,
+        minCustomerReliability: editForm.minCustomerReliability ? parseFloat(editForm.minCustomerReliability) : undefined,
+        profileImage: profile?.profileImage || user.photoURL || ''
       }
 
-      if (profile) {
-        await blink.db.providers.update(profile.id, profileData)
-      } else {
-        await blink.db.providers.create({
-          id: `provider_${Date.now()}`,
-          ...profileData
-        })
-      }
+      await providersRepository.save(profileData)
 
       await loadProviderProfile()
       setIsEditing(false)
@@ -103,6 +238,24 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
     }
   }
 
+  const handleSaveAvailability = async (schedule: AvailabilitySchedule) => {
+    if (!profile) return
+    setSaving(true)
+    try {
+      // The summary text keeps matching and profile cards in step
+      const updated = { ...profile, schedule, availability: describeSchedule(schedule) }
+      await providersRepository.save(updated)
+      setProfile(updated)
+      setEditingAvailability(false)
+      toast.success('Availability updated')
+    } catch (error) {
+      console.error('Error saving availability:', error)
+      toast.error('Could not save your availability. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="max-w-4xl mx-auto space-y-6">
@@ -202,6 +355,21 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
                       placeholder="San Francisco, CA"
                     />
                   </div>
+                  <div>
+                    <label className="text-sm font-medium">Minimum customer reliability</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="5"
+                      step="0.1"
+                      value={editForm.minCustomerReliability}
+                      onChange={(e) => setEditForm({ ...editForm, minCustomerReliability: e.target.value })}
+                      placeholder="Any"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Hides open requests from customers other providers rated lower. New customers always show.
+                    </p>
+                  </div>
                   <div className="flex gap-2">
                     <Button onClick={handleSaveProfile} disabled={saving}>
                       {saving ? (
@@ -229,7 +397,9 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
                     <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                       <div className="flex items-center gap-1">
                         <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                        <span>{profile.rating} rating</span>
+                        <span>
+                          {profile.reviewCount > 0 ? `${profile.rating} rating (${profile.reviewCount} reviews)` : 'No reviews yet'}
+                        </span>
                       </div>
                       <div className="flex items-center gap-1">
                         <Calendar className="w-4 h-4" />
@@ -261,17 +431,120 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
             </CardContent>
           </Card>
 
-          {/* Recent Jobs */}
+          <ProviderInbox
+            jobs={incoming}
+            matches={requestMatches}
+            busyId={updatingId}
+            onAccept={(job) => updateJob(job, () => acceptBooking(job, actor))}
+            onDecline={(job, reason) => updateJob(job, () => transitionBooking(job, 'declined', actor, reason))}
+            onPropose={(job, proposal) => updateJob(job, () => proposeChanges(job, actor, proposal))}
+          />
+
+          {/* Jobs */}
           <Card>
             <CardHeader>
-              <CardTitle>Recent Job Requests</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                Your Jobs
+                {unreadMessages > 0 && (
+                  <Badge variant="secondary">
+                    {unreadMessages} unread message{unreadMessages === 1 ? '' : 's'}
+                  </Badge>
+                )}
+              </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-center py-8 text-muted-foreground">
-                <Calendar className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                <p>No job requests yet</p>
-                <p className="text-sm">Complete your profile to start receiving requests</p>
-              </div>
+              {answered.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Calendar className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No jobs yet</p>
+                  <p className="text-sm">Accepted requests show up here</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {answered.map(job => (
+                    <div key={job.id} className="p-4 border rounded-lg space-y-3">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <h4 className="font-medium">{job.request?.service ?? 'Service request'}</h4>
+                          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Calendar className="w-3 h-3" />
+                              {formatDateTime(job.scheduledTime, job.timeZone)}
+                            </span>
+                            {job.request?.location && (
+                              <span className="flex items-center gap-1">
+                                <MapPin className="w-3 h-3" />
+                                {job.request.location}
+                              </span>
+                            )}
+                            <CustomerReliabilityNote reliability={job.reliability} />
+                          </div>
+                        </div>
+                        <Badge variant="outline">{bookingStatusLabels[job.status]}</Badge>
+                      </div>
+                      {job.proposal && (
+                        <p className="text-sm text-amber-700 bg-amber-50 rounded-md p-2">
+                          Waiting for the customer to confirm your proposed changes
+                        </p>
+                      )}
+                      {job.quote ? (
+                        <QuoteBreakdown quote={job.quote} showPayout />
+                      ) : (
+                        <p className="text-sm">Total: <span className="font-medium">{formatMoney(job.finalPrice)}</span></p>
+                      )}
+                      <div className="flex gap-2">
+                        {availableTransitions(job, 'provider').map(to => {
+                          const action = jobActions[to]
+                          if (!action) return null
+                          const Icon = action.icon
+                          return (
+                            <Button
+                              key={to}
+                              size="sm"
+                              variant={action.variant}
+                              onClick={() => (to === 'cancelled' ? setCancelling(job) : updateJob(job, () => transitionBooking(job, to, actor)))}
+                              disabled={updatingId === job.id}
+                            >
+                              <Icon className="w-4 h-4 mr-2" />
+                              {action.label}
+                            </Button>
+                          )
+                        })}
+                        {canReschedule(job, 'provider') && (
+                          <Button size="sm" variant="outline" onClick={() => setRescheduling(job)} disabled={updatingId === job.id}>
+                            <CalendarClock className="w-4 h-4 mr-2" />
+                            Reschedule
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => downloadReceipt({ booking: job, request: job.request, provider: profile })}
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          Receipt
+                        </Button>
+                        <MessagesLink bookingId={job.id} unread={job.unreadMessages} />
+                        {(job.status === 'completed' || job.status === 'reviewed') &&
+                          ratingJobId !== job.id &&
+                          !customerRatings.some(rating => rating.bookingId === job.id) && (
+                          <Button variant="outline" size="sm" onClick={() => setRatingJobId(job.id)}>
+                            <Star className="w-4 h-4 mr-2" />
+                            Rate Customer
+                          </Button>
+                        )}
+                      </div>
+                      {ratingJobId === job.id && (
+                        <CustomerRatingForm
+                          saving={updatingId === job.id}
+                          onSubmit={(ratings, comment) => handleRateCustomer(job, ratings, comment)}
+                          onCancel={() => setRatingJobId(null)}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -284,14 +557,22 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="text-center">
-                <div className="text-3xl font-bold text-primary">$0</div>
+                <div className="text-3xl font-bold text-primary">{formatMoney(fromCents(earnings.total))}</div>
                 <p className="text-sm text-muted-foreground">Total Earnings</p>
               </div>
               <Separator />
               <div className="space-y-3">
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">This Month</span>
-                  <span className="font-medium">$0</span>
+                  <span className="font-medium">{formatMoney(fromCents(earnings.thisMonth))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">In Escrow</span>
+                  <span className="font-medium">{formatMoney(fromCents(earnings.inEscrow))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Paid Out</span>
+                  <span className="font-medium">{formatMoney(fromCents(earnings.paidOut))}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Jobs Completed</span>
@@ -299,24 +580,32 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Average Rating</span>
-                  <span className="font-medium">{profile?.rating || 'N/A'}</span>
+                  <span className="font-medium">{profile?.reviewCount ? profile.rating : 'N/A'}</span>
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          <PayoutLedger batches={batches} entries={ledger} />
+
           <Card>
             <CardHeader>
               <CardTitle>Quick Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <Button className="w-full" variant="outline">
+              <Button className="w-full" variant="outline" disabled={!profile} onClick={() => setEditingAvailability(true)}>
                 <Clock className="w-4 h-4 mr-2" />
                 Update Availability
               </Button>
-              <Button className="w-full" variant="outline">
+              <Button asChild className="w-full" variant="outline">
+                <Link to="/calendar">
+                  <Calendar className="w-4 h-4 mr-2" />
+                  View Calendar
+                </Link>
+              </Button>
+              <Button className="w-full" variant="outline" disabled={!profile} onClick={() => setShowingReviews(true)}>
                 <Star className="w-4 h-4 mr-2" />
-                View Reviews
+                View Reviews{reviews.length > 0 && ` (${reviews.length})`}
               </Button>
               <Button className="w-full" variant="outline">
                 <DollarSign className="w-4 h-4 mr-2" />
@@ -346,6 +635,39 @@ export function ProviderDashboard({ user }: ProviderDashboardProps) {
           </Card>
         </div>
       </div>
+
+      {profile && (
+        <ProviderReviews
+          open={showingReviews}
+          provider={profile}
+          reviews={reviews}
+          onOpenChange={setShowingReviews}
+          onReply={handleReply}
+        />
+      )}
+      {profile && (
+        <AvailabilityEditor
+          open={editingAvailability}
+          schedule={scheduleFor(profile)}
+          saving={saving}
+          onOpenChange={setEditingAvailability}
+          onSave={handleSaveAvailability}
+        />
+      )}
+      <CancelBookingDialog
+        booking={cancelling}
+        role="provider"
+        saving={!!cancelling && updatingId === cancelling.id}
+        onClose={() => setCancelling(null)}
+        onConfirm={(job) => updateJob(job, () => transitionBooking(job, 'cancelled', actor))}
+      />
+      <RescheduleDialog
+        booking={rescheduling}
+        provider={profile}
+        saving={!!rescheduling && updatingId === rescheduling.id}
+        onClose={() => setRescheduling(null)}
+        onReschedule={(job, start) => updateJob(job, () => rescheduleBooking(job, actor, start))}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,247 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { MessagesLink } from './BookingMessages'
+import { Calendar, CheckCircle, Inbox, MapPin, Send, ShieldCheck, X } from 'lucide-react'
+import { MINIMUM_CARD_CHARGE, formatMoney, minimumAdjustedTotal } from '../lib/pricing'
+import { formatDateTime, fromZonedInput, timeZoneForLocation, toZonedInput } from '../lib/timezones'
+import type { Booking, BookingProposal, CustomerReliability, ProviderMatch, ServiceRequest } from '../types'
+
+export interface ProviderJob extends Booking {
+  request: ServiceRequest | null
+  // The customer's reliability from other providers' ratings
+  reliability: CustomerReliability | null
+  // Messages from the customer the provider hasn't read
+  unreadMessages: number
+}
+
+export interface RequestMatch {
+  request: ServiceRequest
+  match: ProviderMatch
+  reliability: CustomerReliability | null
+}
+
+export function CustomerReliabilityNote({ reliability }: { reliability: CustomerReliability | null }) {
+  return (
+    <span
+      className="flex items-center gap-1"
+      title={reliability ? `Punctuality ${reliability.punctuality}, accuracy ${reliability.accuracy}, payment ${reliability.payment}` : undefined}
+    >
+      <ShieldCheck className="w-3 h-3" />
+      {reliability
+        ? `Customer reliability ${reliability.score} (${reliability.ratingCount} rating${reliability.ratingCount === 1 ? '' : 's'})`
+        : 'New customer'}
+    </span>
+  )
+}
+
+interface ProviderInboxProps {
+  // Bookings waiting for the provider's answer
+  jobs: ProviderJob[]
+  // Open requests the provider fits, for context; customers book from their side
+  matches: RequestMatch[]
+  busyId: string | null
+  onAccept: (job: ProviderJob) => void
+  onDecline: (job: ProviderJob, reason: string) => void
+  onPropose: (job: ProviderJob, proposal: Omit<BookingProposal, 'proposedAt'>) => void
+}
+
+function InboxItem({
+  job,
+  busy,
+  onAccept,
+  onDecline,
+  onPropose
+}: {
+  job: ProviderJob
+  busy: boolean
+  onAccept: () => void
+  onDecline: (reason: string) => void
+  onPropose: (proposal: Omit<BookingProposal, 'proposedAt'>) => void
+}) {
+  // Times are entered and shown in the service location's zone
+  const timeZone = job.timeZone ?? timeZoneForLocation(job.request?.location)
+  const [mode, setMode] = useState<'idle' | 'decline' | 'propose'>('idle')
+  const [reason, setReason] = useState('')
+  const [time, setTime] = useState(toZonedInput(job.scheduledTime, timeZone))
+  const [price, setPrice] = useState(String(job.finalPrice))
+  const [note, setNote] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  // A cut can't eat into the fees and tax already on the quote
+  const minimumPrice = job.quote ? minimumAdjustedTotal(job.quote) : MINIMUM_CARD_CHARGE
+
+  const submitProposal = () => {
+    const scheduledTime = time ? fromZonedInput(time, timeZone)?.toISOString() : undefined
+    const newPrice = Number(price)
+    if (!Number.isFinite(newPrice) || newPrice <= 0) {
+      setError('Enter a price above zero')
+      return
+    }
+    if (newPrice < minimumPrice) {
+      setError(`The lowest price you can propose for this job is ${formatMoney(minimumPrice)}`)
+      return
+    }
+    const timeChanged = scheduledTime !== undefined && scheduledTime !== job.scheduledTime
+    const priceChanged = newPrice !== job.finalPrice
+    if (!timeChanged && !priceChanged) {
+      setError('Change the time or the price to propose something new')
+      return
+    }
+    setError(null)
+    onPropose({
+      scheduledTime: timeChanged ? scheduledTime : undefined,
+      price: priceChanged ? newPrice : undefined,
+      note: note.trim()
+    })
+  }
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-start justify-between">
+        <div className="space-y-1">
+          <h4 className="font-medium">{job.request?.service ?? 'Service request'}</h4>
+          {job.request?.description && <p className="text-sm text-muted-foreground">{job.request.description}</p>}
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Calendar className="w-3 h-3" />
+              {formatDateTime(job.scheduledTime, timeZone)}
+            </span>
+            {job.request?.location && (
+              <span className="flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {job.request.location}
+              </span>
+            )}
+            <CustomerReliabilityNote reliability={job.reliability} />
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="font-semibold">{formatMoney(job.finalPrice)}</div>
+          {job.quote && <div className="text-xs text-muted-foreground">You get {formatMoney(job.quote.providerPayout)}</div>}
+        </div>
+      </div>
+
+      {mode === 'decline' && (
+        <div className="space-y-2">
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Let the customer know why, e.g. fully booked that week"
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" variant="destructive" disabled={busy || !reason.trim()} onClick={() => onDecline(reason.trim())}>
+              Decline Request
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setMode('idle')}>Back</Button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'propose' && (
+        <div className="space-y-2">
+          <div className="grid sm:grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Time ({timeZone})</label>
+              <Input type="datetime-local" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Total price ($)</label>
+              <Input type="number" min={minimumPrice} step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} />
+            </div>
+          </div>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Explain the change, e.g. the job needs an extra hour"
+            rows={2}
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button size="sm" disabled={busy} onClick={submitProposal}>
+              <Send className="w-4 h-4 mr-2" />
+              Send Proposal
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setMode('idle')}>Back</Button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'idle' && (
+        <div className="flex gap-2">
+          <Button size="sm" disabled={busy} onClick={onAccept}>
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => setMode('propose')}>
+            Propose Changes
+          </Button>
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => setMode('decline')}>
+            <X className="w-4 h-4 mr-2" />
+            Decline
+          </Button>
+          <MessagesLink bookingId={job.id} unread={job.unreadMessages} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Incoming job requests the provider has to answer, plus open requests that
+// fit their skills
+export function ProviderInbox({ jobs, matches, busyId, onAccept, onDecline, onPropose }: ProviderInboxProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Job Requests
+          {jobs.length > 0 && <Badge>{jobs.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {jobs.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Inbox className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No job requests waiting</p>
+            <p className="text-sm">New bookings show up here for you to accept</p>
+          </div>
+        ) : (
+          jobs.map(job => (
+            <InboxItem
+              key={job.id}
+              job={job}
+              busy={busyId === job.id}
+              onAccept={() => onAccept(job)}
+              onDecline={(reason) => onDecline(job, reason)}
+              onPropose={(proposal) => onPropose(job, proposal)}
+            />
+          ))
+        )}
+
+        {matches.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <h4 className="text-sm font-medium">Open requests that match your skills</h4>
+            {matches.map(({ request, match, reliability }) => (
+              <div key={request.id} className="flex items-center justify-between text-sm p-3 bg-muted/50 rounded-lg">
+                <div>
+                  <span className="font-medium">{request.service}</span>
+                  <span className="text-muted-foreground"> · {request.location} · {request.timeline}</span>
+                  <div className="text-xs text-muted-foreground">
+                    <CustomerReliabilityNote reliability={reliability} />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{match.matchScore}% match</Badge>
+                  <span>{formatMoney(match.flatPrice)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
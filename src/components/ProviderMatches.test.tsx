@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { resetLocalApp } from '../test/localApp'
+import { requestsRepository } from '../lib/db/repository'
+import ProviderMatches from './ProviderMatches'
+import type { ServiceRequest } from '../types'
+
+let app: ReturnType<typeof resetLocalApp>
+let request: ServiceRequest
+
+beforeEach(async () => {
+  app = resetLocalApp()
+  request = (await requestsRepository.get('req_fixture_cleaning'))!
+})
+
+const selectButtons = () => screen.getAllByRole('button', { name: /^Select / })
+
+describe('ProviderMatches', () => {
+  it('ranks the real provider profiles and explains the ranking', async () => {
+    const onProviderSelect = vi.fn()
+    render(<ProviderMatches request={request} onProviderSelect={onProviderSelect} onBack={() => {}} />)
+
+    await screen.findByText(/Providers Found$/)
+    expect(selectButtons()[0]).toHaveProperty('textContent', 'Select Maria Lopez')
+    await screen.findByText(/^Maria Lopez ranks first with a \d+% match/)
+    expect(app.backend.aiCalls[0].request.prompt).toContain('1. Maria Lopez')
+
+    await userEvent.click(selectButtons()[0])
+    expect(onProviderSelect).toHaveBeenCalledWith(expect.objectContaining({ id: 'prov_maria', matchScore: expect.any(Number) }))
+  })
+
+  it('keeps the matches when the explanation fails', async () => {
+    app.backend.script({ text: [() => { throw new Error('AI is unavailable') }] })
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    render(<ProviderMatches request={request} onProviderSelect={() => {}} onBack={() => {}} />)
+
+    await vi.waitFor(() => expect(logged).toHaveBeenCalledWith('Error explaining ranking:', expect.any(Error)))
+    expect(selectButtons()[0]).toHaveProperty('textContent', 'Select Maria Lopez')
+    expect(screen.queryByText(/ranks first/)).toBeNull()
+    logged.mockRestore()
+  })
+})
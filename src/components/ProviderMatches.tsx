@@ -1,133 +1,71 @@
-import React, { useState, useEffect } from 'react'
-import { createClient } from '@blinkdotnew/sdk'
+import { useState, useEffect } from 'react'
 import { Button } from './ui/button'
 import { Card, CardContent } from './ui/card'
 import { Badge } from './ui/badge'
-import { ArrowLeft, Star, MapPin, Clock, DollarSign, CheckCircle, Sparkles } from 'lucide-react'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { ArrowLeft, Star, MapPin, Clock, DollarSign, CheckCircle, Sparkles, SearchX, ChevronDown } from 'lucide-react'
+import { findMatchingProviders, explainRanking } from '../lib/matching'
+import { formatMoney } from '../lib/pricing'
+import { PRIOR_RATING } from '../lib/reviews/reputation'
+import type { MatchFactor, ProviderMatch, ServiceRequest } from '../types'
 
-const blink = createClient({
-  projectId: 'homi-ai-marketplace-wdt9rv34',
-  authRequired: true
-})
+interface ProviderMatchesProps {
+  request: ServiceRequest
+  onProviderSelect: (provider: ProviderMatch) => void
+  onBack: () => void
+}
 
-interface Provider {
-  id: string
-  name: string
-  bio: string
-  skills: string[]
-  hourly_rate: number
-  rating: number
-  completed_jobs: number
-  profile_image: string
-  location: string
-  availability: string
-  match_score: number
-  estimated_time: number
-  flat_price: number
+const FACTOR_DESCRIPTIONS: Record<MatchFactor, string> = {
+  skills: 'How closely their listed skills cover what you asked for',
+  price: 'Their hourly rate for the estimated hours compared to your budget',
+  distance: 'How close they are based to your service location',
+  availability: 'Whether their stated availability fits your timeline',
+  reputation: `Their review rating, with recent reviews counting most; providers with few or no reviews are pulled toward ${PRIOR_RATING}★`
 }
 
-export default function ProviderMatches({ request, onProviderSelect, onBack }) {
-  const [providers, setProviders] = useState<Provider[]>([])
+export default function ProviderMatches({ request, onProviderSelect, onBack }: ProviderMatchesProps) {
+  const [providers, setProviders] = useState<ProviderMatch[]>([])
   const [loading, setLoading] = useState(true)
-  const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null)
+  const [explanation, setExplanation] = useState('')
 
   useEffect(() => {
-    const generateProviders = async () => {
-      setLoading(true)
-      
-      try {
-        // Generate AI-powered provider profiles that match the user's budget
-        const { object } = await blink.ai.generateObject({
-          prompt: `Generate 4-5 realistic service provider profiles for this request:
-
-Service: ${request.service}
-Location: ${request.location}
-Budget: ${request.budget}
-Timeline: ${request.timeline}
-Estimated Hours: ${request.estimatedHours}
-
-IMPORTANT: Generate providers with hourly rates that make sense for the user's budget of ${request.budget}. 
-If budget is $100 and estimated time is 2 hours, create providers with rates around $40-60/hour.
-If budget is $50 and estimated time is 1 hour, create providers with rates around $45-55/hour.
-
-Create diverse, realistic profiles with:
-- Names that sound professional and diverse
-- Relevant skills for the service type
-- Hourly rates that align with the user's budget (not too high or low)
-- Realistic ratings (4.2-4.9)
-- Completed jobs (10-150)
-- Professional bios
-- Availability that works with the timeline
-- Match scores based on how well they fit
-
-Make each provider unique and compelling.`,
-          schema: {
-            type: 'object',
-            properties: {
-              providers: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    name: { type: 'string' },
-                    bio: { type: 'string' },
-                    skills: { type: 'array', items: { type: 'string' } },
-                    hourly_rate: { type: 'number' },
-                    rating: { type: 'number' },
-                    completed_jobs: { type: 'number' },
-                    profile_image: { type: 'string' },
-                    location: { type: 'string' },
-                    availability: { type: 'string' },
-                    match_score: { type: 'number' },
-                    estimated_time: { type: 'number' },
-                    flat_price: { type: 'number' }
-                  }
-                }
-              }
-            }
-          }
-        })
+    let cancelled = false
 
-        // Add realistic profile images
-        const providersWithImages = object.providers.map((provider, index) => ({
-          ...provider,
-          profile_image: `https://images.unsplash.com/photo-${1500000000000 + index}?w=150&h=150&fit=crop&crop=face`
-        }))
+    const loadMatches = async () => {
+      setLoading(true)
+      setExplanation('')
 
-        setProviders(providersWithImages)
+      let matches: ProviderMatch[]
+      try {
+        // Rank real provider profiles; the requesting user never matches themselves
+        matches = await findMatchingProviders(request, { excludeUserId: request.userId })
+        if (cancelled) return
+        setProviders(matches)
       } catch (error) {
-        console.error('Error generating providers:', error)
-        // Fallback to mock data
-        setProviders([
-          {
-            id: 'prov_1',
-            name: 'Sarah Chen',
-            bio: 'Professional photographer with 8+ years experience in portraits and events.',
-            skills: ['Portrait Photography', 'Event Photography', 'Photo Editing'],
-            hourly_rate: 75,
-            rating: 4.8,
-            completed_jobs: 127,
-            profile_image: 'https://images.unsplash.com/photo-1494790108755-2616b612b47c?w=150&h=150&fit=crop&crop=face',
-            location: 'Manhattan, NY',
-            availability: 'Available this weekend',
-            match_score: 95,
-            estimated_time: request.estimatedHours || 2,
-            flat_price: request.flatPrice || 150
-          }
-        ])
+        console.error('Error matching providers:', error)
+        if (!cancelled) setProviders([])
+        return
       } finally {
-        setLoading(false)
+        if (!cancelled) setLoading(false)
+      }
+
+      // The summary is optional; failing to write it keeps the ranked matches
+      if (matches.length === 0) return
+      try {
+        const text = await explainRanking(request, matches)
+        if (!cancelled) setExplanation(text)
+      } catch (error) {
+        console.error('Error explaining ranking:', error)
       }
     }
 
-    generateProviders()
+    loadMatches()
+    return () => {
+      cancelled = true
+    }
   }, [request])
 
-
-
-  const handleProviderSelect = (provider: Provider) => {
-    setSelectedProvider(provider)
+  const handleProviderSelect = (provider: ProviderMatch) => {
     onProviderSelect(provider)
   }
 
@@ -145,7 +83,7 @@ Make each provider unique and compelling.`,
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50">
       {/* Header */}
-      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-50">
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-16 z-40">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center space-x-4">
@@ -182,12 +120,23 @@ Make each provider unique and compelling.`,
               </p>
             </div>
             <div className="text-right">
-              <div className="text-2xl font-bold text-green-600">${request.flatPrice}</div>
-              <div className="text-sm text-gray-500">Flat rate</div>
+              <div className="text-2xl font-bold text-green-600">{formatMoney(request.flatPrice)}</div>
+              <div className="text-sm text-gray-500">Typical local price</div>
             </div>
           </div>
         </div>
 
+        {providers.length === 0 && (
+          <div className="bg-white/60 backdrop-blur-sm rounded-2xl border border-gray-200/50 p-12 text-center">
+            <SearchX className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No providers match this request yet</h3>
+            <p className="text-gray-600 max-w-md mx-auto">
+              We couldn't find a provider offering {request.service} right now. Try adjusting your request,
+              or check back soon as new providers join every day.
+            </p>
+          </div>
+        )}
+
         {/* Provider Cards */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {providers.map((provider) => (
@@ -196,11 +145,17 @@ Make each provider unique and compelling.`,
                 <div className="flex items-start space-x-4">
                   {/* Profile Image */}
                   <div className="relative">
-                    <img
-                      src={provider.profile_image}
-                      alt={provider.name}
-                      className="w-16 h-16 rounded-full object-cover"
-                    />
+                    {provider.profileImage ? (
+                      <img
+                        src={provider.profileImage}
+                        alt={provider.name}
+                        className="w-16 h-16 rounded-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-16 h-16 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center text-white text-lg font-semibold">
+                        {provider.name.split(' ').map((n) => n[0]).join('').slice(0, 2)}
+                      </div>
+                    )}
                     <div className="absolute -top-1 -right-1 bg-green-500 w-4 h-4 rounded-full border-2 border-white"></div>
                   </div>
 
@@ -212,7 +167,7 @@ Make each provider unique and compelling.`,
                         variant="secondary" 
                         className="bg-gradient-to-r from-green-100 to-emerald-100 text-green-700 border-green-200"
                       >
-                        {provider.match_score}% match
+                        {provider.matchScore}% match
                       </Badge>
                     </div>
 
@@ -231,8 +186,8 @@ Make each provider unique and compelling.`,
                     <div className="grid grid-cols-2 gap-4 mb-4">
                       <div className="flex items-center space-x-2">
                         <Star className="w-4 h-4 text-yellow-500 fill-current" />
-                        <span className="text-sm font-medium">{provider.rating}</span>
-                        <span className="text-sm text-gray-500">({provider.completed_jobs} jobs)</span>
+                        <span className="text-sm font-medium">{provider.reviewCount > 0 ? provider.rating : 'New'}</span>
+                        <span className="text-sm text-gray-500">({provider.reviewCount} reviews · {provider.completedJobs} jobs)</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <MapPin className="w-4 h-4 text-gray-400" />
@@ -240,7 +195,7 @@ Make each provider unique and compelling.`,
                       </div>
                       <div className="flex items-center space-x-2">
                         <DollarSign className="w-4 h-4 text-gray-400" />
-                        <span className="text-sm text-gray-600">${provider.hourly_rate}/hr</span>
+                        <span className="text-sm text-gray-600">${provider.hourlyRate}/hr</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Clock className="w-4 h-4 text-gray-400" />
@@ -252,16 +207,41 @@ Make each provider unique and compelling.`,
                     <div className="bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl p-4 mb-4">
                       <div className="flex items-center justify-between">
                         <div>
-                          <div className="text-sm text-gray-600">Estimated {provider.estimated_time} hours</div>
-                          <div className="text-xs text-gray-500">Based on ${provider.hourly_rate}/hr rate</div>
+                          <div className="text-sm text-gray-600">Estimated {provider.estimatedHours} hours</div>
+                          <div className="text-xs text-gray-500">Based on ${provider.hourlyRate}/hr rate, incl. materials, fees and tax</div>
                         </div>
                         <div className="text-right">
-                          <div className="text-2xl font-bold text-indigo-600">${provider.flat_price}</div>
+                          <div className="text-2xl font-bold text-indigo-600">{formatMoney(provider.flatPrice)}</div>
                           <div className="text-xs text-gray-500">Flat rate</div>
                         </div>
                       </div>
                     </div>
 
+                    {/* Match Breakdown */}
+                    <Collapsible className="mb-4">
+                      <CollapsibleTrigger className="group flex w-full items-center justify-between text-sm font-medium text-gray-700 hover:text-gray-900">
+                        Why {provider.matchScore}% match?
+                        <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="mt-3 space-y-2">
+                        {provider.matchBreakdown.map((item) => (
+                          <div key={item.factor}>
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="text-gray-700">{item.label}</span>
+                              <span className="font-medium text-gray-900">{item.points}/{item.maxPoints}</span>
+                            </div>
+                            <div className="h-1.5 w-full rounded-full bg-gray-200 overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-indigo-500 to-purple-600"
+                                style={{ width: `${(item.points / item.maxPoints) * 100}%` }}
+                              />
+                            </div>
+                            <div className="text-xs text-gray-500 mt-0.5">{item.detail}</div>
+                          </div>
+                        ))}
+                      </CollapsibleContent>
+                    </Collapsible>
+
                     {/* Action Button */}
                     <Button
                       onClick={() => handleProviderSelect(provider)}
@@ -278,26 +258,25 @@ Make each provider unique and compelling.`,
         </div>
 
         {/* Why These Providers */}
-        <div className="mt-8 bg-white/40 backdrop-blur-sm rounded-2xl border border-gray-200/50 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <Sparkles className="w-5 h-5 text-indigo-600 mr-2" />
-            Why These Providers?
-          </h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-600">
-            <div>
-              <div className="font-medium text-gray-900 mb-1">Budget Match</div>
-              <div>All providers have hourly rates that fit your ${request.budget} budget</div>
-            </div>
-            <div>
-              <div className="font-medium text-gray-900 mb-1">Skill Alignment</div>
-              <div>Specialized in {request.service} with proven track records</div>
-            </div>
-            <div>
-              <div className="font-medium text-gray-900 mb-1">Availability</div>
-              <div>Available for your {request.timeline} timeline</div>
+        {providers.length > 0 && (
+          <div className="mt-8 bg-white/40 backdrop-blur-sm rounded-2xl border border-gray-200/50 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Sparkles className="w-5 h-5 text-indigo-600 mr-2" />
+              Why These Providers?
+            </h3>
+            {explanation && (
+              <p className="text-sm text-gray-700 mb-4">{explanation}</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-600">
+              {providers[0].matchBreakdown.map((item) => (
+                <div key={item.factor}>
+                  <div className="font-medium text-gray-900 mb-1">{item.label} · up to {item.maxPoints} pts</div>
+                  <div>{FACTOR_DESCRIPTIONS[item.factor]}</div>
+                </div>
+              ))}
             </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   )
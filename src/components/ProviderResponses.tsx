@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Bell, Check, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { respondToProposal } from '../lib/bookings/lifecycle'
+import { SlotTakenError } from '../lib/bookings/holds'
+import { listNotifications, markAllNotificationsRead } from '../lib/notifications/notify'
+import { formatMoney } from '../lib/pricing'
+import { formatDateTime } from '../lib/timezones'
+import type { Booking, NotificationKind, UserNotification } from '../types'
+
+type ResponseBooking = Booking & { providerName?: string; taskType?: string }
+
+interface ProviderResponsesProps {
+  userId: string
+  bookings: ResponseBooking[]
+  onBookingChange: (booking: Booking) => void
+}
+
+// Notifications about a provider's answer, shown here until read
+const responseKinds: NotificationKind[] = ['booking_confirmed', 'booking_declined']
+
+// The provider's latest answer to a booking request, if it is one
+const latestResponse = (booking: Booking) => {
+  const event = booking.history[booking.history.length - 1]
+  return event?.role === 'provider' && ['accepted', 'scheduled', 'declined'].includes(event.to) ? event : null
+}
+
+// Providers' answers to the customer's booking requests: counter-proposals
+// to accept or refuse, and accept/decline notices until their notification
+// is read, here or from the bell
+export function ProviderResponses({ userId, bookings, onBookingChange }: ProviderResponsesProps) {
+  const [unread, setUnread] = useState<UserNotification[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    listNotifications(userId)
+      .then(notifications => setUnread(notifications.filter(item => !item.readAt && responseKinds.includes(item.kind))))
+      .catch(error => console.error('Error loading notifications:', error))
+  }, [userId])
+
+  const proposals = bookings.filter(booking => booking.status === 'accepted' && booking.proposal)
+  const notices = bookings.flatMap(booking => {
+    const event = latestResponse(booking)
+    return event && !booking.proposal && unread.some(item => item.bookingId === booking.id) ? [{ booking, event }] : []
+  })
+
+  if (proposals.length === 0 && notices.length === 0) return null
+
+  const dismiss = async (booking: Booking) => {
+    setUnread(current => current.filter(item => item.bookingId !== booking.id))
+    try {
+      await markAllNotificationsRead(unread.filter(item => item.bookingId === booking.id))
+    } catch (error) {
+      console.error('Error dismissing notification:', error)
+    }
+  }
+
+  const respond = async (booking: ResponseBooking, agree: boolean) => {
+    setBusyId(booking.id)
+    try {
+      onBookingChange(await respondToProposal(booking, { role: 'customer', id: userId }, agree))
+    } catch (error) {
+      console.error('Error answering proposal:', error)
+      toast.error(error instanceof SlotTakenError
+        ? 'The new time clashes with another booking. Ask your provider for a different time.'
+        : 'Could not update this booking. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Card className="border-primary/30">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-primary" />
+          Updates from Providers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {proposals.map(booking => {
+          const proposal = booking.proposal!
+          return (
+            <div key={booking.id} className="p-4 border rounded-lg space-y-2">
+              <p className="font-medium">
+                {booking.providerName ?? 'Your provider'} accepted your {booking.taskType ?? 'booking'} with changes
+              </p>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {proposal.scheduledTime && (
+                  <li>
+                    New time: {formatDateTime(proposal.scheduledTime, booking.timeZone)}
+                    <span className="line-through ml-2">{formatDateTime(booking.scheduledTime, booking.timeZone)}</span>
+                  </li>
+                )}
+                {proposal.price !== undefined && (
+                  <li>
+                    New price: {formatMoney(proposal.price)}
+                    <span className="line-through ml-2">{formatMoney(booking.finalPrice)}</span>
+                  </li>
+                )}
+                {proposal.note && <li>"{proposal.note}"</li>}
+              </ul>
+              <div className="flex gap-2">
+                <Button size="sm" disabled={busyId === booking.id} onClick={() => respond(booking, true)}>
+                  <Check className="w-4 h-4 mr-2" />
+                  Accept Changes
+                </Button>
+                <Button size="sm" variant="outline" disabled={busyId === booking.id} onClick={() => respond(booking, false)}>
+                  <X className="w-4 h-4 mr-2" />
+                  Decline & Cancel
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+
+        {notices.map(({ booking, event }) => (
+          <div key={booking.id} className="flex items-start justify-between p-3 bg-muted/50 rounded-lg">
+            <div className="text-sm">
+              <Link to={`/bookings/${booking.id}`} className="font-medium hover:underline">
+                {booking.providerName ?? 'Your provider'} {event.to === 'declined' ? 'declined' : 'accepted'} your {booking.taskType ?? 'booking'}
+              </Link>
+              {event.to === 'declined' && (
+                <p className="text-muted-foreground">
+                  {event.note ? `"${event.note}" ` : ''}Your card hold was released. You can pick another provider from your request.
+                </p>
+              )}
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => dismiss(booking)}>
+              Dismiss
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
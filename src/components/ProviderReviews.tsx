@@ -0,0 +1,34 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { ReviewCard } from './ReviewCard'
+import type { Provider, Review } from '../types'
+
+interface ProviderReviewsProps {
+  open: boolean
+  provider: Provider
+  reviews: Review[]
+  onOpenChange: (open: boolean) => void
+  onReply: (review: Review, reply: string) => Promise<void>
+}
+
+// The provider's reviews, newest first, with a public reply under each
+export function ProviderReviews({ open, provider, reviews, onOpenChange, onReply }: ProviderReviewsProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Your Reviews</DialogTitle>
+          <DialogDescription>
+            {provider.reviewCount > 0
+              ? `${provider.rating} average from ${provider.reviewCount} review${provider.reviewCount === 1 ? '' : 's'}. Recent reviews count the most.`
+              : 'Customers can review you once a job is completed.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {reviews.map(review => (
+            <ReviewCard key={review.id} review={review} onReply={onReply} />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
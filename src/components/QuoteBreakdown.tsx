@@ -0,0 +1,44 @@
+import { Separator } from './ui/separator'
+import { formatMoney } from '../lib/pricing'
+import type { Quote } from '../types'
+
+interface QuoteBreakdownProps {
+  quote: Quote
+  // Show the provider's commission and payout under the customer total
+  showPayout?: boolean
+  className?: string
+}
+
+// The one rendering of a quote's line items, shared by every screen that shows a price
+export function QuoteBreakdown({ quote, showPayout = false, className = '' }: QuoteBreakdownProps) {
+  return (
+    <div className={`space-y-1 text-sm ${className}`}>
+      {quote.lines.map(line => (
+        <div key={line.kind} className="flex justify-between text-gray-600">
+          <span>
+            {line.label}
+            {line.detail && <span className="text-gray-400"> ({line.detail})</span>}
+          </span>
+          <span className={line.amount < 0 ? 'text-green-600' : ''}>{formatMoney(line.amount)}</span>
+        </div>
+      ))}
+      <Separator className="my-2" />
+      <div className="flex justify-between font-semibold text-gray-900">
+        <span>Total</span>
+        <span>{formatMoney(quote.total)}</span>
+      </div>
+      {showPayout && (
+        <>
+          <div className="flex justify-between text-gray-600 pt-2">
+            <span>Platform commission</span>
+            <span>{formatMoney(-quote.commission)}</span>
+          </div>
+          <div className="flex justify-between font-semibold text-gray-900">
+            <span>Your payout</span>
+            <span>{formatMoney(quote.providerPayout)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
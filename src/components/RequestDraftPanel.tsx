@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Progress } from './ui/progress'
+import { Check, Clock, DollarSign, MapPin, Pencil, Sparkles } from 'lucide-react'
+import { DRAFT_FIELDS, draftFieldSchemas, missingFields } from '../lib/intake'
+import type { DraftField, RequestDraft } from '../types'
+
+interface RequestDraftPanelProps {
+  draft: RequestDraft
+  // Fields the user has edited by hand
+  pinned: DraftField[]
+  onFieldChange: (field: DraftField, value: string | number) => void
+  disabled?: boolean
+}
+
+const fieldMeta: Record<DraftField, { label: string; icon: typeof Sparkles; placeholder: string }> = {
+  service: { label: 'Service', icon: Sparkles, placeholder: 'e.g. Deep cleaning' },
+  location: { label: 'Location', icon: MapPin, placeholder: 'e.g. Brooklyn, NY' },
+  budget: { label: 'Budget', icon: DollarSign, placeholder: 'e.g. 150' },
+  timeline: { label: 'Timeline', icon: Clock, placeholder: 'e.g. This weekend' }
+}
+
+const displayValue = (field: DraftField, value: RequestDraft[DraftField]) =>
+  field === 'budget' && value !== null ? `$${value}` : String(value ?? '')
+
+function DraftFieldRow({
+  field,
+  value,
+  missing,
+  edited,
+  disabled,
+  onSave
+}: {
+  field: DraftField
+  value: RequestDraft[DraftField]
+  missing: boolean
+  edited: boolean
+  disabled?: boolean
+  onSave: (value: string | number) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [input, setInput] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const { label, icon: Icon, placeholder } = fieldMeta[field]
+
+  const startEditing = () => {
+    setInput(value === null ? '' : String(value))
+    setError(null)
+    setEditing(true)
+  }
+
+  const save = () => {
+    const result = draftFieldSchemas[field].safeParse(field === 'budget' ? input.replace(/[$,\s]/g, '') : input)
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Invalid value')
+      return
+    }
+    onSave(result.data)
+    setEditing(false)
+  }
+
+  return (
+    <div className="py-3 border-b border-gray-100 last:border-0">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center space-x-2">
+          <Icon className="w-4 h-4 text-indigo-600" />
+          <span className="text-sm font-medium text-gray-700">{label}</span>
+          {edited && <span className="text-xs text-gray-400">edited</span>}
+        </div>
+        {missing ? (
+          <Badge variant="outline" className="text-xs text-amber-700 border-amber-300 bg-amber-50">Missing</Badge>
+        ) : (
+          <Check className="w-4 h-4 text-green-600" />
+        )}
+      </div>
+
+      {editing ? (
+        <div className="ml-6 space-y-1">
+          <Input
+            autoFocus
+            value={input}
+            placeholder={placeholder}
+            inputMode={field === 'budget' ? 'decimal' : undefined}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') save()
+              if (e.key === 'Escape') setEditing(false)
+            }}
+            onBlur={save}
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={startEditing}
+          disabled={disabled}
+          className="ml-6 group flex items-center space-x-2 text-left disabled:cursor-not-allowed"
+        >
+          <span className={missing ? 'text-sm text-gray-400 italic' : 'text-gray-900'}>
+            {missing ? 'Not provided yet' : displayValue(field, value)}
+          </span>
+          <Pencil className="w-3 h-3 text-gray-400 opacity-0 group-hover:opacity-100" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+// Live view of what the intake chat has captured so far. Any field can be
+// edited inline; edited fields are kept as-is by later AI turns.
+export function RequestDraftPanel({ draft, pinned, onFieldChange, disabled }: RequestDraftPanelProps) {
+  const missing = missingFields(draft)
+  const captured = DRAFT_FIELDS.length - missing.length
+
+  return (
+    <Card className="bg-white/60 backdrop-blur-sm border-gray-200/50 shadow-xl">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Your Request</CardTitle>
+        <div className="flex items-center space-x-3 pt-1">
+          <Progress value={(captured / DRAFT_FIELDS.length) * 100} className="h-2" />
+          <span className="text-xs text-gray-500 whitespace-nowrap">{captured}/{DRAFT_FIELDS.length}</span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {DRAFT_FIELDS.map(field => (
+          <DraftFieldRow
+            key={field}
+            field={field}
+            value={draft[field]}
+            missing={missing.includes(field)}
+            edited={pinned.includes(field)}
+            disabled={disabled}
+            onSave={(value) => onFieldChange(field, value)}
+          />
+        ))}
+        {draft.description && (
+          <p className="text-sm text-gray-600 pt-3">{draft.description}</p>
+        )}
+        {missing.length > 0 && (
+          <p className="text-xs text-gray-500 text-center pt-3">
+            Tell the assistant or tap a field to fill it in
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { resetLocalApp } from '../test/localApp'
+import RequestFlow from './RequestFlow'
+
+// Every assistant turn waits 1.5s before replying
+const TURN = { timeout: 3000 }
+
+let app: ReturnType<typeof resetLocalApp>
+
+beforeEach(() => {
+  app = resetLocalApp()
+})
+
+const renderFlow = () => {
+  const onRequestComplete = vi.fn()
+  render(<RequestFlow user={app.user} onRequestComplete={onRequestComplete} onBack={() => {}} />)
+  return { onRequestComplete }
+}
+
+const say = async (text: string) =>
+  userEvent.type(screen.getByPlaceholderText('Describe what you need help with...'), `${text}{Enter}`)
+
+describe('RequestFlow', () => {
+  it('asks for what is missing until it can summarize the request', async () => {
+    renderFlow()
+
+    await say('I need my apartment deep cleaned next week, budget $200')
+    await screen.findByText('Where is the job?', {}, TURN)
+    await say('San Francisco, CA')
+
+    await screen.findByText('Request Summary', {}, TURN)
+    expect(app.backend.aiCalls.map(call => call.kind)).toEqual(['object', 'object'])
+  })
+
+  it('saves the request for matching once confirmed', async () => {
+    const { onRequestComplete } = renderFlow()
+
+    await say('Leaky faucet in Oakland, CA, budget $150, as soon as possible')
+    await userEvent.click(await screen.findByRole('button', { name: /Find Providers/ }, TURN))
+
+    expect(onRequestComplete).toHaveBeenCalledOnce()
+    const [request] = onRequestComplete.mock.calls[0]
+    expect(request).toMatchObject({ status: 'pending', location: 'Oakland, CA', budget: 150 })
+    expect(app.backend.dump('requests').find(row => row.id === request.id)?.status).toBe('pending')
+  })
+
+  it('asks the model to repair a reply that does not validate', async () => {
+    app.backend.script({ object: [{ message: 42 }] })
+    renderFlow()
+
+    await say('Leaky faucet in Oakland, CA, budget $150, as soon as possible')
+
+    await screen.findByText('Request Summary', {}, TURN)
+    const [first, repair] = app.backend.aiCalls.map(call => call.request.prompt ?? '')
+    expect(repair).not.toBe(first)
+    expect(repair.startsWith(first)).toBe(true)
+  })
+
+  it('apologizes when the model never returns a usable reply', async () => {
+    app.backend.script({ object: [{}, {}, {}] })
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    renderFlow()
+
+    await say('Leaky faucet in Oakland, CA, budget $150, as soon as possible')
+
+    await screen.findByText(/having trouble processing that/, {}, TURN)
+    expect(app.backend.aiCalls).toHaveLength(3)
+    expect(logged).toHaveBeenCalledWith('AI Error:', expect.any(Error))
+    logged.mockRestore()
+  })
+})
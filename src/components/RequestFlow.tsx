@@ -1,30 +1,29 @@
-import React, { useState, useRef, useEffect } from 'react'
-import { createClient } from '@blinkdotnew/sdk'
+import { useState, useRef, useEffect } from 'react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
 import { Button } from './ui/button'
 import { Card, CardContent } from './ui/card'
 import { ArrowLeft, Send, Sparkles, MapPin, DollarSign, Clock, CheckCircle, Edit3 } from 'lucide-react'
-
-const blink = createClient({
-  projectId: 'homi-ai-marketplace-wdt9rv34',
-  authRequired: true
-})
-
-interface Message {
-  id: string
-  type: 'user' | 'ai'
-  content: string
-  timestamp: Date
-  suggestions?: string[]
-}
-
-interface RequestSummary {
-  service: string
-  description: string
-  location: string
-  budget: number
-  timeline: string
-  estimatedHours: number
-  flatPrice: number
+import { requestsRepository } from '../lib/db/repository'
+import { emptyDraft, missingFields, nextIntakeReply } from '../lib/intake'
+import { formatMoney, quotePrice } from '../lib/pricing'
+import { notifyRequestPublished } from '../lib/notifications/events'
+import { RequestDraftPanel } from './RequestDraftPanel'
+import { QuoteBreakdown } from './QuoteBreakdown'
+import type {
+  ConversationMessage,
+  DraftField,
+  RequestDraft,
+  RequestStatus,
+  RequestSummary,
+  ServiceRequest
+} from '../types'
+
+interface RequestFlowProps {
+  user: BlinkUser
+  // A saved draft to pick up where it left off
+  savedDraft?: ServiceRequest
+  onRequestComplete: (request: ServiceRequest) => void
+  onBack: () => void
 }
 
 const quickStarters = [
@@ -36,22 +35,31 @@ const quickStarters = [
   { icon: "🎨", text: "Graphic design work", category: "design" }
 ]
 
-export default function RequestFlow({ user, onRequestComplete, onBack }) {
-  const [messages, setMessages] = useState<Message[]>([
+export default function RequestFlow({ user, savedDraft, onRequestComplete, onBack }: RequestFlowProps) {
+  const saved = savedDraft?.conversation
+  const [requestId] = useState(() => savedDraft?.id ?? `req_${Date.now()}`)
+  const [createdAt] = useState(() => savedDraft?.createdAt ?? new Date().toISOString())
+  const [messages, setMessages] = useState<ConversationMessage[]>(() => saved?.messages ?? [
     {
       id: '1',
       type: 'ai',
       content: "Hi! I'm here to help you find the perfect service provider. What do you need help with today?",
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
       suggestions: []
     }
   ])
   const [inputValue, setInputValue] = useState('')
   const [isThinking, setIsThinking] = useState(false)
-  const [requestSummary, setRequestSummary] = useState<RequestSummary | null>(null)
-  const [showConfirmation, setShowConfirmation] = useState(false)
+  const [requestSummary, setRequestSummary] = useState<RequestSummary | null>(saved?.summary ?? null)
+  const [draft, setDraft] = useState<RequestDraft>(saved?.draft ?? emptyDraft)
+  const [pinned, setPinned] = useState<DraftField[]>(saved?.pinned ?? [])
+  const [showConfirmation, setShowConfirmation] = useState(Boolean(saved?.summary))
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  // Writes are chained so a draft save can never land after the final submit
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve())
+  const submitted = useRef(false)
+  const resumed = useRef(false)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -61,99 +69,95 @@ export default function RequestFlow({ user, onRequestComplete, onBack }) {
     scrollToBottom()
   }, [messages, isThinking])
 
+  const buildRequest = (status: RequestStatus): ServiceRequest => {
+    const service = requestSummary?.service ?? draft.service ?? ''
+    return {
+      id: requestId,
+      userId: user.id,
+      service,
+      description: requestSummary?.description ?? draft.description ?? '',
+      inputText: messages.filter(m => m.type === 'user').map(m => m.content).join(' '),
+      skills: service ? [service] : [],
+      location: requestSummary?.location ?? draft.location ?? '',
+      budget: requestSummary?.budget ?? draft.budget ?? 0,
+      timeline: requestSummary?.timeline ?? draft.timeline ?? '',
+      complexity: requestSummary?.complexity ?? 'standard',
+      estimatedHours: requestSummary?.estimatedHours ?? 0,
+      flatPrice: requestSummary?.flatPrice ?? 0,
+      status,
+      createdAt,
+      conversation: { messages, draft, pinned, summary: requestSummary }
+    }
+  }
+
+  const persist = (request: ServiceRequest) => {
+    const write = saveQueue.current.then(() => requestsRepository.save(request))
+    saveQueue.current = write.catch(() => undefined)
+    return write
+  }
+
+  // Keep the conversation saved as a draft so it survives closing the tab
+  useEffect(() => {
+    if (submitted.current || !messages.some(m => m.type === 'user')) return
+    persist(buildRequest('draft')).catch((error) => console.error('Error saving draft:', error))
+  }, [messages, draft, pinned, requestSummary]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A draft closed while the assistant was replying still needs that reply
+  useEffect(() => {
+    if (resumed.current) return
+    resumed.current = true
+    if (saved && saved.messages[saved.messages.length - 1]?.type === 'user' && !saved.summary) {
+      generateAIResponse(null)
+    }
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
   const addMessage = (content: string, type: 'user' | 'ai', suggestions: string[] = []) => {
-    const newMessage: Message = {
+    const newMessage: ConversationMessage = {
       id: Date.now().toString(),
       type,
       content,
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
       suggestions
     }
     setMessages(prev => [...prev, newMessage])
   }
 
-  const generateAIResponse = async (userMessage: string) => {
+  // userMessage is null when the turn is triggered by an inline draft edit
+  const generateAIResponse = async (userMessage: string | null, currentDraft = draft, currentPinned = pinned) => {
     setIsThinking(true)
     
     try {
       // Simulate AI processing with realistic delay
       await new Promise(resolve => setTimeout(resolve, 1500))
       
-      const conversationContext = messages.map(m => `${m.type}: ${m.content}`).join('\n')
-      
-      const { text } = await blink.ai.generateText({
-        prompt: `You are Homi's AI assistant helping users scope local service requests. 
-
-Current conversation:
-${conversationContext}
-User: ${userMessage}
-
-Your role:
-1. Ask ONE focused question to gather missing information
-2. Be conversational and helpful
-3. Focus on: service type, location, budget, timeline
-4. When you have enough info, provide a summary and ask for confirmation
-
-If the user has provided enough details (service, location, budget, timeline), respond with "READY_FOR_SUMMARY" followed by a JSON object with:
-{
-  "service": "service type",
-  "description": "detailed description", 
-  "location": "location",
-  "budget": number,
-  "timeline": "when needed",
-  "estimatedHours": number,
-  "flatPrice": number
-}
-
-Otherwise, ask for the most important missing information with 2-3 helpful suggestions.`,
-        maxTokens: 200
-      })
-
-      if (text.includes('READY_FOR_SUMMARY')) {
-        const jsonMatch = text.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          try {
-            const summary = JSON.parse(jsonMatch[0])
-            setRequestSummary(summary)
-            setShowConfirmation(true)
-            addMessage(
-              `Perfect! I've gathered all the details for your ${summary.service} request. Here's what I understand:
+      const turns = messages.map(m => ({ role: m.type, content: m.content }))
+      if (userMessage) turns.push({ role: 'user', content: userMessage })
+      const reply = await nextIntakeReply(turns, currentDraft, currentPinned)
+      setDraft(reply.draft)
+
+      if (reply.summary) {
+        const summary = reply.summary
+        setRequestSummary(summary)
+        setShowConfirmation(true)
+        addMessage(
+          `Perfect! I've gathered all the details for your ${summary.service} request. Here's what I understand:
 
 **Service:** ${summary.service}
 **Description:** ${summary.description}
 **Location:** ${summary.location}
 **Budget:** $${summary.budget}
 **Timeline:** ${summary.timeline}
+**Complexity:** ${summary.complexity}
 **Estimated Time:** ${summary.estimatedHours} hours
-**Flat Price:** $${summary.flatPrice}
+**Flat Price:** ${formatMoney(summary.flatPrice)}
 
 Does this look correct? I can find providers who match your budget and requirements.`,
-              'ai'
-            )
-            return
-          } catch (e) {
-            console.error('Failed to parse summary:', e)
-          }
-        }
+          'ai'
+        )
+        return
       }
 
-      // Generate contextual suggestions
-      let suggestions: string[] = []
-      const lowerText = text.toLowerCase()
-      
-      if (lowerText.includes('location') || lowerText.includes('where')) {
-        suggestions = ['Manhattan, NY', 'Brooklyn, NY', 'Queens, NY']
-      } else if (lowerText.includes('budget') || lowerText.includes('cost')) {
-        suggestions = ['$50-100', '$100-200', '$200-500']
-      } else if (lowerText.includes('when') || lowerText.includes('timeline')) {
-        suggestions = ['This weekend', 'Next week', 'ASAP']
-      } else if (lowerText.includes('photography')) {
-        suggestions = ['Portrait session', 'Event photography', 'Product photos']
-      } else if (lowerText.includes('cleaning')) {
-        suggestions = ['Deep cleaning', 'Regular maintenance', 'Move-out cleaning']
-      }
-
-      addMessage(text, 'ai', suggestions)
+      addMessage(reply.message, 'ai', reply.suggestions)
     } catch (error) {
       console.error('AI Error:', error)
       addMessage("I'm having trouble processing that. Could you try rephrasing your request?", 'ai')
@@ -172,6 +176,23 @@ Does this look correct? I can find providers who match your budget and requireme
     await generateAIResponse(messageToSend)
   }
 
+  const handleFieldChange = (field: DraftField, value: string | number) => {
+    const nextDraft = { ...draft, [field]: value }
+    const nextPinned = pinned.includes(field) ? pinned : [...pinned, field]
+    setDraft(nextDraft)
+    setPinned(nextPinned)
+
+    if (requestSummary) {
+      // Service, location and timeline all feed the price
+      const next = { ...requestSummary, [field]: value }
+      const quote = quotePrice(next)
+      setRequestSummary({ ...next, estimatedHours: quote.estimatedHours, flatPrice: quote.total })
+    } else if (missingFields(nextDraft).length === 0 && !isThinking) {
+      // The last missing detail was typed into the panel; move on to the summary
+      generateAIResponse(null, nextDraft, nextPinned)
+    }
+  }
+
   const handleQuickStart = (starter: any) => {
     handleSend(starter.text)
   }
@@ -183,32 +204,16 @@ Does this look correct? I can find providers who match your budget and requireme
   const handleConfirmRequest = async () => {
     if (!requestSummary) return
 
+    submitted.current = true
     try {
-      // Save request to database
-      const requestId = `req_${Date.now()}`
-      await blink.db.requests.create({
-        id: requestId,
-        user_id: user.id,
-        input_text: messages.filter(m => m.type === 'user').map(m => m.content).join(' '),
-        parsed_task_type: requestSummary.service,
-        skills_needed: requestSummary.service,
-        location: requestSummary.location,
-        timeline: requestSummary.timeline,
-        budget: requestSummary.budget,
-        estimated_hours: requestSummary.estimatedHours,
-        flat_price: requestSummary.flatPrice,
-        confirmed: true,
-        status: 'pending',
-        created_at: new Date().toISOString()
-      })
-
-      onRequestComplete({
-        id: requestId,
-        ...requestSummary,
-        user_id: user.id,
-        status: 'pending'
-      })
+      // Promote the draft to a submitted request
+      const request = buildRequest('pending')
+      await persist(request)
+      await notifyRequestPublished(request)
+
+      onRequestComplete(request)
     } catch (error) {
+      submitted.current = false
       console.error('Error saving request:', error)
     }
   }
@@ -216,18 +221,14 @@ Does this look correct? I can find providers who match your budget and requireme
   const handleEditRequest = () => {
     setShowConfirmation(false)
     setRequestSummary(null)
-    addMessage("What would you like to change about your request?", 'ai', [
-      'Change location',
-      'Adjust budget', 
-      'Different timeline'
-    ])
+    addMessage("What would you like to change? You can edit any detail in the request panel, or just tell me.", 'ai')
   }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50">
       {/* Header */}
-      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-50">
-        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-16 z-40">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center space-x-4">
               <Button
@@ -251,8 +252,8 @@ Does this look correct? I can find providers who match your budget and requireme
       </header>
 
       {/* Chat Container */}
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="bg-white/60 backdrop-blur-sm rounded-3xl border border-gray-200/50 shadow-xl overflow-hidden">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        <div className="lg:col-span-2 bg-white/60 backdrop-blur-sm rounded-3xl border border-gray-200/50 shadow-xl overflow-hidden">
           
           {/* Messages */}
           <div className="h-[600px] overflow-y-auto p-6 space-y-6">
@@ -379,12 +380,14 @@ Does this look correct? I can find providers who match your budget and requireme
                     </div>
 
                     <div className="bg-white/60 rounded-xl p-4 mb-6">
-                      <h4 className="font-medium text-gray-900 mb-2">AI-Generated Pricing</h4>
-                      <div className="flex items-center justify-between">
-                        <span className="text-gray-600">Estimated {requestSummary.estimatedHours} hours</span>
-                        <span className="text-2xl font-bold text-green-600">${requestSummary.flatPrice}</span>
-                      </div>
-                      <p className="text-sm text-gray-500 mt-1">Flat rate based on provider hourly rates in your budget</p>
+                      <h4 className="font-medium text-gray-900 mb-2">Estimated Price</h4>
+                      <p className="text-gray-600">
+                        Estimated {requestSummary.estimatedHours} hours · {requestSummary.complexity} job
+                      </p>
+                      <QuoteBreakdown quote={quotePrice(requestSummary)} className="mt-3" />
+                      <p className="text-sm text-gray-500 mt-2">
+                        Typical local rates; each provider's exact flat price is shown with your matches
+                      </p>
                     </div>
 
                     <div className="flex space-x-3">
@@ -437,6 +440,16 @@ Does this look correct? I can find providers who match your budget and requireme
             </div>
           )}
         </div>
+
+        {/* Request Draft */}
+        <div className="lg:sticky lg:top-24">
+          <RequestDraftPanel
+            draft={draft}
+            pinned={pinned}
+            onFieldChange={handleFieldChange}
+            disabled={isThinking}
+          />
+        </div>
       </div>
     </div>
   )
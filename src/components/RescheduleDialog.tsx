@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Calendar } from './ui/calendar'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { bookingMinutes, dateKey, getFreeSlots, isDayAvailable, scheduleFor } from '../lib/bookings/availability'
+import { browserTimeZone, formatDateTime, formatTime, zonedDateKey, zonedParts } from '../lib/timezones'
+import type { Booking, Provider } from '../types'
+
+interface RescheduleDialogProps {
+  // The booking being moved; the dialog is open while this is set
+  booking: Booking | null
+  provider: Provider | null
+  saving: boolean
+  onClose: () => void
+  onReschedule: (booking: Booking, start: Date) => void
+}
+
+// Picks a new time for a booking from the provider's free slots, the same
+// ones BookingFlow offers, in the zone where the work happens
+export function RescheduleDialog({ booking, provider, saving, onClose, onReschedule }: RescheduleDialogProps) {
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>()
+  const [selectedTime, setSelectedTime] = useState('')
+  const [slots, setSlots] = useState<Date[]>([])
+  const [loadingSlots, setLoadingSlots] = useState(false)
+
+  const timeZone = booking?.timeZone ?? browserTimeZone()
+
+  // Start on the day the booking is on now
+  useEffect(() => {
+    if (!booking) return
+    const { year, month, day } = zonedParts(new Date(booking.scheduledTime), timeZone)
+    setSelectedDate(new Date(year, month - 1, day))
+  }, [booking]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    setSelectedTime('')
+    if (!booking || !provider || !selectedDate) {
+      setSlots([])
+      return
+    }
+    let cancelled = false
+    setLoadingSlots(true)
+    getFreeSlots(provider, selectedDate, bookingMinutes(booking), timeZone, undefined, booking.id)
+      .then(free => {
+        if (!cancelled) setSlots(free)
+      })
+      .catch(error => {
+        console.error('Error loading time slots:', error)
+        if (!cancelled) setSlots([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSlots(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [booking, provider, selectedDate, timeZone])
+
+  const schedule = provider && scheduleFor(provider)
+
+  return (
+    <Dialog open={!!booking} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reschedule Booking</DialogTitle>
+          <DialogDescription>
+            {booking && `Currently ${formatDateTime(booking.scheduledTime, booking.timeZone)}. `}
+            Times are local to the service location ({timeZone}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <Calendar
+          mode="single"
+          selected={selectedDate}
+          onSelect={setSelectedDate}
+          disabled={(date) => dateKey(date) < zonedDateKey(new Date(), timeZone) || !schedule || !isDayAvailable(schedule, date)}
+          className="rounded-md border mx-auto"
+        />
+
+        {loadingSlots ? (
+          <p className="text-sm text-muted-foreground">Checking {provider?.name ?? 'the provider'}'s calendar...</p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No free times on this day. Try another date.</p>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {slots.map(slot => {
+              const iso = slot.toISOString()
+              const current = iso === booking?.scheduledTime
+              return (
+                <Button
+                  key={iso}
+                  size="sm"
+                  variant={selectedTime === iso ? 'default' : 'outline'}
+                  onClick={() => setSelectedTime(iso)}
+                  disabled={current}
+                  title={current ? 'Current time' : undefined}
+                >
+                  {formatTime(iso, timeZone)}
+                </Button>
+              )
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Keep Current Time</Button>
+          <Button
+            onClick={() => booking && onReschedule(booking, new Date(selectedTime))}
+            disabled={!selectedTime || saving}
+          >
+            {saving ? 'Rescheduling...' : 'Reschedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+import { StarRating } from './StarRating'
+import { formatDate } from '../lib/timezones'
+import type { Review } from '../types'
+
+interface ReviewCardProps {
+  review: Review
+  // Lets the provider answer (or change their answer)
+  onReply?: (review: Review, reply: string) => Promise<void>
+}
+
+export function ReviewCard({ review, onReply }: ReviewCardProps) {
+  const [replying, setReplying] = useState(false)
+  const [draft, setDraft] = useState(review.reply ?? '')
+  const [saving, setSaving] = useState(false)
+
+  const saveReply = async () => {
+    if (!onReply) return
+    setSaving(true)
+    try {
+      await onReply(review, draft)
+      setReplying(false)
+    } catch {
+      // The caller reports the error; the draft stays for another try
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-2 text-left">
+      <div className="flex items-center justify-between">
+        <StarRating value={review.rating} />
+        <span className="text-xs text-muted-foreground">{formatDate(review.createdAt)}</span>
+      </div>
+      {review.comment && <p className="text-sm">{review.comment}</p>}
+      <p className="text-xs text-muted-foreground">{review.authorName || 'Homi customer'}</p>
+      {review.reply && !replying && (
+        <div className="ml-4 border-l-2 pl-3 space-y-1">
+          <p className="text-xs font-medium">Provider's reply</p>
+          <p className="text-sm text-muted-foreground">{review.reply}</p>
+        </div>
+      )}
+      {onReply && (replying ? (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Thank the customer or respond to their feedback..."
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={saveReply} disabled={saving || !draft.trim()}>
+              {saving ? 'Saving...' : 'Post Reply'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setReplying(false)}>Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <Button size="sm" variant="ghost" onClick={() => setReplying(true)}>
+          {review.reply ? 'Edit Reply' : 'Reply'}
+        </Button>
+      ))}
+    </div>
+  )
+}
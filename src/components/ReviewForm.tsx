@@ -0,0 +1,30 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+import { StarRating } from './StarRating'
+
+interface ReviewFormProps {
+  providerName: string
+  saving: boolean
+  onSubmit: (rating: number, comment: string) => void
+}
+
+export function ReviewForm({ providerName, saving, onSubmit }: ReviewFormProps) {
+  const [rating, setRating] = useState(0)
+  const [comment, setComment] = useState('')
+
+  return (
+    <div className="bg-white rounded-lg p-4 text-left space-y-3">
+      <h3 className="font-medium">How did {providerName} do?</h3>
+      <StarRating value={rating} onChange={setRating} />
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Tell other customers about the job (optional)"
+      />
+      <Button onClick={() => onSubmit(rating, comment)} disabled={saving || rating === 0}>
+        {saving ? 'Submitting...' : 'Submit Review'}
+      </Button>
+    </div>
+  )
+}
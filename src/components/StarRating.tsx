@@ -0,0 +1,36 @@
+import { Star } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+interface StarRatingProps {
+  // Whole stars, 0–5
+  value: number
+  // Makes the stars clickable
+  onChange?: (value: number) => void
+  className?: string
+}
+
+export function StarRating({ value, onChange, className }: StarRatingProps) {
+  return (
+    <div className={cn('flex items-center gap-0.5', className)} role={onChange ? 'radiogroup' : 'img'} aria-label={`${value} of 5 stars`}>
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star className={cn('w-5 h-5', star <= value ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300')} />
+        )
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={star === value}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,34 +1,56 @@
 import { useState, useEffect } from 'react'
-import { blink } from '../blink/client'
+import { Link, useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Button } from './ui/button'
 import { Separator } from './ui/separator'
-import { Calendar, Clock, DollarSign, MapPin, Star, User, CheckCircle, XCircle } from 'lucide-react'
+import { ArrowRight, Calendar, CalendarClock, CalendarPlus, ChevronDown, Clock, Download, DollarSign, Gift, MapPin, Star, User, CheckCircle, X } from 'lucide-react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import toast from 'react-hot-toast'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { QuoteBreakdown } from './QuoteBreakdown'
+import { ProviderResponses } from './ProviderResponses'
+import { CancelBookingDialog } from './CancelBookingDialog'
+import { RescheduleDialog } from './RescheduleDialog'
+import { MessagesLink } from './BookingMessages'
+import { bookingsRepository, providersRepository, requestsRepository } from '../lib/db/repository'
+import { formatMoney } from '../lib/pricing'
+import { downloadReceipt } from '../lib/receipt'
+import { downloadBookingIcs } from '../lib/calendar/ics'
+import { formatDate, formatTime } from '../lib/timezones'
+import { paymentStatusLabels } from '../lib/payments/bookings'
+import { fromCents } from '../lib/payments/provider'
+import { availableCredit } from '../lib/ledger/credits'
+import { unreadCounts } from '../lib/messages/messages'
+import { bookingStatusLabels, canTransition, rescheduleBooking, transitionBooking } from '../lib/bookings/lifecycle'
+import { RescheduleClosedError, canReschedule, isNoShow } from '../lib/bookings/cancellation'
+import { SlotTakenError } from '../lib/bookings/holds'
+import type { Booking, Provider, ServiceRequest } from '../types'
 
 interface UserDashboardProps {
-  user: any
+  user: BlinkUser
 }
 
-interface Booking {
-  id: string
-  requestId: string
-  providerId: string
-  scheduledTime: string
-  finalPrice: number
-  status: string
-  paymentStatus: string
-  createdAt: string
+interface BookingWithDetails extends Booking {
   // Joined data
   providerName?: string
   taskType?: string
   description?: string
+  request?: ServiceRequest
+  provider?: Provider | null
+  unreadMessages?: number
 }
 
 export function UserDashboard({ user }: UserDashboardProps) {
-  const [bookings, setBookings] = useState<Booking[]>([])
-  const [requests, setRequests] = useState<any[]>([])
+  const navigate = useNavigate()
+  const [bookings, setBookings] = useState<BookingWithDetails[]>([])
+  const [requests, setRequests] = useState<ServiceRequest[]>([])
+  // Homi credit in cents, spent automatically on the next booking
+  const [credit, setCredit] = useState(0)
   const [loading, setLoading] = useState(true)
+  const [cancelling, setCancelling] = useState<BookingWithDetails | null>(null)
+  const [rescheduling, setRescheduling] = useState<BookingWithDetails | null>(null)
+  const [updating, setUpdating] = useState(false)
 
   useEffect(() => {
     loadUserData()
@@ -37,19 +59,32 @@ export function UserDashboard({ user }: UserDashboardProps) {
   const loadUserData = async () => {
     try {
       // Load user's bookings
-      const userBookings = await blink.db.bookings.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' }
-      })
+      const userBookings = await bookingsRepository.listByUser(user.id)
 
       // Load user's requests
-      const userRequests = await blink.db.requests.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' }
-      })
+      const userRequests = await requestsRepository.listByUser(user.id)
 
-      setBookings(userBookings)
+      const requestsById = new Map(userRequests.map(request => [request.id, request]))
+      const providerIds = [...new Set(userBookings.map(booking => booking.providerId))]
+      const providers = await Promise.all(providerIds.map(id => providersRepository.get(id)))
+      const providersById = new Map(providerIds.map((id, index) => [id, providers[index]]))
+      const unread = await unreadCounts(user.id)
+
+      setBookings(userBookings.map(booking => {
+        const request = requestsById.get(booking.requestId)
+        const provider = providersById.get(booking.providerId)
+        return {
+          ...booking,
+          providerName: provider?.name,
+          taskType: request?.service,
+          description: request?.description,
+          request,
+          provider,
+          unreadMessages: unread.get(booking.id) ?? 0
+        }
+      }))
       setRequests(userRequests)
+      setCredit(await availableCredit(user.id))
     } catch (error) {
       console.error('Error loading user data:', error)
     } finally {
@@ -57,38 +92,69 @@ export function UserDashboard({ user }: UserDashboardProps) {
     }
   }
 
+  const mergeBooking = (changed: Booking) =>
+    setBookings(current => current.map(booking => (booking.id === changed.id ? { ...booking, ...changed } : booking)))
+
+  const actor = { role: 'customer' as const, id: user.id }
+
+  const cancelBooking = async (booking: Booking) => {
+    setUpdating(true)
+    try {
+      mergeBooking(await transitionBooking(booking, 'cancelled', actor))
+      setCancelling(null)
+      // A no-show credit is ready for the next booking
+      setCredit(await availableCredit(user.id))
+    } catch (error) {
+      console.error('Error cancelling booking:', error)
+      toast.error('Could not cancel this booking. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const changeTime = async (booking: Booking, start: Date) => {
+    setUpdating(true)
+    try {
+      mergeBooking(await rescheduleBooking(booking, actor, start))
+      setRescheduling(null)
+      toast.success('Booking rescheduled')
+    } catch (error) {
+      console.error('Error rescheduling booking:', error)
+      toast.error(
+        error instanceof SlotTakenError || error instanceof RescheduleClosedError
+          ? error.message
+          : 'Could not reschedule this booking. Please try again.'
+      )
+    } finally {
+      setUpdating(false)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'confirmed':
+      case 'accepted':
+      case 'scheduled':
         return 'bg-green-100 text-green-800'
+      case 'in_progress':
+        return 'bg-indigo-100 text-indigo-800'
       case 'completed':
+      case 'reviewed':
         return 'bg-blue-100 text-blue-800'
       case 'cancelled':
+      case 'declined':
         return 'bg-red-100 text-red-800'
+      case 'disputed':
+        return 'bg-orange-100 text-orange-800'
       case 'pending':
+      case 'requested':
         return 'bg-yellow-100 text-yellow-800'
+      case 'draft':
+        return 'bg-purple-100 text-purple-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
   }
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'short',
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric'
-    })
-  }
-
-  const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    })
-  }
-
   if (loading) {
     return (
       <div className="max-w-6xl mx-auto space-y-6">
@@ -101,19 +167,28 @@ export function UserDashboard({ user }: UserDashboardProps) {
   }
 
   const totalSpent = bookings.reduce((sum, booking) => sum + (booking.finalPrice || 0), 0)
-  const completedBookings = bookings.filter(b => b.status === 'completed').length
-  const upcomingBookings = bookings.filter(b => b.status === 'confirmed' && new Date(b.scheduledTime) > new Date()).length
+  const completedBookings = bookings.filter(b => b.status === 'completed' || b.status === 'reviewed').length
+  const unreadMessages = bookings.reduce((sum, booking) => sum + (booking.unreadMessages ?? 0), 0)
+  const upcomingBookings = bookings.filter(b =>
+    ['requested', 'accepted', 'scheduled'].includes(b.status) && new Date(b.scheduledTime) > new Date()
+  ).length
 
   return (
     <div className="max-w-6xl mx-auto space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">My Dashboard</h1>
-        <Button onClick={() => window.location.reload()}>
+        <Button onClick={() => navigate('/request')}>
           Request New Service
         </Button>
       </div>
 
+      <ProviderResponses
+        userId={user.id}
+        bookings={bookings}
+        onBookingChange={mergeBooking}
+      />
+
       {/* Stats Overview */}
       <div className="grid md:grid-cols-4 gap-6">
         <Card>
@@ -165,7 +240,7 @@ export function UserDashboard({ user }: UserDashboardProps) {
                 <DollarSign className="w-6 h-6 text-blue-600" />
               </div>
               <div>
-                <div className="text-2xl font-bold">${totalSpent}</div>
+                <div className="text-2xl font-bold">{formatMoney(totalSpent)}</div>
                 <p className="text-sm text-muted-foreground">Total Spent</p>
               </div>
             </div>
@@ -178,7 +253,14 @@ export function UserDashboard({ user }: UserDashboardProps) {
         <div className="lg:col-span-2 space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Recent Bookings</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                Recent Bookings
+                {unreadMessages > 0 && (
+                  <Badge variant="secondary">
+                    {unreadMessages} unread message{unreadMessages === 1 ? '' : 's'}
+                  </Badge>
+                )}
+              </CardTitle>
             </CardHeader>
             <CardContent>
               {bookings.length === 0 ? (
@@ -191,37 +273,102 @@ export function UserDashboard({ user }: UserDashboardProps) {
                 <div className="space-y-4">
                   {bookings.slice(0, 5).map((booking) => (
                     <div key={booking.id} className="border rounded-lg p-4 space-y-3">
-                      <div className="flex items-start justify-between">
-                        <div className="space-y-1">
-                          <h4 className="font-semibold">Service Booking</h4>
-                          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                            <div className="flex items-center gap-1">
-                              <Calendar className="w-4 h-4" />
-                              {formatDate(booking.scheduledTime)}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <Clock className="w-4 h-4" />
-                              {formatTime(booking.scheduledTime)}
+                      <Link
+                        to={`/bookings/${booking.id}`}
+                        className="block space-y-3 hover:opacity-80 transition-opacity"
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="space-y-1">
+                            <h4 className="font-semibold">{booking.taskType || 'Service Booking'}</h4>
+                            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                              <div className="flex items-center gap-1">
+                                <Calendar className="w-4 h-4" />
+                                {formatDate(booking.scheduledTime, booking.timeZone)}
+                              </div>
+                              <div className="flex items-center gap-1">
+                                <Clock className="w-4 h-4" />
+                                {formatTime(booking.scheduledTime, booking.timeZone)}
+                              </div>
                             </div>
                           </div>
+                          <div className="text-right space-y-1">
+                            <Badge className={getStatusColor(booking.status)}>
+                              {bookingStatusLabels[booking.status]}
+                            </Badge>
+                            <div className="text-lg font-bold">{formatMoney(booking.finalPrice)}</div>
+                          </div>
                         </div>
-                        <div className="text-right space-y-1">
-                          <Badge className={getStatusColor(booking.status)}>
-                            {booking.status}
-                          </Badge>
-                          <div className="text-lg font-bold">${booking.finalPrice}</div>
-                        </div>
-                      </div>
                       
-                      <Separator />
+                        <Separator />
                       
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <User className="w-4 h-4" />
-                          <span>Provider: {booking.providerName || 'TBD'}</span>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <User className="w-4 h-4" />
+                            <span>Provider: {booking.providerName || 'TBD'}</span>
+                          </div>
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <span>Payment: {paymentStatusLabels[booking.paymentStatus]}</span>
+                          </div>
                         </div>
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <span>Payment: {booking.paymentStatus}</span>
+                      </Link>
+
+                      <div className="flex items-start justify-between gap-4">
+                        {booking.quote ? (
+                          <Collapsible className="flex-1">
+                            <CollapsibleTrigger className="group flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+                              Price details
+                              <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+                            </CollapsibleTrigger>
+                            <CollapsibleContent className="pt-2">
+                              <QuoteBreakdown quote={booking.quote} />
+                            </CollapsibleContent>
+                          </Collapsible>
+                        ) : (
+                          <span />
+                        )}
+                        <div className="flex flex-wrap justify-end gap-1">
+                          <MessagesLink bookingId={booking.id} unread={booking.unreadMessages ?? 0} />
+                          {booking.status === 'completed' && (
+                            <Button asChild variant="ghost" size="sm">
+                              <Link to={`/bookings/${booking.id}`}>
+                                <Star className="w-4 h-4 mr-1" />
+                                Leave a Review
+                              </Link>
+                            </Button>
+                          )}
+                          {canReschedule(booking, 'customer') && (
+                            <Button variant="ghost" size="sm" onClick={() => setRescheduling(booking)} disabled={updating}>
+                              <CalendarClock className="w-4 h-4 mr-1" />
+                              Reschedule
+                            </Button>
+                          )}
+                          {canTransition(booking, 'cancelled', 'customer') && (
+                            <Button variant="ghost" size="sm" onClick={() => setCancelling(booking)} disabled={updating}>
+                              <X className="w-4 h-4 mr-1" />
+                              {isNoShow(booking) ? "Provider Didn't Show" : 'Cancel'}
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => downloadBookingIcs({
+                              booking,
+                              role: 'customer',
+                              request: booking.request ?? null,
+                              provider: booking.provider ?? null
+                            })}
+                          >
+                            <CalendarPlus className="w-4 h-4 mr-1" />
+                            Add to Calendar
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => downloadReceipt({ booking, request: booking.request, provider: booking.provider })}
+                          >
+                            <Download className="w-4 h-4 mr-1" />
+                            Receipt
+                          </Button>
                         </div>
                       </div>
                     </div>
@@ -246,37 +393,48 @@ export function UserDashboard({ user }: UserDashboardProps) {
               ) : (
                 <div className="space-y-4">
                   {requests.slice(0, 5).map((request) => (
-                    <div key={request.id} className="border rounded-lg p-4 space-y-3">
+                    <Link
+                      key={request.id}
+                      to={request.status === 'draft' ? `/request/${request.id}` : `/requests/${request.id}/matches`}
+                      className="block border rounded-lg p-4 space-y-3 hover:bg-muted/50 transition-colors"
+                    >
                       <div className="flex items-start justify-between">
                         <div className="space-y-1">
-                          <h4 className="font-semibold">{request.parsedTaskType || 'Service Request'}</h4>
+                          <h4 className="font-semibold">{request.service || 'Service Request'}</h4>
                           <p className="text-sm text-muted-foreground line-clamp-2">
-                            {request.inputText}
+                            {request.description || request.inputText}
                           </p>
                         </div>
                         <div className="text-right space-y-1">
                           <Badge className={getStatusColor(request.status)}>
                             {request.status}
                           </Badge>
-                          <div className="text-sm font-medium">${request.suggestedPrice}</div>
+                          {request.status === 'draft' ? (
+                            <div className="flex items-center justify-end gap-1 text-sm font-medium text-primary">
+                              Continue
+                              <ArrowRight className="w-4 h-4" />
+                            </div>
+                          ) : (
+                            <div className="text-sm font-medium">{formatMoney(request.finalPrice ?? request.flatPrice)}</div>
+                          )}
                         </div>
                       </div>
                       
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <div className="flex items-center gap-1">
                           <MapPin className="w-4 h-4" />
-                          {request.parsedLocation || 'Location TBD'}
+                          {request.location || 'Location TBD'}
                         </div>
                         <div className="flex items-center gap-1">
                           <Clock className="w-4 h-4" />
-                          {request.parsedDuration || 'Duration TBD'}
+                          {request.estimatedHours ? `${request.estimatedHours} hours` : 'Duration TBD'}
                         </div>
                         <div className="flex items-center gap-1">
                           <Calendar className="w-4 h-4" />
                           {formatDate(request.createdAt)}
                         </div>
                       </div>
-                    </div>
+                    </Link>
                   ))}
                 </div>
               )}
@@ -286,16 +444,28 @@ export function UserDashboard({ user }: UserDashboardProps) {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {credit > 0 && (
+            <Card className="border-green-200 bg-green-50">
+              <CardContent className="p-6 flex items-center gap-4">
+                <Gift className="w-6 h-6 text-green-600" />
+                <div>
+                  <div className="text-lg font-bold text-green-800">{formatMoney(fromCents(credit))} Homi credit</div>
+                  <p className="text-sm text-green-700">Comes off your next booking automatically</p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Quick Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <Button className="w-full" onClick={() => window.location.reload()}>
+              <Button className="w-full" onClick={() => navigate('/request')}>
                 <Star className="w-4 h-4 mr-2" />
                 Request Service
               </Button>
-              <Button className="w-full" variant="outline">
+              <Button className="w-full" variant="outline" onClick={() => navigate('/calendar')}>
                 <Calendar className="w-4 h-4 mr-2" />
                 View Calendar
               </Button>
@@ -316,11 +486,11 @@ export function UserDashboard({ user }: UserDashboardProps) {
                   <p className="text-muted-foreground">No recent activity</p>
                 ) : (
                   <>
-                    {requests.slice(0, 3).map((request) => (
+                    {requests.filter(request => request.status !== 'draft').slice(0, 3).map((request) => (
                       <div key={request.id} className="flex items-center gap-3">
                         <div className="w-2 h-2 bg-primary rounded-full"></div>
                         <div>
-                          <p className="font-medium">Requested {request.parsedTaskType}</p>
+                          <p className="font-medium">Requested {request.service}</p>
                           <p className="text-muted-foreground">{formatDate(request.createdAt)}</p>
                         </div>
                       </div>
@@ -352,6 +522,21 @@ export function UserDashboard({ user }: UserDashboardProps) {
           </Card>
         </div>
       </div>
+
+      <CancelBookingDialog
+        booking={cancelling}
+        role="customer"
+        saving={updating}
+        onClose={() => setCancelling(null)}
+        onConfirm={cancelBooking}
+      />
+      <RescheduleDialog
+        booking={rescheduling}
+        provider={rescheduling?.provider ?? null}
+        saving={updating}
+        onClose={() => setRescheduling(null)}
+        onReschedule={changeTime}
+      />
     </div>
   )
 }
\ No newline at end of file
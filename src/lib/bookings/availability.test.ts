@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { freeSlots, scheduleFromText, type SlotOptions } from './availability'
+import { zonedTimeToUtc } from '../timezones'
+import type { AvailabilitySchedule } from '../../types'
+
+const ZONE = 'America/Los_Angeles'
+// A Monday
+const MONDAY = new Date(2026, 9, 19)
+
+const weekdays: AvailabilitySchedule = {
+  weekly: [[], ...Array.from({ length: 5 }, () => [{ start: '09:00', end: '17:00' }]), []],
+  blackoutDates: [],
+  bufferMinutes: 30
+}
+
+const at = (time: string, day = '2026-10-19', zone = ZONE) => zonedTimeToUtc(day, time, zone) as Date
+
+const slots = (options: Partial<SlotOptions> = {}) =>
+  freeSlots({
+    schedule: weekdays,
+    date: MONDAY,
+    durationMinutes: 120,
+    busy: [],
+    timeZone: ZONE,
+    now: new Date('2026-10-01T00:00:00Z'),
+    ...options
+  })
+
+const times = (dates: Date[], zone = ZONE) =>
+  dates.map(date => date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: zone }))
+
+describe('freeSlots', () => {
+  it('offers every start time where the job ends by closing', () => {
+    const result = times(slots())
+    expect(result).toHaveLength(13)
+    expect(result[0]).toBe('09:00')
+    expect(result[result.length - 1]).toBe('15:00')
+  })
+
+  it('keeps the buffer around other bookings', () => {
+    const result = slots({ busy: [{ start: at('12:00'), end: at('14:00') }] })
+    expect(times(result)).toEqual(['09:00', '09:30', '14:30', '15:00'])
+  })
+
+  it('leaves out start times that have passed', () => {
+    expect(times(slots({ now: at('12:00') }))).toEqual(['12:30', '13:00', '13:30', '14:00', '14:30', '15:00'])
+  })
+
+  it('has nothing on days off or blackout dates', () => {
+    expect(slots({ date: new Date(2026, 9, 18) })).toEqual([])
+    expect(slots({ schedule: { ...weekdays, blackoutDates: ['2026-10-19'] } })).toEqual([])
+  })
+
+  it('has nothing when the job is longer than the working day', () => {
+    expect(slots({ durationMinutes: 9 * 60 })).toEqual([])
+  })
+
+  it('skips start times that do not exist when clocks go forward', () => {
+    const zone = 'America/New_York'
+    const overnight: AvailabilitySchedule = {
+      weekly: [[{ start: '00:00', end: '06:00' }], [], [], [], [], [], []],
+      blackoutDates: [],
+      bufferMinutes: 0
+    }
+    const result = slots({ schedule: overnight, date: new Date(2026, 2, 8), durationMinutes: 60, timeZone: zone, now: new Date(0) })
+    expect(times(result, zone)).toEqual(['00:00', '00:30', '01:00', '01:30', '03:00', '03:30', '04:00', '04:30', '05:00'])
+  })
+})
+
+describe('scheduleFromText', () => {
+  it('reads weekly hours from free-text availability', () => {
+    const everyDay = scheduleFromText('Weekdays and weekends')
+    expect(everyDay.weekly.every(ranges => ranges.length === 1)).toBe(true)
+
+    const evenings = scheduleFromText('Weekday evenings')
+    expect(evenings.weekly[0]).toEqual([])
+    expect(evenings.weekly[1]).toEqual([{ start: '09:00', end: '21:00' }])
+  })
+})
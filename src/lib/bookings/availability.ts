@@ -0,0 +1,181 @@
+import { bookingsRepository, slotHoldsRepository } from '../db/repository'
+import { zonedTimeToUtc } from '../timezones'
+import type { AvailabilitySchedule, Booking, BookingStatus, Provider, SlotHold, TimeRange } from '../../types'
+
+// Turns a provider's weekly hours, days off and buffer into the start times a
+// customer can actually book. Hours are wall-clock times in the service
+// location's time zone, so a 09:00 start stays 09:00 across DST changes.
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Candidate start times are this far apart
+export const SLOT_STEP_MINUTES = 30
+// Used for bookings whose quote doesn't say how long the job takes
+export const DEFAULT_JOB_MINUTES = 120
+
+// Bookings in these statuses keep the provider busy
+const OCCUPYING: BookingStatus[] = ['requested', 'accepted', 'scheduled', 'in_progress']
+
+const MINUTE_MS = 60 * 1000
+
+const hours = (start: string, end: string): TimeRange[] => [{ start, end }]
+const days = (ranges: TimeRange[], which: number[]): TimeRange[][] =>
+  WEEKDAY_NAMES.map((_, day) => (which.includes(day) ? ranges : []))
+
+const WEEKDAYS = [1, 2, 3, 4, 5]
+const WEEKEND = [0, 6]
+
+// Best guess at hours from the free-text availability providers had before
+// schedules existed
+export const scheduleFromText = (text: string): AvailabilitySchedule => {
+  const normalized = text.toLowerCase()
+  const weekdays = /weekday|mon|tue|wed|thu|fri/.test(normalized)
+  const weekends = /weekend|sat|sun/.test(normalized)
+  const evenings = /evening|night/.test(normalized)
+
+  let weekly: TimeRange[][]
+  if (weekdays && weekends) weekly = days(hours('09:00', '17:00'), [...WEEKDAYS, ...WEEKEND])
+  else if (weekends) weekly = days(hours('09:00', '17:00'), WEEKEND)
+  else if (weekdays) weekly = days(hours('09:00', evenings ? '21:00' : '17:00'), WEEKDAYS)
+  else if (evenings) weekly = days(hours('17:00', '21:00'), [...WEEKDAYS, ...WEEKEND])
+  else weekly = days(hours('08:00', '20:00'), [...WEEKDAYS, ...WEEKEND])
+
+  return { weekly, blackoutDates: [], bufferMinutes: 30 }
+}
+
+export const scheduleFor = (provider: Pick<Provider, 'schedule' | 'availability'>): AvailabilitySchedule =>
+  provider.schedule ?? scheduleFromText(provider.availability)
+
+const sameRanges = (a: TimeRange[], b: TimeRange[]) =>
+  a.length === b.length && a.every((range, index) => range.start === b[index].start && range.end === b[index].end)
+
+// "Monday–Friday 09:00–17:00, Saturday 10:00–14:00", stored as the provider's
+// availability text so matching and profile cards keep working
+export const describeSchedule = (schedule: AvailabilitySchedule): string => {
+  // Monday first so weekday runs read naturally
+  const order = [1, 2, 3, 4, 5, 6, 0]
+  const runs: Array<{ from: number; to: number; ranges: TimeRange[] }> = []
+  for (const day of order) {
+    const ranges = schedule.weekly[day]
+    if (ranges.length === 0) continue
+    const last = runs[runs.length - 1]
+    if (last && order.indexOf(last.to) === order.indexOf(day) - 1 && sameRanges(last.ranges, ranges)) last.to = day
+    else runs.push({ from: day, to: day, ranges })
+  }
+  if (runs.length === 0) return 'Not available'
+
+  return runs
+    .map(({ from, to, ranges }) => {
+      const label = from === to ? WEEKDAY_NAMES[from] : `${WEEKDAY_NAMES[from]}–${WEEKDAY_NAMES[to]}`
+      return `${label} ${ranges.map(range => `${range.start}–${range.end}`).join(', ')}`
+    })
+    .join(', ')
+}
+
+// Calendar date picked in the UI, "2026-10-19". Only the Date's year, month
+// and day are used; they name the day in the service location.
+export const dateKey = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+export const isDayAvailable = (schedule: AvailabilitySchedule, date: Date) =>
+  !schedule.blackoutDates.includes(dateKey(date)) && schedule.weekly[date.getDay()].length > 0
+
+export const bookingMinutes = (booking: Pick<Booking, 'quote'>) =>
+  booking.quote ? booking.quote.estimatedHours * 60 : DEFAULT_JOB_MINUTES
+
+export interface BusyInterval {
+  start: Date
+  end: Date
+}
+
+export const busyIntervals = (bookings: Booking[]): BusyInterval[] =>
+  bookings
+    .filter(booking => OCCUPYING.includes(booking.status))
+    .map(booking => {
+      const start = new Date(booking.scheduledTime)
+      return { start, end: new Date(start.getTime() + bookingMinutes(booking) * MINUTE_MS) }
+    })
+
+// Times other customers are checking out. Cells a booking owns are already
+// covered by the booking itself.
+export const heldIntervals = (holds: SlotHold[], now = new Date(), exceptHolderId?: string): BusyInterval[] => {
+  const live = holds.filter(hold =>
+    !hold.bookingId && hold.expiresAt && new Date(hold.expiresAt) > now && hold.holderId !== exceptHolderId
+  )
+  const byHold = new Map(live.map(hold => [hold.holdId, hold]))
+  return [...byHold.values()].map(hold => ({ start: new Date(hold.startsAt), end: new Date(hold.endsAt) }))
+}
+
+// Whether a job from `start` to `end` would run into any busy interval or
+// come closer to one than the buffer
+export const clashes = (start: Date, end: Date, busy: BusyInterval[], bufferMinutes: number) => {
+  const buffer = bufferMinutes * MINUTE_MS
+  return busy.some(interval =>
+    start.getTime() < interval.end.getTime() + buffer && end.getTime() + buffer > interval.start.getTime()
+  )
+}
+
+export interface SlotOptions {
+  schedule: AvailabilitySchedule
+  date: Date
+  durationMinutes: number
+  busy: BusyInterval[]
+  // IANA zone the working hours are in
+  timeZone: string
+  now?: Date
+}
+
+// Start times on `date` where the whole job fits inside working hours and
+// stays at least the buffer away from every other booking. Start times are
+// stepped in wall-clock time; ones skipped when clocks go forward are left out
+// and job lengths are real elapsed time.
+export const freeSlots = ({ schedule, date, durationMinutes, busy, timeZone, now = new Date() }: SlotOptions): Date[] => {
+  if (!isDayAvailable(schedule, date)) return []
+  const day = dateKey(date)
+  const duration = durationMinutes * MINUTE_MS
+
+  return schedule.weekly[date.getDay()].flatMap(range => {
+    const close = zonedTimeToUtc(day, range.end, timeZone)
+    if (!close) return []
+    const slots: Date[] = []
+    for (let minutes = toMinutes(range.start); minutes < toMinutes(range.end); minutes += SLOT_STEP_MINUTES) {
+      const start = zonedTimeToUtc(day, toTime(minutes), timeZone)
+      if (!start) continue
+      const end = new Date(start.getTime() + duration)
+      if (end > close) break
+      if (start > now && !clashes(start, end, busy, schedule.bufferMinutes)) slots.push(start)
+    }
+    return slots
+  })
+}
+
+// Free start times for a provider on a given day in the service location's
+// zone, checked against their current bookings and other customers'
+// checkouts. The holder's own hold doesn't hide the slot they are holding,
+// and a booking being rescheduled doesn't block its own new time.
+export const getFreeSlots = async (
+  provider: Pick<Provider, 'id' | 'schedule' | 'availability'>,
+  date: Date,
+  durationMinutes: number,
+  timeZone: string,
+  holderId?: string,
+  ignoreBookingId?: string
+): Promise<Date[]> => {
+  const [bookings, holds] = await Promise.all([
+    bookingsRepository.listByProvider(provider.id),
+    slotHoldsRepository.listByProvider(provider.id)
+  ])
+  const others = bookings.filter(booking => booking.id !== ignoreBookingId)
+  const busy = [...busyIntervals(others), ...heldIntervals(holds, new Date(), holderId)]
+  return freeSlots({ schedule: scheduleFor(provider), date, durationMinutes, busy, timeZone })
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { canReschedule, cancellationTerms, freeCancelUntil, isNoShow, lateCancelFee } from './cancellation'
+import type { Booking } from '../../types'
+
+const START = new Date('2030-01-07T17:00:00Z')
+const HOUR_MS = 60 * 60 * 1000
+
+const booking = (overrides: Partial<Booking> = {}): Booking => ({
+  id: 'booking_test',
+  requestId: 'req_test',
+  providerId: 'prov_maria',
+  userId: 'local_user',
+  scheduledTime: START.toISOString(),
+  finalPrice: 120,
+  status: 'scheduled',
+  paymentStatus: 'authorized',
+  history: [],
+  createdAt: '2030-01-01T00:00:00Z',
+  ...overrides
+})
+
+const hoursBefore = (hours: number) => new Date(START.getTime() - hours * HOUR_MS)
+
+describe('lateCancelFee', () => {
+  it('keeps half the total, at least the minimum and never more than the total', () => {
+    expect(lateCancelFee({ finalPrice: 120 })).toBe(60)
+    expect(lateCancelFee({ finalPrice: 40 })).toBe(25)
+    expect(lateCancelFee({ finalPrice: 20 })).toBe(20)
+  })
+})
+
+describe('cancellationTerms', () => {
+  it('is free until the free-cancellation window closes', () => {
+    expect(freeCancelUntil(booking())).toEqual(hoursBefore(24))
+    expect(cancellationTerms(booking(), 'customer', hoursBefore(25))).toMatchObject({ reason: 'free', fee: 0, credit: 0 })
+  })
+
+  it('charges the customer a late fee only when there is a card hold to take it from', () => {
+    expect(cancellationTerms(booking(), 'customer', hoursBefore(2))).toMatchObject({ reason: 'late_cancel', fee: 60, credit: 0 })
+    expect(cancellationTerms(booking({ paymentStatus: 'pending' }), 'customer', hoursBefore(2)).reason).toBe('free')
+  })
+
+  it('credits the customer when the provider cancels late', () => {
+    expect(cancellationTerms(booking(), 'provider', hoursBefore(2))).toMatchObject({ reason: 'provider_cancel', fee: 0, credit: 25 })
+    expect(cancellationTerms(booking(), 'provider', hoursBefore(30)).reason).toBe('free')
+  })
+
+  it('treats a customer cancelling after the grace period as a provider no-show', () => {
+    const now = new Date(START.getTime() + 31 * 60 * 1000)
+    expect(isNoShow(booking(), now)).toBe(true)
+    expect(cancellationTerms(booking(), 'customer', now)).toMatchObject({ reason: 'provider_no_show', fee: 0, credit: 25 })
+    expect(cancellationTerms(booking(), 'customer', new Date(START.getTime() + 10 * 60 * 1000)).reason).toBe('late_cancel')
+  })
+
+  it('never charges for a booking that is not confirmed', () => {
+    expect(cancellationTerms(booking({ status: 'requested' }), 'customer', hoursBefore(1)).reason).toBe('free')
+  })
+})
+
+describe('canReschedule', () => {
+  it('lets the customer move a confirmed booking only until free cancellation ends', () => {
+    expect(canReschedule(booking(), 'customer', hoursBefore(25))).toBe(true)
+    expect(canReschedule(booking(), 'customer', hoursBefore(2))).toBe(false)
+  })
+
+  it('lets the provider, or anyone on a pending request, move it until it starts', () => {
+    expect(canReschedule(booking(), 'provider', hoursBefore(2))).toBe(true)
+    expect(canReschedule(booking({ status: 'requested' }), 'customer', hoursBefore(2))).toBe(true)
+    expect(canReschedule(booking(), 'provider', START)).toBe(false)
+  })
+
+  it('refuses finished bookings and other roles', () => {
+    expect(canReschedule(booking({ status: 'completed' }), 'customer', hoursBefore(48))).toBe(false)
+    expect(canReschedule(booking(), 'system', hoursBefore(48))).toBe(false)
+  })
+})
@@ -0,0 +1,120 @@
+import { formatMoney } from '../pricing'
+import type { Booking, BookingRole } from '../../types'
+
+// Homi's cancellation policy. Cancelling is free until shortly before a
+// confirmed booking starts; after that the customer pays a late fee, while a
+// provider who cancels late or never turns up costs Homi a credit for the
+// customer. transitionBooking applies these terms to the payment when a
+// booking is cancelled, and the dashboards show them before anyone confirms.
+
+export interface CancellationPolicy {
+  // Hours before the start when free cancellation and rescheduling end
+  freeCancelHours: number
+  // Share of the total kept when the customer cancels after that
+  lateCancelFeeRate: number
+  // Smallest late fee in dollars, capped at the booking's total
+  lateCancelFeeMinimum: number
+  // Minutes after the start before the customer can report a no-show
+  noShowGraceMinutes: number
+  // Homi credit in dollars for a provider's late cancellation or no-show
+  providerNoShowCredit: number
+}
+
+export const CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancelHours: 24,
+  lateCancelFeeRate: 0.5,
+  lateCancelFeeMinimum: 25,
+  noShowGraceMinutes: 30,
+  providerNoShowCredit: 25
+}
+
+// free: nothing kept; late_cancel: the customer pays the fee;
+// provider_cancel / provider_no_show: full refund plus a credit
+export type CancellationReason = 'free' | 'late_cancel' | 'provider_cancel' | 'provider_no_show'
+
+export interface CancellationTerms {
+  reason: CancellationReason
+  // Dollars kept from the customer's payment
+  fee: number
+  // Homi credit for the customer, in dollars
+  credit: number
+  summary: string
+}
+
+export class RescheduleClosedError extends Error {
+  constructor(message = 'This booking can no longer be moved. You can still cancel it.') {
+    super(message)
+    this.name = 'RescheduleClosedError'
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+// When cancelling a booking stops being free
+export const freeCancelUntil = (booking: Pick<Booking, 'scheduledTime'>, policy = CANCELLATION_POLICY) =>
+  new Date(new Date(booking.scheduledTime).getTime() - policy.freeCancelHours * HOUR_MS)
+
+export const lateCancelFee = (booking: Pick<Booking, 'finalPrice'>, policy = CANCELLATION_POLICY) =>
+  roundCents(Math.min(booking.finalPrice, Math.max(policy.lateCancelFeeMinimum, booking.finalPrice * policy.lateCancelFeeRate)))
+
+// Whether the customer cancelling now means the provider never showed up
+export const isNoShow = (booking: Pick<Booking, 'status' | 'scheduledTime'>, now = new Date(), policy = CANCELLATION_POLICY) =>
+  booking.status === 'scheduled' &&
+  now.getTime() >= new Date(booking.scheduledTime).getTime() + policy.noShowGraceMinutes * MINUTE_MS
+
+// What cancelling would cost each side if `role` cancelled now. Only a
+// confirmed (scheduled) booking carries a fee or credit, and a fee can only
+// come out of a card hold, so older unpaid bookings always cancel free.
+export const cancellationTerms = (
+  booking: Booking,
+  role: BookingRole,
+  now = new Date(),
+  policy = CANCELLATION_POLICY
+): CancellationTerms => {
+  const free: CancellationTerms = { reason: 'free', fee: 0, credit: 0, summary: 'Free cancellation, full refund' }
+  if (booking.status !== 'scheduled') return free
+  const late = now >= freeCancelUntil(booking, policy)
+  const credit = policy.providerNoShowCredit
+
+  if (role === 'customer' && isNoShow(booking, now, policy)) {
+    return {
+      reason: 'provider_no_show',
+      fee: 0,
+      credit,
+      summary: `Provider didn't show up: full refund plus ${formatMoney(credit)} Homi credit`
+    }
+  }
+  if (role === 'customer' && late && booking.paymentStatus === 'authorized') {
+    const fee = lateCancelFee(booking, policy)
+    return {
+      reason: 'late_cancel',
+      fee,
+      credit: 0,
+      summary: `Cancelled within ${policy.freeCancelHours} hours: ${formatMoney(fee)} late fee, the rest is refunded`
+    }
+  }
+  if (role === 'provider' && late) {
+    return {
+      reason: 'provider_cancel',
+      fee: 0,
+      credit,
+      summary: `Provider cancelled within ${policy.freeCancelHours} hours: full refund plus ${formatMoney(credit)} Homi credit`
+    }
+  }
+  return free
+}
+
+// Customers can move a confirmed booking until free cancellation ends, so a
+// late move can't dodge the fee; providers can move it until it starts.
+// Bookings still waiting on the provider can be moved until they start.
+export const canReschedule = (booking: Booking, role: BookingRole, now = new Date(), policy = CANCELLATION_POLICY) => {
+  if (role !== 'customer' && role !== 'provider') return false
+  if (booking.status !== 'requested' && booking.status !== 'scheduled') return false
+  const deadline = role === 'customer' && booking.status === 'scheduled'
+    ? freeCancelUntil(booking, policy)
+    : new Date(booking.scheduledTime)
+  return now < deadline
+}
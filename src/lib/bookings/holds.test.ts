@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository, providersRepository } from '../db/repository'
+import { SlotTakenError, confirmHold, moveBookingSlots, placeHold, releaseHold } from './holds'
+import type { Booking, Provider } from '../../types'
+
+let app: ReturnType<typeof resetLocalApp>
+let maria: Provider
+
+const NINE = new Date('2030-01-07T17:00:00Z')
+const at = (minutesAfterNine: number) => new Date(NINE.getTime() + minutesAfterNine * 60 * 1000)
+const NOW = new Date('2030-01-01T00:00:00Z')
+
+const hold = (holderId: string, start: Date, now = NOW) =>
+  placeHold({ provider: maria, holderId, start, durationMinutes: 120, now })
+
+beforeEach(async () => {
+  app = resetLocalApp()
+  maria = (await providersRepository.get('prov_maria'))!
+})
+
+describe('placeHold', () => {
+  it('lets only one of two simultaneous checkouts have the time', async () => {
+    const results = await Promise.allSettled([hold('customer_a', NINE), hold('customer_b', at(30))])
+
+    const won = results.filter(result => result.status === 'fulfilled')
+    const lost = results.filter(result => result.status === 'rejected')
+    expect(won).toHaveLength(1)
+    expect(lost.map(result => (result as PromiseRejectedResult).reason)).toEqual([expect.any(SlotTakenError)])
+    // The loser's partial claim is rolled back
+    const holders = new Set(app.backend.dump('slot_holds').map(cell => cell.holderId))
+    expect(holders.size).toBe(1)
+  })
+
+  it("keeps the provider's buffer after a held job", async () => {
+    await hold('customer_a', NINE)
+
+    // 9:00–11:00 plus a 30 minute buffer
+    await expect(hold('customer_b', at(120))).rejects.toBeInstanceOf(SlotTakenError)
+    await expect(hold('customer_b', at(150))).resolves.toMatchObject({ startsAt: at(150).toISOString() })
+  })
+
+  it('frees the time once a hold expires or is released', async () => {
+    const first = await hold('customer_a', NINE)
+    await expect(hold('customer_b', NINE)).rejects.toBeInstanceOf(SlotTakenError)
+
+    await expect(hold('customer_b', NINE, new Date(first.expiresAt))).resolves.toBeTruthy()
+    await releaseHold((await hold('customer_c', at(240))).holdId)
+    await expect(hold('customer_a', at(240))).resolves.toBeTruthy()
+  })
+
+  it('treats bookings made before holds existed as busy', async () => {
+    await bookingsRepository.create({
+      id: 'booking_legacy',
+      requestId: 'req_fixture_cleaning',
+      providerId: maria.id,
+      userId: 'customer_z',
+      scheduledTime: NINE.toISOString(),
+      finalPrice: 100,
+      status: 'scheduled',
+      paymentStatus: 'authorized',
+      history: [],
+      createdAt: NOW.toISOString()
+    })
+
+    await expect(hold('customer_a', at(60))).rejects.toBeInstanceOf(SlotTakenError)
+  })
+})
+
+describe('confirmHold', () => {
+  it("only hands a live hold to its holder's booking", async () => {
+    const placed = await hold('customer_a', NINE)
+
+    await expect(confirmHold(placed.holdId, 'customer_b', 'booking_b', NOW)).rejects.toBeInstanceOf(SlotTakenError)
+    await expect(confirmHold(placed.holdId, 'customer_a', 'booking_a', new Date(placed.expiresAt))).rejects.toBeInstanceOf(SlotTakenError)
+    await confirmHold(placed.holdId, 'customer_a', 'booking_a', NOW)
+    expect(app.backend.dump('slot_holds').every(cell => cell.bookingId === 'booking_a' && !cell.expiresAt)).toBe(true)
+  })
+})
+
+describe('moveBookingSlots', () => {
+  it('claims the old time again when the new one is taken', async () => {
+    const placed = await hold(app.user.id, NINE)
+    await confirmHold(placed.holdId, app.user.id, 'booking_move', NOW)
+    await hold('customer_b', at(300))
+    const booking = { id: 'booking_move', providerId: maria.id, userId: app.user.id, scheduledTime: NINE.toISOString() } as Booking
+    const before = app.backend.dump('slot_holds').filter(cell => cell.bookingId === booking.id).map(cell => cell.id)
+
+    await expect(moveBookingSlots(booking, at(300))).rejects.toBeInstanceOf(SlotTakenError)
+    const after = app.backend.dump('slot_holds').filter(cell => cell.bookingId === booking.id).map(cell => cell.id)
+    expect(after.sort()).toEqual(before.sort())
+  })
+})
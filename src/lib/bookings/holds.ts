@@ -0,0 +1,146 @@
+import { bookingsRepository, isDuplicateKeyError, providersRepository, slotHoldsRepository } from '../db/repository'
+import { SLOT_STEP_MINUTES, bookingMinutes, busyIntervals, clashes, scheduleFor } from './availability'
+import type { Booking, Provider, SlotHold } from '../../types'
+
+// Short-lived reservations that stop two customers booking the same provider
+// at once. A hold claims every 30-minute cell the job and the provider's
+// buffer touch; each cell's id is derived from the provider and its start, so
+// the database's primary key rejects a second claim on any of them no matter
+// how close together the two checkouts run. Holds expire unless a booking
+// takes them over.
+
+export const HOLD_MINUTES = 10
+
+const MINUTE_MS = 60 * 1000
+const CELL_MS = SLOT_STEP_MINUTES * MINUTE_MS
+
+export class SlotTakenError extends Error {
+  constructor(message = 'Sorry, someone else just booked this time. Please pick another one.') {
+    super(message)
+    this.name = 'SlotTakenError'
+  }
+}
+
+export interface PlacedHold {
+  holdId: string
+  providerId: string
+  startsAt: string
+  endsAt: string
+  expiresAt: string
+}
+
+type HoldProvider = Pick<Provider, 'id' | 'schedule' | 'availability'>
+
+const cellId = (providerId: string, cellStart: number) => `${providerId}:${new Date(cellStart).toISOString()}`
+
+// Cells from the start of the job to the end of the buffer after it, so two
+// holds sharing no cell are always a buffer apart
+const cellsFor = (providerId: string, start: Date, end: Date, bufferMinutes: number) => {
+  const first = Math.floor(start.getTime() / CELL_MS) * CELL_MS
+  const last = end.getTime() + bufferMinutes * MINUTE_MS
+  const ids: string[] = []
+  for (let cell = first; cell < last; cell += CELL_MS) ids.push(cellId(providerId, cell))
+  return ids
+}
+
+const isExpired = (hold: SlotHold, now: Date) => !!hold.expiresAt && new Date(hold.expiresAt) <= now
+
+export const releaseExpiredHolds = async (providerId: string, now = new Date()) => {
+  const holds = await slotHoldsRepository.listByProvider(providerId)
+  await Promise.all(holds.filter(hold => isExpired(hold, now)).map(hold => slotHoldsRepository.delete(hold.id)))
+}
+
+// Claims the time for `holderId` for HOLD_MINUTES. Throws SlotTakenError when
+// any part of it is booked or held by someone else.
+export const placeHold = async ({
+  provider,
+  holderId,
+  start,
+  durationMinutes,
+  now = new Date(),
+  ignoreBookingId
+}: {
+  provider: HoldProvider
+  holderId: string
+  start: Date
+  durationMinutes: number
+  now?: Date
+  // A booking being moved doesn't block its own new time
+  ignoreBookingId?: string
+}): Promise<PlacedHold> => {
+  const { bufferMinutes } = scheduleFor(provider)
+  const end = new Date(start.getTime() + durationMinutes * MINUTE_MS)
+
+  await releaseExpiredHolds(provider.id, now)
+  // Bookings made before holds existed own no cells, so check them directly
+  const bookings = (await bookingsRepository.listByProvider(provider.id)).filter(booking => booking.id !== ignoreBookingId)
+  if (clashes(start, end, busyIntervals(bookings), bufferMinutes)) {
+    throw new SlotTakenError()
+  }
+
+  const hold: PlacedHold = {
+    holdId: `hold_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    providerId: provider.id,
+    startsAt: start.toISOString(),
+    endsAt: end.toISOString(),
+    expiresAt: new Date(now.getTime() + HOLD_MINUTES * MINUTE_MS).toISOString()
+  }
+
+  const claimed: string[] = []
+  try {
+    for (const id of cellsFor(provider.id, start, end, bufferMinutes)) {
+      await slotHoldsRepository.create({ ...hold, id, holderId, createdAt: now.toISOString() })
+      claimed.push(id)
+    }
+  } catch (error) {
+    await Promise.all(claimed.map(id => slotHoldsRepository.delete(id)))
+    throw isDuplicateKeyError(error) ? new SlotTakenError() : error
+  }
+  return hold
+}
+
+export const releaseHold = async (holdId: string) => {
+  const cells = await slotHoldsRepository.listByHold(holdId)
+  await Promise.all(cells.filter(cell => !cell.bookingId).map(cell => slotHoldsRepository.delete(cell.id)))
+}
+
+// Hands the held cells to a booking so they stay claimed until the booking is
+// cancelled or declined. Fails if the hold lapsed or isn't the holder's.
+export const confirmHold = async (holdId: string, holderId: string, bookingId: string, now = new Date()) => {
+  const cells = await slotHoldsRepository.listByHold(holdId)
+  if (cells.length === 0 || cells.some(cell => cell.holderId !== holderId || cell.bookingId || isExpired(cell, now))) {
+    throw new SlotTakenError('Your hold on this time ran out. Please pick the time again.')
+  }
+  await Promise.all(cells.map(cell => slotHoldsRepository.update(cell.id, { ...cell, bookingId, expiresAt: undefined })))
+}
+
+export const releaseBookingSlots = async (bookingId: string) => {
+  const cells = await slotHoldsRepository.listByBooking(bookingId)
+  await Promise.all(cells.map(cell => slotHoldsRepository.delete(cell.id)))
+}
+
+// Moves a booking's cells to a new start time. If the new time is taken the
+// old cells are claimed again and the SlotTakenError is rethrown.
+export const moveBookingSlots = async (booking: Booking, start: Date) => {
+  const provider = await providersRepository.get(booking.providerId)
+  if (!provider) throw new Error(`Provider ${booking.providerId} not found`)
+
+  const claim = async (at: Date) => {
+    const hold = await placeHold({
+      provider,
+      holderId: booking.userId,
+      start: at,
+      durationMinutes: bookingMinutes(booking),
+      ignoreBookingId: booking.id
+    })
+    await confirmHold(hold.holdId, booking.userId, booking.id)
+  }
+
+  await releaseBookingSlots(booking.id)
+  try {
+    await claim(start)
+  } catch (error) {
+    await claim(new Date(booking.scheduledTime)).catch(restoreError => console.error('Could not restore booking slots:', restoreError))
+    throw error
+  }
+}
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository, ledgerRepository, providersRepository, requestsRepository } from '../db/repository'
+import { savePreferences } from '../notifications/notify'
+import { PaymentError } from '../payments/provider'
+import { PriceAdjustmentError, minimumAdjustedTotal, quotePrice } from '../pricing'
+import { placeHold } from './holds'
+import { RescheduleClosedError } from './cancellation'
+import {
+  BookingTransitionError,
+  acceptBooking,
+  proposeChanges,
+  requestBooking,
+  respondToProposal,
+  rescheduleBooking,
+  transitionBooking,
+  type BookingActor
+} from './lifecycle'
+
+let app: ReturnType<typeof resetLocalApp>
+
+beforeEach(() => {
+  app = resetLocalApp()
+})
+
+const customer = (): BookingActor => ({ role: 'customer', id: app.user.id })
+const provider: BookingActor = { role: 'provider', id: 'user_prov_maria' }
+
+// A Monday morning in San Francisco, comfortably in the future
+const START = new Date('2030-01-07T17:00:00Z')
+
+const book = async () => {
+  const maria = (await providersRepository.get('prov_maria'))!
+  const hold = await placeHold({ provider: maria, holderId: app.user.id, start: START, durationMinutes: 180 })
+  const quote = quotePrice(
+    { service: 'Deep cleaning', description: '', location: 'San Francisco, CA', timeline: 'Next week', complexity: 'standard' },
+    maria
+  )
+  return requestBooking({
+    id: 'booking_test',
+    requestId: 'req_fixture_cleaning',
+    providerId: maria.id,
+    userId: app.user.id,
+    scheduledTime: START.toISOString(),
+    timeZone: 'America/Los_Angeles',
+    finalPrice: quote.total,
+    quote,
+    createdAt: new Date().toISOString()
+  }, customer(), hold.holdId)
+}
+
+describe('requestBooking', () => {
+  it('takes over the slot hold and authorizes the card', async () => {
+    await savePreferences({ userId: provider.id, channels: ['email'], email: 'maria@example.com', phone: '', updatedAt: '' })
+    const booking = await book()
+
+    expect(booking.status).toBe('requested')
+    expect(booking.paymentStatus).toBe('authorized')
+    const holds = app.backend.dump('slot_holds')
+    expect(holds.length).toBeGreaterThan(0)
+    expect(holds.every(hold => hold.bookingId === booking.id)).toBe(true)
+    expect(app.payments.intents()).toMatchObject([
+      { id: booking.paymentIntentId, status: 'requires_capture', amount: Math.round(booking.finalPrice * 100) }
+    ])
+    expect((await requestsRepository.get('req_fixture_cleaning'))?.status).toBe('booked')
+    expect(app.deliveries).toMatchObject([{ channel: 'email', to: 'maria@example.com', title: 'New booking request: Deep cleaning' }])
+  })
+
+  it('cancels the booking and frees the slot when the card is declined', async () => {
+    app.payments.declineNext('insufficient_funds')
+
+    await expect(book()).rejects.toBeInstanceOf(PaymentError)
+    expect((await bookingsRepository.get('booking_test'))?.status).toBe('cancelled')
+    expect(app.backend.dump('slot_holds')).toEqual([])
+    expect((await requestsRepository.get('req_fixture_cleaning'))?.status).toBe('pending')
+  })
+
+  it('keeps an authorized booking when the request cannot be marked booked', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const update = vi.spyOn(requestsRepository, 'update').mockRejectedValueOnce(new Error('Network error'))
+
+    const booking = await book()
+
+    expect(booking).toMatchObject({ status: 'requested', paymentStatus: 'authorized' })
+    expect((await bookingsRepository.get(booking.id))?.status).toBe('requested')
+    expect(app.payments.intents()[0].status).toBe('requires_capture')
+    expect(logged).toHaveBeenCalledWith('Error marking the request booked:', expect.any(Error))
+    update.mockRestore()
+    logged.mockRestore()
+  })
+})
+
+describe('transitionBooking', () => {
+  it('only lets each side make its own moves', async () => {
+    const booking = await book()
+
+    await expect(transitionBooking(booking, 'accepted', customer())).rejects.toBeInstanceOf(BookingTransitionError)
+    await expect(transitionBooking(booking, 'completed', provider)).rejects.toBeInstanceOf(BookingTransitionError)
+    expect((await bookingsRepository.get(booking.id))?.status).toBe('requested')
+  })
+
+  it('records every move in the history', async () => {
+    const scheduled = await acceptBooking(await book(), provider)
+
+    expect(scheduled.status).toBe('scheduled')
+    expect(scheduled.history.map(event => event.to)).toEqual(['requested', 'accepted', 'scheduled'])
+    expect(scheduled.history[2]).toMatchObject({ from: 'accepted', role: 'provider', note: 'Requested time confirmed' })
+  })
+
+  it('captures the payment into escrow when the job is completed', async () => {
+    const scheduled = await acceptBooking(await book(), provider)
+    const started = await transitionBooking(scheduled, 'in_progress', provider)
+    const completed = await transitionBooking(started, 'completed', provider)
+
+    expect(completed.paymentStatus).toBe('captured')
+    expect(app.payments.intents()[0].status).toBe('succeeded')
+    const entries = await ledgerRepository.listByBooking(completed.id)
+    const cents = Math.round(completed.finalPrice * 100)
+    expect(entries).toMatchObject([
+      { kind: 'charge', account: 'cash', debit: cents },
+      { kind: 'charge', account: 'escrow', credit: cents }
+    ])
+    expect((await requestsRepository.get('req_fixture_cleaning'))?.status).toBe('completed')
+  })
+
+  it('re-authorizes the card when the customer agrees to a lower price', async () => {
+    const booking = await book()
+    const price = minimumAdjustedTotal(booking.quote!)
+    await expect(proposeChanges(booking, provider, { price: price - 0.01, note: '' })).rejects.toBeInstanceOf(PriceAdjustmentError)
+    expect((await bookingsRepository.get(booking.id))?.status).toBe('requested')
+
+    const proposed = await proposeChanges(booking, provider, { price, note: 'Smaller job than described' })
+    const scheduled = await respondToProposal(proposed, customer(), true)
+
+    expect(scheduled).toMatchObject({ status: 'scheduled', finalPrice: price, quote: { total: price } })
+    expect(scheduled.quote!.commission).toBeGreaterThanOrEqual(0)
+    expect(app.payments.intents().map(intent => intent.status)).toEqual(['canceled', 'requires_capture'])
+  })
+
+  it('releases the card hold when the provider declines', async () => {
+    const declined = await transitionBooking(await book(), 'declined', provider, 'Fully booked that week')
+
+    expect(declined.paymentStatus).toBe('voided')
+    expect(declined.history[1].note).toBe('Fully booked that week')
+    expect(app.backend.dump('slot_holds')).toEqual([])
+    // The customer can pick someone else
+    expect((await requestsRepository.get('req_fixture_cleaning'))?.status).toBe('pending')
+  })
+})
+
+describe('cancelling late', () => {
+  beforeEach(() => {
+    // Two hours before the job, well inside the free-cancellation window
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(START.getTime() - 2 * 60 * 60 * 1000))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps the late fee from the card hold when the customer cancels', async () => {
+    const scheduled = await acceptBooking(await book(), provider)
+    const cancelled = await transitionBooking(scheduled, 'cancelled', customer())
+
+    expect(cancelled.cancellationFee).toBe(Math.max(25, Math.round(scheduled.finalPrice * 50) / 100))
+    expect(cancelled.history[3].note).toMatch(/late fee/)
+    expect(app.payments.intents()[0]).toMatchObject({ status: 'succeeded', amountCaptured: Math.round(cancelled.cancellationFee! * 100) })
+    expect(app.backend.dump('slot_holds')).toEqual([])
+  })
+
+  it('refunds in full and credits the customer when the provider cancels', async () => {
+    const scheduled = await acceptBooking(await book(), provider)
+    const cancelled = await transitionBooking(scheduled, 'cancelled', provider)
+
+    expect(cancelled.paymentStatus).toBe('voided')
+    expect(cancelled.cancellationFee).toBeUndefined()
+    expect(await ledgerRepository.listByBooking(cancelled.id)).toMatchObject([
+      { kind: 'credit', account: 'credit_expense', debit: 2500 },
+      { kind: 'credit', account: 'customer_credits', credit: 2500 }
+    ])
+  })
+
+  it('no longer lets the customer move the booking', async () => {
+    const scheduled = await acceptBooking(await book(), provider)
+
+    await expect(rescheduleBooking(scheduled, customer(), new Date(START.getTime() + 24 * 60 * 60 * 1000)))
+      .rejects.toBeInstanceOf(RescheduleClosedError)
+    expect((await bookingsRepository.get(scheduled.id))?.scheduledTime).toBe(START.toISOString())
+  })
+})
@@ -0,0 +1,267 @@
+import { bookingsRepository, requestsRepository } from '../db/repository'
+import { PriceAdjustmentError, adjustQuote, minimumAdjustedTotal } from '../pricing'
+import { authorizeBooking, captureBooking, reauthorizeBooking, releaseBooking } from '../payments/bookings'
+import { toCents } from '../payments/provider'
+import { recordCredit } from '../ledger/credits'
+import { formatDateTime } from '../timezones'
+import { refreshReputation } from '../reviews/reputation'
+import { notifyBookingEvent } from '../notifications/events'
+import { confirmHold, moveBookingSlots, releaseBookingSlots } from './holds'
+import { RescheduleClosedError, canReschedule, cancellationTerms } from './cancellation'
+import type {
+  Booking,
+  BookingEvent,
+  BookingProposal,
+  BookingRole,
+  BookingStatus,
+  Provider,
+  RequestStatus
+} from '../../types'
+
+// The booking state machine. Every status change goes through
+// transitionBooking, which checks the actor's role, appends to the booking's
+// audit history and runs the payment side effects in the same write.
+// Cancelling applies the cancellation policy in ./cancellation.
+//
+//   requested → accepted | declined
+//   accepted → scheduled → in_progress → completed → reviewed
+//   cancelled from anything before the job starts; disputed once it has
+
+export interface BookingActor {
+  role: BookingRole
+  id: string
+}
+
+// Allowed next statuses and who may move the booking there
+const transitions: Record<BookingStatus, Partial<Record<BookingStatus, BookingRole[]>>> = {
+  requested: { accepted: ['provider'], declined: ['provider'], cancelled: ['customer', 'system'] },
+  accepted: { scheduled: ['provider', 'customer', 'system'], cancelled: ['customer', 'provider', 'system'] },
+  scheduled: { in_progress: ['provider'], cancelled: ['customer', 'provider', 'system'] },
+  in_progress: { completed: ['provider'], disputed: ['customer'] },
+  completed: { reviewed: ['customer'], disputed: ['customer'] },
+  // Support settles a dispute for one side or the other
+  disputed: { completed: ['system'], cancelled: ['system'] },
+  declined: {},
+  reviewed: {},
+  cancelled: {}
+}
+
+// What the request should show once its booking lands in these statuses
+const requestStatusFor: Partial<Record<BookingStatus, RequestStatus>> = {
+  // The customer can pick another provider
+  declined: 'pending',
+  completed: 'completed',
+  cancelled: 'cancelled'
+}
+
+export const bookingStatusLabels: Record<BookingStatus, string> = {
+  requested: 'Requested',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  scheduled: 'Scheduled',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  reviewed: 'Reviewed',
+  cancelled: 'Cancelled',
+  disputed: 'Disputed'
+}
+
+export class BookingTransitionError extends Error {
+  from: BookingStatus
+  to: BookingStatus
+  role: BookingRole
+
+  constructor(from: BookingStatus, to: BookingStatus, role: BookingRole) {
+    super(`A ${role} cannot move a booking from ${from} to ${to}`)
+    this.name = 'BookingTransitionError'
+    this.from = from
+    this.to = to
+    this.role = role
+  }
+}
+
+export const canTransition = (booking: Booking, to: BookingStatus, role: BookingRole) =>
+  transitions[booking.status][to]?.includes(role) ?? false
+
+export const availableTransitions = (booking: Booking, role: BookingRole): BookingStatus[] =>
+  (Object.keys(transitions[booking.status]) as BookingStatus[]).filter(to => canTransition(booking, to, role))
+
+// The signed-in user's side of a booking, if they are on it at all
+export const roleFor = (booking: Booking, userId: string, provider?: Pick<Provider, 'userId'> | null): BookingRole | null => {
+  if (booking.userId === userId) return 'customer'
+  if (provider?.userId === userId) return 'provider'
+  return null
+}
+
+// When the booking last entered a status
+export const enteredAt = (booking: Booking, status: BookingStatus): string | undefined =>
+  booking.history.filter(event => event.to === status).pop()?.at
+
+const heldPayments: Booking['paymentStatus'][] = ['authorized', 'captured', 'partially_refunded']
+
+export const transitionBooking = async (
+  booking: Booking,
+  to: BookingStatus,
+  actor: BookingActor,
+  note?: string,
+  // Other fields to write along with the status change
+  extra: Partial<Booking> = {}
+): Promise<Booking> => {
+  if (!canTransition(booking, to, actor.role)) throw new BookingTransitionError(booking.status, to, actor.role)
+
+  const terms = to === 'cancelled' ? cancellationTerms(booking, actor.role) : null
+  const policyNote = terms && terms.reason !== 'free' ? terms.summary : undefined
+  const event: BookingEvent = {
+    from: booking.status,
+    to,
+    role: actor.role,
+    actorId: actor.id,
+    at: new Date().toISOString(),
+    note: [note, policyNote].filter(Boolean).join('. ') || undefined
+  }
+  const changes: Partial<Booking> = { ...extra, status: to, history: [...booking.history, event] }
+
+  let updated: Booking
+  if (to === 'completed' && booking.paymentStatus !== 'captured') {
+    updated = await captureBooking(booking, changes)
+  } else if (terms && terms.fee > 0) {
+    // The late fee comes out of the card hold and the rest of it is released
+    updated = await captureBooking(booking, { ...changes, cancellationFee: terms.fee }, terms.fee)
+  } else if ((to === 'cancelled' || to === 'declined') && heldPayments.includes(booking.paymentStatus)) {
+    updated = await releaseBooking(booking, changes)
+  } else {
+    updated = await bookingsRepository.update(booking.id, changes)
+  }
+  if (terms && terms.credit > 0) await recordCredit(updated, toCents(terms.credit), terms.summary)
+  // The provider's completed job count comes from their bookings
+  if (to === 'completed') await refreshReputation(booking.providerId)
+  // Free the provider's calendar for other customers
+  if (to === 'cancelled' || to === 'declined') await releaseBookingSlots(booking.id)
+
+  const requestStatus = requestStatusFor[to]
+  if (requestStatus) await requestsRepository.update(booking.requestId, { status: requestStatus })
+  await notifyBookingEvent(updated, event)
+  return updated
+}
+
+// Moves the booking to a new start time on the provider's calendar, keeping
+// its status, price and card hold. The move is logged in the history under
+// the current status. Throws RescheduleClosedError once the policy no longer
+// allows a move and SlotTakenError if the new time isn't free.
+export const rescheduleBooking = async (booking: Booking, actor: BookingActor, start: Date): Promise<Booking> => {
+  if (!canReschedule(booking, actor.role)) throw new RescheduleClosedError()
+
+  await moveBookingSlots(booking, start)
+  const event: BookingEvent = {
+    from: booking.status,
+    to: booking.status,
+    role: actor.role,
+    actorId: actor.id,
+    at: new Date().toISOString(),
+    note: `Rescheduled from ${formatDateTime(booking.scheduledTime, booking.timeZone)}`
+  }
+  const updated = await bookingsRepository.update(booking.id, { scheduledTime: start.toISOString(), history: [...booking.history, event] })
+  await notifyBookingEvent(updated, event)
+  return updated
+}
+
+// Accepting keeps the time the customer picked, so the booking is scheduled
+// straight away
+export const acceptBooking = async (booking: Booking, actor: BookingActor): Promise<Booking> => {
+  const accepted = await transitionBooking(booking, 'accepted', actor)
+  return transitionBooking(accepted, 'scheduled', actor, 'Requested time confirmed')
+}
+
+// Accepts on condition of a different time and/or price. The booking waits
+// in 'accepted' until the customer answers with respondToProposal. Throws
+// PriceAdjustmentError for a price below the quote's minimumAdjustedTotal.
+export const proposeChanges = async (
+  booking: Booking,
+  actor: BookingActor,
+  proposal: Omit<BookingProposal, 'proposedAt'>
+): Promise<Booking> => {
+  if (proposal.price !== undefined && booking.quote) {
+    const minimum = minimumAdjustedTotal(booking.quote)
+    if (proposal.price < minimum) throw new PriceAdjustmentError(minimum)
+  }
+  return transitionBooking(booking, 'accepted', actor, proposal.note || 'Proposed changes', {
+    proposal: { ...proposal, proposedAt: new Date().toISOString() }
+  })
+}
+
+// Agreeing applies the proposal and schedules the booking, replacing the card
+// hold if the price changed; refusing cancels the booking.
+export const respondToProposal = async (booking: Booking, actor: BookingActor, agree: boolean): Promise<Booking> => {
+  const { proposal } = booking
+  if (!proposal) throw new Error(`Booking ${booking.id} has no proposal to answer`)
+  if (!agree) return transitionBooking(booking, 'cancelled', actor, 'Proposed changes declined', { proposal: undefined })
+
+  const changes: Partial<Booking> = {}
+  if (proposal.price !== undefined && proposal.price !== booking.finalPrice) {
+    changes.finalPrice = proposal.price
+    if (booking.quote) changes.quote = adjustQuote(booking.quote, proposal.price)
+  }
+  if (proposal.scheduledTime && proposal.scheduledTime !== booking.scheduledTime) {
+    // Throws SlotTakenError if the provider's new time clashes with another booking
+    await moveBookingSlots(booking, new Date(proposal.scheduledTime))
+    changes.scheduledTime = proposal.scheduledTime
+  }
+  if (changes.finalPrice === undefined) {
+    return transitionBooking(booking, 'scheduled', actor, 'Proposed changes accepted', { ...changes, proposal: undefined })
+  }
+  let repriced: Booking
+  try {
+    repriced = await reauthorizeBooking(booking, changes)
+  } catch (error) {
+    if (changes.scheduledTime) await moveBookingSlots(booking, new Date(booking.scheduledTime))
+    throw error
+  }
+  await requestsRepository.update(booking.requestId, { finalPrice: changes.finalPrice })
+  return transitionBooking(repriced, 'scheduled', actor, 'Proposed changes accepted', { proposal: undefined })
+}
+
+// Creates the booking as requested on the slot the customer is holding (see
+// ./holds) and places the card hold. A lapsed slot hold throws SlotTakenError
+// before the booking is written; a declined card cancels the booking and the
+// PaymentError is rethrown for the UI to show. Only the authorization can
+// cancel it.
+export const requestBooking = async (
+  booking: Omit<Booking, 'status' | 'paymentStatus' | 'history'>,
+  actor: BookingActor,
+  holdId: string
+): Promise<Booking> => {
+  await confirmHold(holdId, actor.id, booking.id)
+  let created: Booking
+  try {
+    created = await bookingsRepository.create({
+      ...booking,
+      status: 'requested',
+      paymentStatus: 'pending',
+      history: [{ from: null, to: 'requested', role: actor.role, actorId: actor.id, at: booking.createdAt }]
+    })
+  } catch (error) {
+    await releaseBookingSlots(booking.id)
+    throw error
+  }
+
+  let authorized: Booking
+  try {
+    authorized = await authorizeBooking(created)
+  } catch (error) {
+    const failed = await bookingsRepository.get(created.id)
+    if (failed) await transitionBooking(failed, 'cancelled', { role: 'system', id: 'payments' }, 'Card authorization failed')
+    // Keep the request open so the customer can try again
+    await requestsRepository.update(booking.requestId, { status: 'pending' })
+    throw error
+  }
+
+  // Failing to mark the request booked doesn't undo a booking whose card is
+  // already held; the request just stays listed as open
+  try {
+    await requestsRepository.update(booking.requestId, { status: 'booked', finalPrice: booking.finalPrice })
+  } catch (error) {
+    console.error('Error marking the request booked:', error)
+  }
+  await notifyBookingEvent(authorized, authorized.history[0])
+  return authorized
+}
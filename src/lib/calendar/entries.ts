@@ -0,0 +1,59 @@
+import { bookingsRepository, providersRepository, requestsRepository } from '../db/repository'
+import { bookingMinutes } from '../bookings/availability'
+import type { Booking, BookingRole, Provider, ServiceRequest } from '../../types'
+
+// A booking as it appears on someone's calendar: their side of it and the
+// details needed to describe it
+
+export interface CalendarEntry {
+  booking: Booking
+  role: Extract<BookingRole, 'customer' | 'provider'>
+  request: ServiceRequest | null
+  provider: Provider | null
+}
+
+export const entryStart = (entry: CalendarEntry) => new Date(entry.booking.scheduledTime)
+
+export const entryEnd = (entry: CalendarEntry) =>
+  new Date(entryStart(entry).getTime() + bookingMinutes(entry.booking) * 60 * 1000)
+
+export const entryTitle = ({ request, provider, role }: CalendarEntry) => {
+  const service = request?.service ?? 'Homi booking'
+  return role === 'customer' ? `${service} with ${provider?.name ?? 'your provider'}` : `${service} (Homi job)`
+}
+
+// Bookings that no longer happen; calendars show them as cancelled
+export const isCancelledEntry = ({ booking }: CalendarEntry) =>
+  booking.status === 'cancelled' || booking.status === 'declined'
+
+// Everything the user booked as a customer plus every job they have as a
+// provider, soonest first
+export const loadCalendarEntries = async (userId: string): Promise<CalendarEntry[]> => {
+  const [customerBookings, ownProvider] = await Promise.all([
+    bookingsRepository.listByUser(userId),
+    providersRepository.getByUser(userId)
+  ])
+  const providerBookings = ownProvider ? await bookingsRepository.listByProvider(ownProvider.id) : []
+
+  const providerIds = [...new Set(customerBookings.map(booking => booking.providerId))]
+  const providers = new Map((await Promise.all(providerIds.map(id => providersRepository.get(id))))
+    .flatMap(provider => (provider ? [[provider.id, provider] as const] : [])))
+  if (ownProvider) providers.set(ownProvider.id, ownProvider)
+
+  const tagged = [
+    ...customerBookings.map(booking => ({ booking, role: 'customer' as const })),
+    ...providerBookings.map(booking => ({ booking, role: 'provider' as const }))
+  ]
+  const requestIds = [...new Set(tagged.map(({ booking }) => booking.requestId))]
+  const requests = new Map((await Promise.all(requestIds.map(id => requestsRepository.get(id))))
+    .flatMap(request => (request ? [[request.id, request] as const] : [])))
+
+  return tagged
+    .map(({ booking, role }) => ({
+      booking,
+      role,
+      request: requests.get(booking.requestId) ?? null,
+      provider: providers.get(booking.providerId) ?? null
+    }))
+    .sort((a, b) => a.booking.scheduledTime.localeCompare(b.booking.scheduledTime))
+}
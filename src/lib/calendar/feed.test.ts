@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository } from '../db/repository'
+import { buildFeed, getOrCreateFeed, rotateFeed, serveFeed } from './feed'
+import type { Booking } from '../../types'
+
+const NOW = new Date('2030-01-05T12:00:00Z')
+const APP_URL = 'https://homi.example'
+
+let app: ReturnType<typeof resetLocalApp>
+
+const booking = (id: string, scheduledTime: string, changes: Partial<Booking> = {}) => bookingsRepository.create({
+  id,
+  requestId: 'req_fixture_cleaning',
+  providerId: 'prov_maria',
+  userId: app.user.id,
+  scheduledTime,
+  finalPrice: 180,
+  status: 'scheduled',
+  paymentStatus: 'authorized',
+  history: [{ from: null, to: 'requested', role: 'customer', actorId: app.user.id, at: '2029-12-01T00:00:00.000Z' }],
+  createdAt: '2029-12-01T00:00:00.000Z',
+  ...changes
+})
+
+const get = (path: string, method = 'GET') => serveFeed(new Request(`https://feeds.homi.example${path}`, { method }), APP_URL, NOW)
+
+const events = (body: string) => body.replace(/\r\n /g, '').split('BEGIN:VEVENT').slice(1)
+
+beforeEach(() => {
+  app = resetLocalApp()
+})
+
+describe('calendar feed tokens', () => {
+  it('gives each user one feed until they rotate it', async () => {
+    const feed = await getOrCreateFeed(app.user.id)
+    expect(feed.id).toMatch(/^feed_[0-9a-f]{32}$/)
+    expect((await getOrCreateFeed(app.user.id)).id).toBe(feed.id)
+
+    const rotated = await rotateFeed(app.user.id)
+    expect(rotated.id).not.toBe(feed.id)
+    expect(await buildFeed(feed.id, APP_URL, NOW)).toBeNull()
+    expect((await getOrCreateFeed(app.user.id)).id).toBe(rotated.id)
+  })
+})
+
+describe('serveFeed', () => {
+  it('serves upcoming, cancelled and recent bookings', async () => {
+    await booking('booking_next', '2030-01-07T17:00:00.000Z')
+    await booking('booking_off', '2030-01-08T17:00:00.000Z', { status: 'cancelled' })
+    await booking('booking_recent', '2029-12-20T17:00:00.000Z', { status: 'completed' })
+    await booking('booking_old', '2029-11-01T17:00:00.000Z', { status: 'completed' })
+    const feed = await getOrCreateFeed(app.user.id)
+
+    const response = await get(`/${feed.id}.ics`)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8')
+    expect(response.headers.get('Cache-Control')).toBe('no-store')
+    const body = events(await response.text())
+    expect(body.map(event => event.match(/UID:(\w+)@homi/)?.[1])).toEqual(['booking_recent', 'booking_next', 'booking_off'])
+    expect(body[2]).toContain('STATUS:CANCELLED')
+  })
+
+  it('shows a reschedule as the same event with a new time on the next poll', async () => {
+    const original = await booking('booking_next', '2030-01-07T17:00:00.000Z')
+    const feed = await getOrCreateFeed(app.user.id)
+    const before = events(await (await get(`/${feed.id}.ics`)).text())[0]
+
+    await bookingsRepository.update(original.id, {
+      scheduledTime: '2030-01-09T17:00:00.000Z',
+      history: [...original.history, { from: 'scheduled', to: 'scheduled', role: 'customer', actorId: app.user.id, at: '2030-01-05T11:00:00.000Z' }]
+    })
+    const after = events(await (await get(`/${feed.id}.ics`)).text())[0]
+
+    expect(before).toContain('SEQUENCE:1')
+    expect(before).toContain('DTSTART:20300107T170000Z')
+    expect(after).toContain('UID:booking_next@homi')
+    expect(after).toContain('SEQUENCE:2')
+    expect(after).toContain('DTSTART:20300109T170000Z')
+  })
+
+  it('answers unknown or revoked tokens and other methods with errors', async () => {
+    const feed = await getOrCreateFeed(app.user.id)
+    await rotateFeed(app.user.id)
+
+    expect((await get(`/${feed.id}.ics`)).status).toBe(404)
+    expect((await get('/feed_unknown.ics')).status).toBe(404)
+    expect((await get('/calendar')).status).toBe(404)
+    expect((await get('/feed_unknown.ics', 'POST')).status).toBe(405)
+  })
+})
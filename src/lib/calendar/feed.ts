@@ -0,0 +1,74 @@
+import { calendarFeedsRepository } from '../db/repository'
+import { icsCalendar } from './ics'
+import { entryEnd, loadCalendarEntries, type CalendarEntry } from './entries'
+import type { CalendarFeed } from '../../types'
+
+// Private ICS subscriptions. Each user gets a secret token; the feed service
+// at VITE_CALENDAR_FEED_URL answers GET /<token>.ics with buildFeed(token), so
+// calendar apps polling the URL pick up new, rescheduled and cancelled
+// bookings. Rotating the token kills the old URL.
+//
+// The service is serveFeed mounted in any Fetch-style runtime (an edge
+// function, a worker, Node 18+). It runs outside the browser, so it calls
+// setBlinkClient first with a client allowed to read every user's bookings.
+
+const baseUrl = (import.meta.env.VITE_CALENDAR_FEED_URL || '').replace(/\/$/, '')
+
+// Without a feed service users can still download a snapshot
+export const calendarFeedEnabled = baseUrl !== ''
+
+// Past bookings stay in the feed this long so recent jobs don't vanish
+export const FEED_PAST_DAYS = 30
+
+const newToken = () => `feed_${crypto.randomUUID().replace(/-/g, '')}`
+
+export const feedUrl = (feed: CalendarFeed) => (calendarFeedEnabled ? `${baseUrl}/${feed.id}.ics` : null)
+
+// Same URL for calendar apps that register the webcal scheme
+export const webcalUrl = (feed: CalendarFeed) => feedUrl(feed)?.replace(/^https?:/, 'webcal:') ?? null
+
+export const getOrCreateFeed = async (userId: string): Promise<CalendarFeed> =>
+  (await calendarFeedsRepository.getActiveByUser(userId)) ??
+  calendarFeedsRepository.create({ id: newToken(), userId, createdAt: new Date().toISOString() })
+
+export const rotateFeed = async (userId: string): Promise<CalendarFeed> => {
+  const current = await calendarFeedsRepository.getActiveByUser(userId)
+  if (current) await calendarFeedsRepository.update(current.id, { ...current, revokedAt: new Date().toISOString() })
+  return calendarFeedsRepository.create({ id: newToken(), userId, createdAt: new Date().toISOString() })
+}
+
+// Upcoming bookings plus the last FEED_PAST_DAYS. Cancelled ones stay in so
+// subscribed calendars mark them cancelled instead of keeping a stale event.
+export const feedEntries = (entries: CalendarEntry[], now = new Date()) => {
+  const cutoff = now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000
+  return entries.filter(entry => entryEnd(entry).getTime() >= cutoff)
+}
+
+// The feed body for a token, or null when the token is unknown or revoked
+export const buildFeed = async (token: string, appUrl: string, now = new Date()): Promise<string | null> => {
+  const feed = await calendarFeedsRepository.get(token)
+  if (!feed || feed.revokedAt) return null
+  return icsCalendar(feedEntries(await loadCalendarEntries(feed.userId), now), appUrl)
+}
+
+const FEED_PATH = /\/([\w-]+)\.ics$/
+
+// Handles GET <VITE_CALENDAR_FEED_URL>/<token>.ics. `appUrl` is where booking
+// links in the events point. Calendar apps poll, so the response must never
+// be cached along the way.
+export const serveFeed = async (request: Request, appUrl: string, now = new Date()): Promise<Response> => {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } })
+  }
+  const token = new URL(request.url).pathname.match(FEED_PATH)?.[1]
+  const body = token ? await buildFeed(token, appUrl, now) : null
+  if (body === null) return new Response('Calendar feed not found', { status: 404 })
+
+  return new Response(request.method === 'HEAD' ? null : body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'Content-Disposition': 'inline; filename="homi-bookings.ics"'
+    }
+  })
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { icsCalendar, icsEvent } from './ics'
+import type { CalendarEntry } from './entries'
+import type { Booking, BookingEvent } from '../../types'
+
+const requested: BookingEvent = { from: null, to: 'requested', role: 'customer', actorId: 'user_1', at: '2030-01-01T09:00:00.000Z' }
+
+const entry = (changes: Partial<Booking> = {}): CalendarEntry => ({
+  role: 'customer',
+  booking: {
+    id: 'booking_1',
+    requestId: 'req_1',
+    providerId: 'prov_1',
+    userId: 'user_1',
+    scheduledTime: '2030-01-07T17:00:00.000Z',
+    finalPrice: 180,
+    status: 'requested',
+    paymentStatus: 'authorized',
+    history: [requested],
+    createdAt: '2030-01-01T09:00:00.000Z',
+    ...changes
+  },
+  request: {
+    id: 'req_1',
+    userId: 'user_1',
+    service: 'Deep cleaning',
+    description: 'Two bedrooms; kitchen, bathroom',
+    inputText: '',
+    skills: [],
+    location: 'San Francisco, CA',
+    budget: 200,
+    timeline: 'Next week',
+    complexity: 'standard',
+    estimatedHours: 3,
+    flatPrice: 180,
+    status: 'booked',
+    createdAt: '2030-01-01T09:00:00.000Z'
+  },
+  provider: null
+})
+
+const field = (lines: string[], name: string) => lines.find(line => line.startsWith(`${name}:`))?.slice(name.length + 1)
+
+describe('icsEvent', () => {
+  it('describes the booking as a timed event', () => {
+    const lines = icsEvent(entry(), 'https://homi.example')
+
+    expect(field(lines, 'UID')).toBe('booking_1@homi')
+    expect(field(lines, 'DTSTART')).toBe('20300107T170000Z')
+    // No quote, so the default two-hour job
+    expect(field(lines, 'DTEND')).toBe('20300107T190000Z')
+    expect(field(lines, 'SUMMARY')).toBe('Deep cleaning with your provider')
+    expect(field(lines, 'LOCATION')).toBe('San Francisco\\, CA')
+    expect(field(lines, 'URL')).toBe('https://homi.example/bookings/booking_1')
+    expect(field(lines, 'STATUS')).toBe('TENTATIVE')
+    expect(field(lines, 'DESCRIPTION')).toContain('Two bedrooms\\; kitchen\\, bathroom\\n')
+  })
+
+  it('keeps the UID and bumps SEQUENCE when the booking changes', () => {
+    const scheduled = entry({
+      status: 'scheduled',
+      scheduledTime: '2030-01-08T17:00:00.000Z',
+      history: [requested, { ...requested, from: 'requested', to: 'accepted', at: '2030-01-02T09:00:00.000Z' }, { ...requested, from: 'accepted', to: 'scheduled', at: '2030-01-02T09:00:00.000Z' }]
+    })
+    const lines = icsEvent(scheduled, 'https://homi.example')
+
+    expect(field(lines, 'UID')).toBe('booking_1@homi')
+    expect(field(lines, 'SEQUENCE')).toBe('3')
+    expect(field(lines, 'DTSTAMP')).toBe('20300102T090000Z')
+    expect(field(lines, 'STATUS')).toBe('CONFIRMED')
+    expect(field(icsEvent(entry({ status: 'cancelled' }), ''), 'STATUS')).toBe('CANCELLED')
+  })
+})
+
+describe('icsCalendar', () => {
+  it('joins lines with CRLF and folds long ones', () => {
+    const long = entry()
+    long.request!.description = 'x'.repeat(200)
+    const calendar = icsCalendar([long], 'https://homi.example')
+    const lines = calendar.split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('END:VCALENDAR')
+    expect(lines.every(line => line.length <= 75)).toBe(true)
+    expect(lines.some(line => line.startsWith(' '))).toBe(true)
+    // Unfolding gives the original line back
+    expect(calendar.replace(/\r\n /g, '')).toContain(`DESCRIPTION:Status: Requested\\nPrice: $180.00\\n${'x'.repeat(200)}`)
+  })
+})
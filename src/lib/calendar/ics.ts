@@ -0,0 +1,82 @@
+import { formatMoney } from '../pricing'
+import { bookingStatusLabels } from '../bookings/lifecycle'
+import { entryEnd, entryStart, entryTitle, isCancelledEntry, type CalendarEntry } from './entries'
+
+// iCalendar (RFC 5545) output for bookings. Each booking keeps the same UID
+// for its whole life and its SEQUENCE grows with every status change, so
+// calendar apps replace the event when it is rescheduled and strike it out
+// when it is cancelled.
+
+const PRODUCT_ID = '-//Homi//Bookings//EN'
+
+// 20261019T143000Z
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Lines longer than 75 characters continue on the next line after a space
+const fold = (line: string) => {
+  if (line.length <= 75) return line
+  const parts = [line.slice(0, 75)]
+  for (let index = 75; index < line.length; index += 74) parts.push(line.slice(index, index + 74))
+  return parts.join('\r\n ')
+}
+
+const eventStatus = (entry: CalendarEntry) => {
+  if (isCancelledEntry(entry)) return 'CANCELLED'
+  return entry.booking.status === 'requested' || entry.booking.status === 'accepted' ? 'TENTATIVE' : 'CONFIRMED'
+}
+
+// `appUrl` is where the booking page lives, e.g. window.location.origin
+export const icsEvent = (entry: CalendarEntry, appUrl: string): string[] => {
+  const { booking, request } = entry
+  const link = `${appUrl}/bookings/${booking.id}`
+  const lastChange = booking.history[booking.history.length - 1]?.at ?? booking.createdAt
+  const description = [
+    `Status: ${bookingStatusLabels[booking.status]}`,
+    `Price: ${formatMoney(booking.finalPrice)}`,
+    request?.description,
+    link
+  ].filter(Boolean).join('\n')
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@homi`,
+    `SEQUENCE:${booking.history.length}`,
+    `DTSTAMP:${icsDate(new Date(lastChange))}`,
+    `DTSTART:${icsDate(entryStart(entry))}`,
+    `DTEND:${icsDate(entryEnd(entry))}`,
+    `SUMMARY:${escapeText(entryTitle(entry))}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(request?.location ? [`LOCATION:${escapeText(request.location)}`] : []),
+    `URL:${link}`,
+    `STATUS:${eventStatus(entry)}`,
+    'END:VEVENT'
+  ]
+}
+
+export const icsCalendar = (entries: CalendarEntry[], appUrl: string, name = 'Homi bookings'): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...entries.flatMap(entry => icsEvent(entry, appUrl)),
+    'END:VCALENDAR',
+    ''
+  ].map(fold).join('\r\n')
+
+export const downloadIcs = (entries: CalendarEntry[], filename: string) => {
+  const blob = new Blob([icsCalendar(entries, window.location.origin)], { type: 'text/calendar' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const downloadBookingIcs = (entry: CalendarEntry) => downloadIcs([entry], `homi-booking-${entry.booking.id}.ics`)
@@ -0,0 +1,255 @@
+import type { AvailabilitySchedule, Booking, BookingEvent, BookingMessage, BookingProposal, CalendarFeed, CustomerRating, LedgerEntry, MessageAttachment, NotificationChannelKind, NotificationPreferences, PayoutBatch, Provider, Quote, RequestConversation, Review, ServiceRequest, SlotHold, UserNotification } from '../../types'
+import type { BookingMessageRow, BookingRow, CalendarFeedRow, CustomerRatingRow, LedgerEntryRow, NotificationPreferencesRow, NotificationRow, PayoutBatchRow, ProviderRow, RequestRow, ReviewRow, SlotHoldRow } from './schema'
+
+// Conversions between validated table rows (./schema) and the domain model
+
+// Skills are stored as a JSON array string; older rows may hold a comma list
+export const parseSkills = (value: string | string[] | null | undefined): string[] => {
+  if (Array.isArray(value)) return value
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)]
+  } catch {
+    return value.split(',').map(s => s.trim()).filter(Boolean)
+  }
+}
+
+// JSON columns holding nested objects; unreadable values are dropped
+const parseJson = <T,>(value: string, isValid: (parsed: any) => boolean): T | undefined => {
+  if (!value) return undefined
+  try {
+    const parsed = JSON.parse(value)
+    return isValid(parsed) ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const parseConversation = (value: string) =>
+  parseJson<RequestConversation>(value, parsed => Array.isArray(parsed?.messages))
+
+const parseSchedule = (value: string) =>
+  parseJson<AvailabilitySchedule>(value, parsed => Array.isArray(parsed?.weekly) && parsed.weekly.length === 7)
+
+const parseHistory = (value: string) =>
+  parseJson<BookingEvent[]>(value, Array.isArray) ?? []
+
+const parseProposal = (value: string) =>
+  parseJson<BookingProposal>(value, parsed => typeof parsed?.proposedAt === 'string')
+
+const parseQuote = (value: string) =>
+  parseJson<Quote>(value, parsed => Array.isArray(parsed?.lines) && typeof parsed?.total === 'number')
+
+const parseAttachments = (value: string) =>
+  parseJson<MessageAttachment[]>(value, Array.isArray) ?? []
+
+const parsePushSubscription = (value: string) =>
+  parseJson<PushSubscriptionJSON>(value, parsed => typeof parsed?.endpoint === 'string')
+
+export const toServiceRequest = (row: RequestRow): ServiceRequest => {
+  const skills = parseSkills(row.skillsNeeded)
+  return {
+    id: row.id,
+    userId: row.userId,
+    service: row.parsedTaskType,
+    description: row.description || row.inputText,
+    inputText: row.inputText,
+    skills: skills.length > 0 ? skills : [row.parsedTaskType].filter(Boolean),
+    location: row.location,
+    budget: row.budget,
+    timeline: row.timeline,
+    complexity: row.complexity,
+    estimatedHours: row.estimatedHours,
+    flatPrice: row.flatPrice,
+    finalPrice: row.finalPrice,
+    status: row.status,
+    createdAt: row.createdAt,
+    conversation: parseConversation(row.conversation)
+  }
+}
+
+export const toRequestRow = (request: ServiceRequest): RequestRow => ({
+  id: request.id,
+  userId: request.userId,
+  inputText: request.inputText,
+  parsedTaskType: request.service,
+  description: request.description,
+  skillsNeeded: JSON.stringify(request.skills),
+  location: request.location,
+  timeline: request.timeline,
+  complexity: request.complexity,
+  budget: request.budget,
+  estimatedHours: request.estimatedHours,
+  flatPrice: request.flatPrice,
+  finalPrice: request.finalPrice,
+  confirmed: request.status !== 'draft',
+  status: request.status,
+  conversation: request.conversation ? JSON.stringify(request.conversation) : '',
+  createdAt: request.createdAt
+})
+
+export const toProvider = (row: ProviderRow): Provider => ({
+  id: row.id,
+  userId: row.userId,
+  name: row.name,
+  bio: row.bio,
+  skills: parseSkills(row.skills),
+  hourlyRate: row.hourlyRate,
+  location: row.location,
+  availability: row.availability,
+  schedule: parseSchedule(row.schedule),
+  rating: row.rating,
+  reviewCount: row.reviewCount,
+  completedJobs: row.completedJobs,
+  minCustomerReliability: row.minCustomerReliability,
+  profileImage: row.profileImage
+})
+
+export const toProviderRow = (provider: Provider): ProviderRow => ({
+  id: provider.id,
+  userId: provider.userId,
+  name: provider.name,
+  bio: provider.bio,
+  skills: JSON.stringify(provider.skills),
+  hourlyRate: provider.hourlyRate,
+  location: provider.location,
+  availability: provider.availability,
+  schedule: provider.schedule ? JSON.stringify(provider.schedule) : '',
+  rating: provider.rating,
+  reviewCount: provider.reviewCount,
+  completedJobs: provider.completedJobs,
+  minCustomerReliability: provider.minCustomerReliability,
+  profileImage: provider.profileImage
+})
+
+export const toBooking = (row: BookingRow): Booking => ({
+  ...row,
+  timeZone: row.timeZone || undefined,
+  paymentIntentId: row.paymentIntentId || undefined,
+  history: parseHistory(row.history),
+  proposal: parseProposal(row.proposal),
+  quote: parseQuote(row.quote)
+})
+
+export const toBookingRow = (booking: Booking): BookingRow => ({
+  ...booking,
+  timeZone: booking.timeZone ?? '',
+  paymentIntentId: booking.paymentIntentId ?? '',
+  history: JSON.stringify(booking.history),
+  proposal: booking.proposal ? JSON.stringify(booking.proposal) : '',
+  quote: booking.quote ? JSON.stringify(booking.quote) : ''
+})
+
+export const toLedgerEntry = (row: LedgerEntryRow): LedgerEntry => ({
+  ...row,
+  bookingId: row.bookingId || undefined,
+  providerId: row.providerId || undefined,
+  payoutBatchId: row.payoutBatchId || undefined
+})
+
+export const toLedgerEntryRow = (entry: LedgerEntry): LedgerEntryRow => ({
+  ...entry,
+  bookingId: entry.bookingId ?? '',
+  providerId: entry.providerId ?? '',
+  payoutBatchId: entry.payoutBatchId ?? ''
+})
+
+export const toPayoutBatch = (row: PayoutBatchRow): PayoutBatch => ({
+  ...row,
+  bookingIds: parseJson<string[]>(row.bookingIds, Array.isArray) ?? [],
+  paidAt: row.paidAt || undefined
+})
+
+export const toPayoutBatchRow = (batch: PayoutBatch): PayoutBatchRow => ({
+  ...batch,
+  bookingIds: JSON.stringify(batch.bookingIds),
+  paidAt: batch.paidAt ?? ''
+})
+
+export const toSlotHold = (row: SlotHoldRow): SlotHold => ({
+  ...row,
+  bookingId: row.bookingId || undefined,
+  expiresAt: row.expiresAt || undefined
+})
+
+export const toSlotHoldRow = (hold: SlotHold): SlotHoldRow => ({
+  ...hold,
+  bookingId: hold.bookingId ?? '',
+  expiresAt: hold.expiresAt ?? ''
+})
+
+export const toCalendarFeed = (row: CalendarFeedRow): CalendarFeed => ({
+  ...row,
+  revokedAt: row.revokedAt || undefined
+})
+
+export const toCalendarFeedRow = (feed: CalendarFeed): CalendarFeedRow => ({
+  ...feed,
+  revokedAt: feed.revokedAt ?? ''
+})
+
+export const toReview = (row: ReviewRow): Review => ({
+  ...row,
+  reply: row.reply || undefined,
+  repliedAt: row.repliedAt || undefined
+})
+
+export const toReviewRow = (review: Review): ReviewRow => ({
+  ...review,
+  reply: review.reply ?? '',
+  repliedAt: review.repliedAt ?? ''
+})
+
+export const toCustomerRating = (row: CustomerRatingRow): CustomerRating => ({ ...row })
+
+export const toCustomerRatingRow = (rating: CustomerRating): CustomerRatingRow => ({ ...rating })
+
+export const toBookingMessage = (row: BookingMessageRow): BookingMessage => ({
+  ...row,
+  attachments: parseAttachments(row.attachments),
+  readAt: row.readAt || undefined
+})
+
+export const toBookingMessageRow = (message: BookingMessage): BookingMessageRow => ({
+  ...message,
+  attachments: JSON.stringify(message.attachments),
+  readAt: message.readAt ?? ''
+})
+
+export const toNotification = (row: NotificationRow): UserNotification => ({
+  ...row,
+  bookingId: row.bookingId || undefined,
+  requestId: row.requestId || undefined,
+  readAt: row.readAt || undefined
+})
+
+export const toNotificationRow = (notification: UserNotification): NotificationRow => ({
+  ...notification,
+  bookingId: notification.bookingId ?? '',
+  requestId: notification.requestId ?? '',
+  readAt: notification.readAt ?? ''
+})
+
+export const toNotificationPreferences = (row: NotificationPreferencesRow): NotificationPreferences => {
+  const enabled: Record<NotificationChannelKind, boolean> = { email: row.emailEnabled, sms: row.smsEnabled, push: row.pushEnabled }
+  return {
+    userId: row.id,
+    channels: (Object.keys(enabled) as NotificationChannelKind[]).filter(channel => enabled[channel]),
+    email: row.email,
+    phone: row.phone,
+    pushSubscription: parsePushSubscription(row.pushSubscription),
+    updatedAt: row.updatedAt
+  }
+}
+
+export const toNotificationPreferencesRow = (preferences: NotificationPreferences): NotificationPreferencesRow => ({
+  id: preferences.userId,
+  emailEnabled: preferences.channels.includes('email'),
+  smsEnabled: preferences.channels.includes('sms'),
+  pushEnabled: preferences.channels.includes('push'),
+  email: preferences.email,
+  phone: preferences.phone,
+  pushSubscription: preferences.pushSubscription ? JSON.stringify(preferences.pushSubscription) : '',
+  updatedAt: preferences.updatedAt
+})
@@ -0,0 +1,57 @@
+import { SCHEMA_VERSION, normalizeLegacyRow, tableSchemas, type TableName } from './schema'
+import { tables } from './repository'
+
+export interface BackfillReport {
+  table: TableName
+  scanned: number
+  migrated: number
+  invalid: string[]
+}
+
+const PAGE_SIZE = 100
+
+// Rewrites rows that still use legacy column names (see `legacyColumns` in
+// ./schema) into the canonical layout. Rows that cannot be repaired are left
+// untouched and reported by id.
+export const backfillTable = async (table: TableName, where?: Record<string, unknown>): Promise<BackfillReport> => {
+  const report: BackfillReport = { table, scanned: 0, migrated: 0, invalid: [] }
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await tables[table].raw().list({ where, limit: PAGE_SIZE, offset })
+
+    for (const raw of page) {
+      report.scanned += 1
+      const { row, changed } = normalizeLegacyRow(table, raw)
+      const result = tableSchemas[table].safeParse(row)
+
+      if (!result.success) {
+        report.invalid.push(String(raw.id))
+        continue
+      }
+      if (changed) {
+        await tables[table].raw().update(String(raw.id), result.data)
+        report.migrated += 1
+      }
+    }
+
+    if (page.length < PAGE_SIZE) break
+  }
+
+  return report
+}
+
+const versionKey = (userId: string) => `homi:schema-version:${userId}`
+
+// Backfills the signed-in user's own rows once per schema version
+export const migrateUserData = async (userId: string): Promise<BackfillReport[]> => {
+  if (Number(localStorage.getItem(versionKey(userId))) >= SCHEMA_VERSION) return []
+
+  const reports = await Promise.all([
+    backfillTable('requests', { userId }),
+    backfillTable('providers', { userId }),
+    backfillTable('bookings', { userId })
+  ])
+
+  localStorage.setItem(versionKey(userId), String(SCHEMA_VERSION))
+  return reports
+}
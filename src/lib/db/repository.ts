@@ -0,0 +1,359 @@
+import type { QueryOptions } from '@blinkdotnew/sdk'
+import { blink } from '../../blink/client'
+import type { Booking, BookingMessage, CalendarFeed, CustomerRating, LedgerEntry, NotificationPreferences, PayoutBatch, Provider, Review, ServiceRequest, SlotHold, UserNotification } from '../../types'
+import {
+  SchemaValidationError,
+  normalizeLegacyRow,
+  tableSchemas,
+  type BookingMessageRow,
+  type BookingRow,
+  type CalendarFeedRow,
+  type CustomerRatingRow,
+  type LedgerEntryRow,
+  type NotificationPreferencesRow,
+  type NotificationRow,
+  type PayoutBatchRow,
+  type ProviderRow,
+  type RequestRow,
+  type ReviewRow,
+  type SlotHoldRow,
+  type TableName
+} from './schema'
+import {
+  toBooking,
+  toBookingMessage,
+  toBookingMessageRow,
+  toBookingRow,
+  toCalendarFeed,
+  toCalendarFeedRow,
+  toCustomerRating,
+  toCustomerRatingRow,
+  toLedgerEntry,
+  toLedgerEntryRow,
+  toNotification,
+  toNotificationPreferences,
+  toNotificationPreferencesRow,
+  toNotificationRow,
+  toPayoutBatch,
+  toPayoutBatchRow,
+  toProvider,
+  toProviderRow,
+  toRequestRow,
+  toReview,
+  toReviewRow,
+  toServiceRequest,
+  toSlotHold,
+  toSlotHoldRow
+} from './mappers'
+
+// The only module that talks to blink.db for the app's own tables. Every row
+// is validated against ./schema on the way in and on the way out.
+
+type RowFor<T extends TableName> = {
+  requests: RequestRow
+  providers: ProviderRow
+  bookings: BookingRow
+  ledger_entries: LedgerEntryRow
+  payout_batches: PayoutBatchRow
+  slot_holds: SlotHoldRow
+  calendar_feeds: CalendarFeedRow
+  reviews: ReviewRow
+  customer_ratings: CustomerRatingRow
+  booking_messages: BookingMessageRow
+  notifications: NotificationRow
+  notification_preferences: NotificationPreferencesRow
+}[T]
+
+export const parseRow = <T extends TableName>(table: T, raw: unknown): RowFor<T> => {
+  const { row } = normalizeLegacyRow(table, (raw ?? {}) as Record<string, unknown>)
+  const result = tableSchemas[table].safeParse(row)
+  if (!result.success) throw new SchemaValidationError(table, result.error.issues)
+  return result.data as RowFor<T>
+}
+
+// A create that hit an id already in the table
+export const isDuplicateKeyError = (error: unknown) =>
+  error instanceof Error && /duplicate|unique|constraint/i.test(error.message)
+
+// Skip (and report) rows that cannot be read rather than failing the whole list
+const parseRows = <T extends TableName>(table: T, rows: unknown[]): RowFor<T>[] =>
+  rows.flatMap(raw => {
+    try {
+      return [parseRow(table, raw)]
+    } catch (error) {
+      console.error(`Skipping unreadable ${table} row:`, error)
+      return []
+    }
+  })
+
+const createTable = <T extends TableName>(table: T) => {
+  const db = () => blink.db.table<Record<string, unknown>>(table)
+
+  return {
+    async get(id: string): Promise<RowFor<T> | null> {
+      const raw = await db().get(id)
+      return raw ? parseRow(table, raw) : null
+    },
+    async list(options?: QueryOptions): Promise<RowFor<T>[]> {
+      return parseRows(table, await db().list(options))
+    },
+    async create(row: RowFor<T>): Promise<RowFor<T>> {
+      const valid = parseRow(table, row)
+      await db().create(valid)
+      return valid
+    },
+    async update(id: string, row: RowFor<T>): Promise<RowFor<T>> {
+      const valid = parseRow(table, row)
+      await db().update(id, valid)
+      return valid
+    },
+    async delete(id: string): Promise<void> {
+      await db().delete(id)
+    },
+    raw: db
+  }
+}
+
+export const tables = {
+  requests: createTable('requests'),
+  providers: createTable('providers'),
+  bookings: createTable('bookings'),
+  ledger_entries: createTable('ledger_entries'),
+  payout_batches: createTable('payout_batches'),
+  slot_holds: createTable('slot_holds'),
+  calendar_feeds: createTable('calendar_feeds'),
+  reviews: createTable('reviews'),
+  customer_ratings: createTable('customer_ratings'),
+  booking_messages: createTable('booking_messages'),
+  notifications: createTable('notifications'),
+  notification_preferences: createTable('notification_preferences')
+}
+
+export const requestsRepository = {
+  async get(id: string): Promise<ServiceRequest | null> {
+    const row = await tables.requests.get(id)
+    return row && toServiceRequest(row)
+  },
+  async listByUser(userId: string): Promise<ServiceRequest[]> {
+    const rows = await tables.requests.list({ where: { userId }, orderBy: { createdAt: 'desc' } })
+    return rows.map(toServiceRequest)
+  },
+  // Submitted requests nobody has booked yet, newest first
+  async listOpen(limit = 100): Promise<ServiceRequest[]> {
+    const rows = await tables.requests.list({ where: { status: 'pending' }, orderBy: { createdAt: 'desc' }, limit })
+    return rows.map(toServiceRequest)
+  },
+  async create(request: ServiceRequest): Promise<ServiceRequest> {
+    return toServiceRequest(await tables.requests.create(toRequestRow(request)))
+  },
+  async update(id: string, changes: Partial<Omit<ServiceRequest, 'id'>>): Promise<ServiceRequest> {
+    const current = await requestsRepository.get(id)
+    if (!current) throw new Error(`Request ${id} not found`)
+    return toServiceRequest(await tables.requests.update(id, toRequestRow({ ...current, ...changes })))
+  },
+  // Create or overwrite, used by the intake chat as a draft evolves
+  async save(request: ServiceRequest): Promise<ServiceRequest> {
+    const existing = await tables.requests.get(request.id)
+    const row = toRequestRow(request)
+    return toServiceRequest(existing ? await tables.requests.update(request.id, row) : await tables.requests.create(row))
+  }
+}
+
+export const providersRepository = {
+  async get(id: string): Promise<Provider | null> {
+    const row = await tables.providers.get(id)
+    return row && toProvider(row)
+  },
+  async getByUser(userId: string): Promise<Provider | null> {
+    const [row] = await tables.providers.list({ where: { userId }, limit: 1 })
+    return row ? toProvider(row) : null
+  },
+  async list(limit = 500): Promise<Provider[]> {
+    return (await tables.providers.list({ limit })).map(toProvider)
+  },
+  async save(provider: Provider): Promise<Provider> {
+    const existing = await tables.providers.get(provider.id)
+    const row = toProviderRow(provider)
+    return toProvider(existing ? await tables.providers.update(provider.id, row) : await tables.providers.create(row))
+  }
+}
+
+export const bookingsRepository = {
+  async get(id: string): Promise<Booking | null> {
+    const row = await tables.bookings.get(id)
+    return row && toBooking(row)
+  },
+  async listByUser(userId: string): Promise<Booking[]> {
+    const rows = await tables.bookings.list({ where: { userId }, orderBy: { createdAt: 'desc' } })
+    return rows.map(toBooking)
+  },
+  async listByProvider(providerId: string): Promise<Booking[]> {
+    const rows = await tables.bookings.list({ where: { providerId }, orderBy: { createdAt: 'desc' } })
+    return rows.map(toBooking)
+  },
+  async create(booking: Booking): Promise<Booking> {
+    return toBooking(await tables.bookings.create(toBookingRow(booking)))
+  },
+  async update(id: string, changes: Partial<Omit<Booking, 'id'>>): Promise<Booking> {
+    const current = await bookingsRepository.get(id)
+    if (!current) throw new Error(`Booking ${id} not found`)
+    return toBooking(await tables.bookings.update(id, toBookingRow({ ...current, ...changes })))
+  }
+}
+
+// Ledger entries are append-only: transactions are corrected by posting new ones
+export const ledgerRepository = {
+  async listByProvider(providerId: string): Promise<LedgerEntry[]> {
+    const rows = await tables.ledger_entries.list({ where: { providerId }, orderBy: { createdAt: 'asc' } })
+    return rows.map(toLedgerEntry)
+  },
+  async listByBooking(bookingId: string): Promise<LedgerEntry[]> {
+    const rows = await tables.ledger_entries.list({ where: { bookingId }, orderBy: { createdAt: 'asc' } })
+    return rows.map(toLedgerEntry)
+  },
+  async create(entry: LedgerEntry): Promise<LedgerEntry> {
+    return toLedgerEntry(await tables.ledger_entries.create(toLedgerEntryRow(entry)))
+  }
+}
+
+export const payoutBatchesRepository = {
+  async get(id: string): Promise<PayoutBatch | null> {
+    const row = await tables.payout_batches.get(id)
+    return row && toPayoutBatch(row)
+  },
+  async listByProvider(providerId: string): Promise<PayoutBatch[]> {
+    const rows = await tables.payout_batches.list({ where: { providerId }, orderBy: { scheduledFor: 'desc' } })
+    return rows.map(toPayoutBatch)
+  },
+  async create(batch: PayoutBatch): Promise<PayoutBatch> {
+    return toPayoutBatch(await tables.payout_batches.create(toPayoutBatchRow(batch)))
+  },
+  async update(id: string, batch: PayoutBatch): Promise<PayoutBatch> {
+    return toPayoutBatch(await tables.payout_batches.update(id, toPayoutBatchRow(batch)))
+  }
+}
+
+// create fails when a cell is already claimed; that is how holds stay exclusive
+export const slotHoldsRepository = {
+  async get(id: string): Promise<SlotHold | null> {
+    const row = await tables.slot_holds.get(id)
+    return row && toSlotHold(row)
+  },
+  async listByProvider(providerId: string): Promise<SlotHold[]> {
+    const rows = await tables.slot_holds.list({ where: { providerId }, orderBy: { startsAt: 'asc' } })
+    return rows.map(toSlotHold)
+  },
+  async listByHold(holdId: string): Promise<SlotHold[]> {
+    return (await tables.slot_holds.list({ where: { holdId } })).map(toSlotHold)
+  },
+  async listByBooking(bookingId: string): Promise<SlotHold[]> {
+    return (await tables.slot_holds.list({ where: { bookingId } })).map(toSlotHold)
+  },
+  async create(hold: SlotHold): Promise<SlotHold> {
+    return toSlotHold(await tables.slot_holds.create(toSlotHoldRow(hold)))
+  },
+  async update(id: string, hold: SlotHold): Promise<SlotHold> {
+    return toSlotHold(await tables.slot_holds.update(id, toSlotHoldRow(hold)))
+  },
+  async delete(id: string): Promise<void> {
+    await tables.slot_holds.delete(id)
+  }
+}
+
+export const calendarFeedsRepository = {
+  async get(token: string): Promise<CalendarFeed | null> {
+    const row = await tables.calendar_feeds.get(token)
+    return row && toCalendarFeed(row)
+  },
+  // The user's current feed, if they have one
+  async getActiveByUser(userId: string): Promise<CalendarFeed | null> {
+    const rows = await tables.calendar_feeds.list({ where: { userId, revokedAt: '' }, orderBy: { createdAt: 'desc' }, limit: 1 })
+    return rows[0] ? toCalendarFeed(rows[0]) : null
+  },
+  async create(feed: CalendarFeed): Promise<CalendarFeed> {
+    return toCalendarFeed(await tables.calendar_feeds.create(toCalendarFeedRow(feed)))
+  },
+  async update(token: string, feed: CalendarFeed): Promise<CalendarFeed> {
+    return toCalendarFeed(await tables.calendar_feeds.update(token, toCalendarFeedRow(feed)))
+  }
+}
+
+export const reviewsRepository = {
+  async get(id: string): Promise<Review | null> {
+    const row = await tables.reviews.get(id)
+    return row && toReview(row)
+  },
+  async listByProvider(providerId: string): Promise<Review[]> {
+    const rows = await tables.reviews.list({ where: { providerId }, orderBy: { createdAt: 'desc' } })
+    return rows.map(toReview)
+  },
+  async create(review: Review): Promise<Review> {
+    return toReview(await tables.reviews.create(toReviewRow(review)))
+  },
+  async update(id: string, review: Review): Promise<Review> {
+    return toReview(await tables.reviews.update(id, toReviewRow(review)))
+  }
+}
+
+export const customerRatingsRepository = {
+  async get(id: string): Promise<CustomerRating | null> {
+    const row = await tables.customer_ratings.get(id)
+    return row && toCustomerRating(row)
+  },
+  async listByUser(userId: string): Promise<CustomerRating[]> {
+    const rows = await tables.customer_ratings.list({ where: { userId }, orderBy: { createdAt: 'desc' } })
+    return rows.map(toCustomerRating)
+  },
+  async listByProvider(providerId: string): Promise<CustomerRating[]> {
+    const rows = await tables.customer_ratings.list({ where: { providerId }, orderBy: { createdAt: 'desc' } })
+    return rows.map(toCustomerRating)
+  },
+  async create(rating: CustomerRating): Promise<CustomerRating> {
+    return toCustomerRating(await tables.customer_ratings.create(toCustomerRatingRow(rating)))
+  }
+}
+
+export const messagesRepository = {
+  // Oldest first, the order a thread reads in
+  async listByBooking(bookingId: string): Promise<BookingMessage[]> {
+    const rows = await tables.booking_messages.list({ where: { bookingId }, orderBy: { createdAt: 'asc' } })
+    return rows.map(toBookingMessage)
+  },
+  async listByRecipient(recipientId: string): Promise<BookingMessage[]> {
+    const rows = await tables.booking_messages.list({ where: { recipientId }, orderBy: { createdAt: 'desc' } })
+    return rows.map(toBookingMessage)
+  },
+  async create(message: BookingMessage): Promise<BookingMessage> {
+    return toBookingMessage(await tables.booking_messages.create(toBookingMessageRow(message)))
+  },
+  async update(id: string, message: BookingMessage): Promise<BookingMessage> {
+    return toBookingMessage(await tables.booking_messages.update(id, toBookingMessageRow(message)))
+  }
+}
+
+export const notificationsRepository = {
+  async listByUser(userId: string, limit = 50): Promise<UserNotification[]> {
+    const rows = await tables.notifications.list({ where: { userId }, orderBy: { createdAt: 'desc' }, limit })
+    return rows.map(toNotification)
+  },
+  async create(notification: UserNotification): Promise<UserNotification> {
+    return toNotification(await tables.notifications.create(toNotificationRow(notification)))
+  },
+  async update(id: string, notification: UserNotification): Promise<UserNotification> {
+    return toNotification(await tables.notifications.update(id, toNotificationRow(notification)))
+  }
+}
+
+export const notificationPreferencesRepository = {
+  async get(userId: string): Promise<NotificationPreferences | null> {
+    const row = await tables.notification_preferences.get(userId)
+    return row && toNotificationPreferences(row)
+  },
+  async save(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const existing = await tables.notification_preferences.get(preferences.userId)
+    const row = toNotificationPreferencesRow(preferences)
+    return toNotificationPreferences(
+      existing ? await tables.notification_preferences.update(row.id, row) : await tables.notification_preferences.create(row)
+    )
+  }
+}
@@ -0,0 +1,391 @@
+import { z } from 'zod'
+
+// Canonical column layout for every table the app uses. blink.db converts
+// column names to camelCase on read and back to snake_case on write, so the
+// schemas below describe rows as the SDK hands them to us (e.g. `user_id` is
+// `userId`). All reads and writes go through these schemas in ./repository.
+
+export const SCHEMA_VERSION = 3
+
+// SQLite hands back numbers and booleans as strings on some columns
+const numeric = z.preprocess(
+  value => (value === null || value === undefined || value === '' ? undefined : Number(value)),
+  z.number().finite().nonnegative()
+)
+const text = z.preprocess(value => value ?? undefined, z.string())
+const optionalText = z.preprocess(value => value ?? undefined, z.string().default(''))
+const optionalNumeric = z.preprocess(
+  value => (value === null || value === undefined || value === '' ? undefined : Number(value)),
+  z.number().finite().nonnegative().optional()
+)
+const flag = z.preprocess(
+  value => value === true || value === 1 || value === '1' || value === 'true',
+  z.boolean()
+)
+// Whole-star ratings, 1–5
+const stars = z.preprocess(Number, z.number().int().min(1).max(5))
+
+export const requestStatuses = ['draft', 'pending', 'booked', 'completed', 'cancelled'] as const
+export const bookingStatuses = [
+  'requested',
+  'accepted',
+  'declined',
+  'scheduled',
+  'in_progress',
+  'completed',
+  'reviewed',
+  'cancelled',
+  'disputed'
+] as const
+export const paymentStatuses = [
+  'pending',
+  'authorized',
+  'captured',
+  'voided',
+  'refunded',
+  'partially_refunded',
+  'failed'
+] as const
+export const complexities = ['simple', 'standard', 'complex'] as const
+export const ledgerAccounts = [
+  'cash',
+  'escrow',
+  'provider_payable',
+  'commission_revenue',
+  'fee_revenue',
+  'tax_payable',
+  'discounts',
+  'refund_losses',
+  'customer_credits',
+  'credit_expense'
+] as const
+export const ledgerEntryKinds = ['charge', 'release', 'refund', 'payout', 'credit'] as const
+export const payoutBatchStatuses = ['scheduled', 'paid'] as const
+
+export const requestRowSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  inputText: optionalText,
+  // Empty only while the request is a draft
+  parsedTaskType: optionalText,
+  description: optionalText,
+  // JSON array of skill names
+  skillsNeeded: optionalText,
+  location: optionalText,
+  timeline: optionalText,
+  // Rows written before pricing moved to lib/pricing have no complexity
+  complexity: z.preprocess(value => value || undefined, z.enum(complexities).default('standard')),
+  budget: numeric,
+  estimatedHours: numeric,
+  flatPrice: numeric,
+  finalPrice: optionalNumeric,
+  confirmed: flag,
+  status: z.enum(requestStatuses),
+  // JSON intake chat state (messages, draft fields), see RequestConversation
+  conversation: optionalText,
+  createdAt: text
+}).superRefine((row, ctx) => {
+  if (row.status !== 'draft' && !row.parsedTaskType) {
+    ctx.addIssue({ code: 'custom', path: ['parsedTaskType'], message: 'required once the request is submitted' })
+  }
+})
+
+export const providerRowSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  name: z.string().min(1),
+  bio: optionalText,
+  // JSON array of skill names
+  skills: optionalText,
+  hourlyRate: numeric,
+  location: optionalText,
+  availability: optionalText,
+  // JSON AvailabilitySchedule
+  schedule: optionalText,
+  rating: z.preprocess(value => value ?? 0, numeric),
+  reviewCount: z.preprocess(value => value ?? 0, numeric),
+  completedJobs: z.preprocess(value => value ?? 0, numeric),
+  minCustomerReliability: optionalNumeric,
+  profileImage: optionalText
+})
+
+export const bookingRowSchema = z.object({
+  id: z.string().min(1),
+  requestId: z.string().min(1),
+  providerId: z.string().min(1),
+  userId: z.string().min(1),
+  scheduledTime: z.string().min(1),
+  // IANA zone the booking is shown in
+  timeZone: optionalText,
+  finalPrice: numeric,
+  status: z.enum(bookingStatuses),
+  paymentStatus: z.enum(paymentStatuses),
+  paymentIntentId: optionalText,
+  // JSON array of BookingEvent, the booking's audit history
+  history: optionalText,
+  // JSON BookingProposal awaiting the customer's answer
+  proposal: optionalText,
+  // JSON itemized quote, see Quote in types
+  quote: optionalText,
+  cancellationFee: optionalNumeric,
+  createdAt: text
+})
+
+// One side of a double-entry transaction. Amounts are in cents; the debits
+// and credits sharing a transactionId always balance.
+export const ledgerEntryRowSchema = z.object({
+  id: z.string().min(1),
+  transactionId: z.string().min(1),
+  kind: z.enum(ledgerEntryKinds),
+  account: z.enum(ledgerAccounts),
+  debit: z.preprocess(value => value ?? 0, numeric),
+  credit: z.preprocess(value => value ?? 0, numeric),
+  bookingId: optionalText,
+  providerId: optionalText,
+  payoutBatchId: optionalText,
+  memo: optionalText,
+  createdAt: text
+})
+
+export const payoutBatchRowSchema = z.object({
+  id: z.string().min(1),
+  providerId: z.string().min(1),
+  status: z.enum(payoutBatchStatuses),
+  // Cents
+  amount: numeric,
+  // JSON array of booking ids released into the batch
+  bookingIds: optionalText,
+  scheduledFor: z.string().min(1),
+  paidAt: optionalText,
+  createdAt: text
+})
+
+// Cells of a provider's calendar held for a checkout or a booking. The id is
+// `${providerId}:${cell start}`, so the primary key rejects a second claim.
+export const slotHoldRowSchema = z.object({
+  id: z.string().min(1),
+  holdId: z.string().min(1),
+  providerId: z.string().min(1),
+  holderId: z.string().min(1),
+  bookingId: optionalText,
+  startsAt: z.string().min(1),
+  endsAt: z.string().min(1),
+  // Blank while a booking owns the cell
+  expiresAt: optionalText,
+  createdAt: text
+})
+
+// Private ICS feed tokens; the id is the token
+export const calendarFeedRowSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  createdAt: text,
+  revokedAt: optionalText
+})
+
+// One review per booking; the id is `review_${bookingId}`
+export const reviewRowSchema = z.object({
+  id: z.string().min(1),
+  bookingId: z.string().min(1),
+  providerId: z.string().min(1),
+  userId: z.string().min(1),
+  authorName: optionalText,
+  rating: stars,
+  comment: optionalText,
+  reply: optionalText,
+  repliedAt: optionalText,
+  createdAt: text
+})
+
+// A provider's rating of a customer; the id is `customer_rating_${bookingId}`
+export const customerRatingRowSchema = z.object({
+  id: z.string().min(1),
+  bookingId: z.string().min(1),
+  providerId: z.string().min(1),
+  userId: z.string().min(1),
+  punctuality: stars,
+  accuracy: stars,
+  payment: stars,
+  comment: optionalText,
+  createdAt: text
+})
+
+// Messages between a booking's customer and provider
+export const bookingMessageRowSchema = z.object({
+  id: z.string().min(1),
+  bookingId: z.string().min(1),
+  requestId: optionalText,
+  senderId: z.string().min(1),
+  senderRole: z.enum(['customer', 'provider']),
+  recipientId: z.string().min(1),
+  body: optionalText,
+  // JSON array of MessageAttachment
+  attachments: optionalText,
+  createdAt: text,
+  readAt: optionalText
+})
+
+export const notificationKinds = [
+  'request_matched',
+  'booking_requested',
+  'changes_proposed',
+  'booking_confirmed',
+  'booking_declined',
+  'booking_rescheduled',
+  'booking_cancelled',
+  'job_started',
+  'job_completed',
+  'booking_reviewed',
+  'booking_disputed',
+  'new_message'
+] as const
+
+export const notificationRowSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  kind: z.enum(notificationKinds),
+  title: z.string().min(1),
+  body: optionalText,
+  link: optionalText,
+  bookingId: optionalText,
+  requestId: optionalText,
+  createdAt: text,
+  readAt: optionalText
+})
+
+// One row per user; the id is the user id
+export const notificationPreferencesRowSchema = z.object({
+  id: z.string().min(1),
+  emailEnabled: flag,
+  smsEnabled: flag,
+  pushEnabled: flag,
+  email: optionalText,
+  phone: optionalText,
+  // JSON PushSubscription
+  pushSubscription: optionalText,
+  updatedAt: text
+})
+
+export type RequestRow = z.infer<typeof requestRowSchema>
+export type ProviderRow = z.infer<typeof providerRowSchema>
+export type BookingRow = z.infer<typeof bookingRowSchema>
+export type LedgerEntryRow = z.infer<typeof ledgerEntryRowSchema>
+export type PayoutBatchRow = z.infer<typeof payoutBatchRowSchema>
+export type SlotHoldRow = z.infer<typeof slotHoldRowSchema>
+export type CalendarFeedRow = z.infer<typeof calendarFeedRowSchema>
+export type ReviewRow = z.infer<typeof reviewRowSchema>
+export type CustomerRatingRow = z.infer<typeof customerRatingRowSchema>
+export type BookingMessageRow = z.infer<typeof bookingMessageRowSchema>
+export type NotificationRow = z.infer<typeof notificationRowSchema>
+export type NotificationPreferencesRow = z.infer<typeof notificationPreferencesRowSchema>
+
+export type TableName =
+  | 'requests'
+  | 'providers'
+  | 'bookings'
+  | 'ledger_entries'
+  | 'payout_batches'
+  | 'slot_holds'
+  | 'calendar_feeds'
+  | 'reviews'
+  | 'customer_ratings'
+  | 'booking_messages'
+  | 'notifications'
+  | 'notification_preferences'
+
+export const tableSchemas = {
+  requests: requestRowSchema,
+  providers: providerRowSchema,
+  bookings: bookingRowSchema,
+  ledger_entries: ledgerEntryRowSchema,
+  payout_batches: payoutBatchRowSchema,
+  slot_holds: slotHoldRowSchema,
+  calendar_feeds: calendarFeedRowSchema,
+  reviews: reviewRowSchema,
+  customer_ratings: customerRatingRowSchema,
+  booking_messages: bookingMessageRowSchema,
+  notifications: notificationRowSchema,
+  notification_preferences: notificationPreferencesRowSchema
+} as const
+
+export class SchemaValidationError extends Error {
+  table: TableName
+  issues: z.ZodError['issues']
+
+  constructor(table: TableName, issues: z.ZodError['issues']) {
+    const summary = issues.map(issue => `${issue.path.join('.') || '(row)'}: ${issue.message}`).join('; ')
+    super(`Invalid ${table} row: ${summary}`)
+    this.name = 'SchemaValidationError'
+    this.table = table
+    this.issues = issues
+  }
+}
+
+// Columns written by earlier versions of the app, mapped to their canonical
+// replacement. Values are converted by `normalizeLegacyRow`.
+export const legacyColumns: Record<TableName, Record<string, string>> = {
+  requests: {
+    suggestedPrice: 'flatPrice',
+    parsedLocation: 'location',
+    parsedDuration: 'estimatedHours',
+    parsedTimeline: 'timeline',
+    parsedBudget: 'budget'
+  },
+  providers: {},
+  bookings: {},
+  ledger_entries: {},
+  payout_batches: {},
+  slot_holds: {},
+  calendar_feeds: {},
+  reviews: {},
+  customer_ratings: {},
+  booking_messages: {},
+  notifications: {},
+  notification_preferences: {}
+}
+
+// "2 hours", "1.5 hrs" → 2, 1.5
+const leadingNumber = (value: unknown) => {
+  if (typeof value === 'number') return value
+  const match = String(value ?? '').match(/\d+(\.\d+)?/)
+  return match ? Number(match[0]) : undefined
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === ''
+
+// Fill canonical columns from legacy ones when the canonical value is missing.
+// Returns the normalized row and whether anything had to be filled in.
+export const normalizeLegacyRow = (
+  table: TableName,
+  raw: Record<string, unknown>
+): { row: Record<string, unknown>; changed: boolean } => {
+  const row = { ...raw }
+  let changed = false
+
+  for (const [legacy, canonical] of Object.entries(legacyColumns[table])) {
+    if (isBlank(raw[legacy]) || !isBlank(row[canonical])) continue
+    const numericColumn = ['estimatedHours', 'budget', 'flatPrice', 'hourlyRate', 'completedJobs'].includes(canonical)
+    row[canonical] = numericColumn ? leadingNumber(raw[legacy]) : raw[legacy]
+    changed = true
+  }
+
+  if (table === 'requests' && isBlank(row.status)) {
+    row.status = 'pending'
+    changed = true
+  }
+
+  // Statuses from before the booking lifecycle existed
+  if (table === 'bookings' && (row.status === 'confirmed' || row.status === 'pending')) {
+    row.status = row.status === 'confirmed' ? 'scheduled' : 'requested'
+    changed = true
+  }
+
+  // Bookings made before payments were wired up were marked 'completed'
+  // without charging anything; they still owe the full amount
+  if (table === 'bookings' && row.paymentStatus === 'completed') {
+    row.paymentStatus = 'pending'
+    changed = true
+  }
+
+  return { row, changed }
+}
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../test/localApp'
+import { IntakeError, emptyDraft, mergeDraft, missingFields, nextIntakeReply, parseIntakeReply } from './intake'
+import type { RequestDraft } from '../types'
+
+const complete: RequestDraft = {
+  service: 'Leaky faucet',
+  description: 'The kitchen faucet drips all night',
+  location: 'Oakland, CA',
+  budget: 150,
+  timeline: 'This week'
+}
+
+const reply = (draft: Partial<RequestDraft>, extra: object = {}) => ({
+  draft: { ...emptyDraft, ...draft },
+  complexity: null,
+  message: 'Where is the job?',
+  suggestions: ['Oakland, CA'],
+  ...extra
+})
+
+describe('missingFields', () => {
+  it('lists the details a request still needs, in order', () => {
+    expect(missingFields(emptyDraft)).toEqual(['service', 'location', 'budget', 'timeline'])
+    expect(missingFields({ ...complete, budget: 0, timeline: ' ' })).toEqual(['budget', 'timeline'])
+    expect(missingFields(complete)).toEqual([])
+  })
+})
+
+describe('mergeDraft', () => {
+  it('keeps pinned fields and known values the model left out', () => {
+    const current = { ...emptyDraft, location: 'Berkeley, CA', budget: 200 }
+    const extracted = { ...emptyDraft, service: 'Leaky faucet', location: 'Oakland, CA' }
+
+    expect(mergeDraft(current, extracted, ['location'])).toEqual({ ...current, service: 'Leaky faucet' })
+  })
+})
+
+describe('parseIntakeReply', () => {
+  it('asks about the next missing detail', () => {
+    const parsed = parseIntakeReply(reply({ service: 'Leaky faucet', budget: '150' as unknown as number }), emptyDraft)
+
+    expect(parsed.draft).toMatchObject({ service: 'Leaky faucet', budget: 150 })
+    expect(parsed.missing).toEqual(['location', 'timeline'])
+    expect(parsed.summary).toBeNull()
+    expect(parsed.suggestions).toEqual(['Oakland, CA'])
+  })
+
+  it('prices the summary once nothing is missing', () => {
+    const parsed = parseIntakeReply(reply(complete, { complexity: 'simple', message: 'Here you go' }), emptyDraft)
+
+    expect(parsed.summary).toMatchObject({ service: 'Leaky faucet', complexity: 'simple', estimatedHours: 1 })
+    expect(parsed.summary?.flatPrice).toBeGreaterThan(0)
+    expect(parsed.suggestions).toEqual([])
+  })
+
+  it('rejects replies that do not match the schema', () => {
+    expect(() => parseIntakeReply({ draft: emptyDraft, message: '' }, emptyDraft)).toThrow(IntakeError)
+    // Everything filled in but no complexity to price it with
+    expect(() => parseIntakeReply(reply(complete), emptyDraft)).toThrow('Invalid request summary')
+  })
+})
+
+describe('nextIntakeReply', () => {
+  let app: ReturnType<typeof resetLocalApp>
+
+  beforeEach(() => {
+    app = resetLocalApp()
+  })
+
+  it('sends an invalid reply back with what was wrong with it', async () => {
+    app.backend.script({ object: [{ message: 42 }, reply({ service: 'Leaky faucet' })] })
+
+    const next = await nextIntakeReply([{ role: 'user', content: 'My faucet leaks' }])
+
+    expect(next.draft.service).toBe('Leaky faucet')
+    const repair = app.backend.aiCalls[1].request.prompt ?? ''
+    expect(repair).toContain('Your previous reply was:\n{"message":42}')
+    expect(repair).toContain('- draft:')
+  })
+
+  it('gives up with the last issues after two repairs', async () => {
+    app.backend.script({ object: [{}, {}, {}, reply({})] })
+
+    const error = await nextIntakeReply([{ role: 'user', content: 'Hi' }]).catch(caught => caught)
+
+    expect(error).toBeInstanceOf(IntakeError)
+    expect(error.issues.length).toBeGreaterThan(0)
+    expect(app.backend.aiCalls).toHaveLength(3)
+  })
+
+  it('rethrows the last generation failure', async () => {
+    const failure = () => {
+      throw new Error('Rate limited')
+    }
+    app.backend.script({ object: [failure, failure, failure] })
+
+    await expect(nextIntakeReply([{ role: 'user', content: 'Hi' }])).rejects.toThrow('Rate limited')
+  })
+})
@@ -0,0 +1,213 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { complexities } from './db/schema'
+import { quotePrice } from './pricing'
+import type { DraftField, RequestDraft, RequestSummary } from '../types'
+
+// AI intake for RequestFlow. The conversation fills a request draft one field
+// at a time. Each turn asks the model for a structured reply (the updated
+// draft plus a question about what is still missing), validates it against
+// the schemas below and, if it doesn't validate, asks the model to repair it.
+// The model never sets prices: it judges complexity and lib/pricing does the rest.
+
+export const requestSummarySchema = z.object({
+  service: z.string().trim().min(2, 'name the service in a few words'),
+  description: z.string().trim().min(10, 'describe the job in at least one sentence'),
+  location: z.string().trim().min(2, 'give a city or neighborhood'),
+  budget: z.coerce.number().positive('budget must be a positive dollar amount'),
+  timeline: z.string().trim().min(2, 'say when the work is needed'),
+  complexity: z.enum(complexities),
+  // Filled in by lib/pricing
+  estimatedHours: z.number().positive(),
+  flatPrice: z.number().positive()
+})
+
+export const DRAFT_FIELDS: readonly DraftField[] = ['service', 'location', 'budget', 'timeline']
+
+export const emptyDraft: RequestDraft = {
+  service: null,
+  description: null,
+  location: null,
+  budget: null,
+  timeline: null
+}
+
+// Also used to validate inline edits in the draft panel
+export const draftFieldSchemas = {
+  service: requestSummarySchema.shape.service,
+  location: requestSummarySchema.shape.location,
+  budget: requestSummarySchema.shape.budget,
+  timeline: requestSummarySchema.shape.timeline
+} satisfies Record<DraftField, z.ZodType>
+
+export const missingFields = (draft: RequestDraft): DraftField[] =>
+  DRAFT_FIELDS.filter(field => !draftFieldSchemas[field].safeParse(draft[field] ?? undefined).success)
+
+// Fields the user edited by hand always win over what the model extracted
+export const mergeDraft = (current: RequestDraft, extracted: RequestDraft, pinned: DraftField[]): RequestDraft => {
+  const keep = (key: keyof RequestDraft) => pinned.includes(key as DraftField) || extracted[key] === null
+  return {
+    service: keep('service') ? current.service : extracted.service,
+    description: keep('description') ? current.description : extracted.description,
+    location: keep('location') ? current.location : extracted.location,
+    budget: keep('budget') ? current.budget : extracted.budget,
+    timeline: keep('timeline') ? current.timeline : extracted.timeline
+  }
+}
+
+const blankToNull = (value: unknown) => (value === '' ? null : value)
+
+const intakeReplySchema = z.object({
+  // Everything known about the request so far, null where unknown
+  draft: z.object({
+    service: z.preprocess(blankToNull, z.string().trim().nullable()),
+    description: z.preprocess(blankToNull, z.string().trim().nullable()),
+    location: z.preprocess(blankToNull, z.string().trim().nullable()),
+    budget: z.preprocess(blankToNull, z.coerce.number().nonnegative().nullable()),
+    timeline: z.preprocess(blankToNull, z.string().trim().nullable())
+  }),
+  // Judged once nothing is missing
+  complexity: z.enum(complexities).nullable(),
+  // The question to ask, or a one-line lead-in to the summary
+  message: z.string().trim().min(1),
+  // Short tappable answers to the question
+  suggestions: z.array(z.string().trim().min(1).max(40)).max(4)
+})
+
+export interface IntakeReply {
+  draft: RequestDraft
+  missing: DraftField[]
+  message: string
+  suggestions: string[]
+  // Set once nothing is missing
+  summary: RequestSummary | null
+}
+
+export interface IntakeTurn {
+  role: 'user' | 'ai'
+  content: string
+}
+
+export class IntakeError extends Error {
+  issues: z.ZodError['issues']
+
+  constructor(message: string, issues: z.ZodError['issues'] = []) {
+    super(message)
+    this.name = 'IntakeError'
+    this.issues = issues
+  }
+}
+
+const replyJsonSchema = z.toJSONSchema(intakeReplySchema, { io: 'input', unrepresentable: 'any' })
+
+// Number of extra attempts after the first invalid reply
+const MAX_REPAIRS = 2
+
+const fieldLabels: Record<DraftField, string> = {
+  service: 'the kind of service',
+  location: 'where the work is (city or neighborhood)',
+  budget: 'the budget in dollars',
+  timeline: 'when the work is needed'
+}
+
+const transcript = (turns: IntakeTurn[]) =>
+  turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n')
+
+const intakePrompt = (turns: IntakeTurn[], draft: RequestDraft, pinned: DraftField[]) => {
+  const missing = missingFields(draft)
+  return `You are Homi's AI assistant helping users scope local service requests.
+
+Conversation so far:
+${transcript(turns)}
+
+Request draft so far:
+${JSON.stringify(draft)}
+${pinned.length > 0 ? `The user set ${pinned.join(', ')} by hand; keep those values.` : ''}
+
+Return the updated draft with everything the conversation tells you (null where still unknown).
+${missing.length > 0
+    ? `Still missing: ${missing.map(field => fieldLabels[field]).join('; ')}.
+If the latest message doesn't fill them all, ask ONE friendly question about the first missing detail only in
+"message", with 2-3 short answers the user could tap in "suggestions". Do not ask about anything already in the draft.`
+    : 'Nothing is missing.'}
+Once service, location, budget and timeline are all known, also write a one-sentence description, set
+complexity to "simple" (a quick, small job), "standard" (a typical job) or "complex" (large, multi-step or
+specialist work), and make "message" a short lead-in to the summary with no suggestions. Do not quote prices;
+they are calculated separately. Otherwise set complexity to null.`
+}
+
+const issueList = (issues: z.ZodError['issues']) =>
+  issues.map(issue => `- ${issue.path.join('.') || '(reply)'}: ${issue.message}`).join('\n')
+
+const repairPrompt = (prompt: string, invalid: unknown, issues: z.ZodError['issues']) => `${prompt}
+
+Your previous reply was:
+${JSON.stringify(invalid)}
+
+It was rejected for these reasons:
+${issueList(issues)}
+
+Return a corrected reply. If a field cannot be filled from the conversation, set it to null and ask about it.`
+
+// Validate a raw model reply and merge it into the current draft
+export const parseIntakeReply = (raw: unknown, current: RequestDraft, pinned: DraftField[] = []): IntakeReply => {
+  const result = intakeReplySchema.safeParse(raw)
+  if (!result.success) throw new IntakeError('Invalid intake reply', result.error.issues)
+
+  const { complexity, message, suggestions } = result.data
+  const draft = mergeDraft(current, result.data.draft, pinned)
+  const missing = missingFields(draft)
+  if (missing.length > 0) return { draft, missing, message, suggestions, summary: null }
+
+  const fields = {
+    service: draft.service ?? '',
+    description: draft.description || draft.service || '',
+    location: draft.location ?? '',
+    budget: draft.budget ?? 0,
+    timeline: draft.timeline ?? ''
+  }
+  const quote = complexity ? quotePrice({ ...fields, complexity }) : null
+  const summary = requestSummarySchema.safeParse({
+    ...fields,
+    complexity: complexity ?? undefined,
+    estimatedHours: quote?.estimatedHours,
+    flatPrice: quote?.total
+  })
+  if (!summary.success) throw new IntakeError('Invalid request summary', summary.error.issues)
+
+  return { draft, missing, message, suggestions: [], summary: summary.data }
+}
+
+// Next assistant turn for the conversation. Throws IntakeError when the model
+// keeps returning replies that don't validate.
+export const nextIntakeReply = async (
+  turns: IntakeTurn[],
+  draft: RequestDraft = emptyDraft,
+  pinned: DraftField[] = []
+): Promise<IntakeReply> => {
+  const basePrompt = intakePrompt(turns, draft, pinned)
+  let prompt = basePrompt
+  let lastIssues: z.ZodError['issues'] = []
+
+  for (let attempt = 0; attempt <= MAX_REPAIRS; attempt++) {
+    let raw: unknown
+    try {
+      raw = (await blink.ai.generateObject({ prompt, schema: replyJsonSchema })).object
+    } catch (error) {
+      // The SDK rejects output it can't parse against the schema; try again,
+      // and let the caller report the last failure
+      if (attempt === MAX_REPAIRS) throw error
+      continue
+    }
+
+    try {
+      return parseIntakeReply(raw, draft, pinned)
+    } catch (error) {
+      if (!(error instanceof IntakeError)) throw error
+      lastIssues = error.issues
+      prompt = repairPrompt(basePrompt, raw, error.issues)
+    }
+  }
+
+  throw new IntakeError('The assistant did not return a usable reply', lastIssues)
+}
@@ -0,0 +1,30 @@
+import { bookingsRepository, ledgerRepository } from '../db/repository'
+import { toCents } from '../payments/provider'
+import { balanceOf, postTransaction } from './entries'
+import type { Booking } from '../../types'
+
+// Homi credit a customer is owed, e.g. after a provider didn't show up. It is
+// issued against the booking that went wrong and spent as a 'credit' quote
+// line on a later booking; releaseSplit pays that line out of the liability.
+// Amounts are integer cents.
+
+export const recordCredit = (booking: Booking, amount: number, memo: string) =>
+  postTransaction('credit', [
+    { account: 'credit_expense', debit: amount },
+    { account: 'customer_credits', credit: amount }
+  ], { bookingId: booking.id, memo })
+
+// Credit spent on a booking that is going ahead. A cancelled or declined
+// booking gives its credit back.
+const spentOn = (booking: Booking) =>
+  booking.status === 'cancelled' || booking.status === 'declined'
+    ? 0
+    : -toCents(booking.quote?.lines.find(line => line.kind === 'credit')?.amount ?? 0)
+
+export const availableCredit = async (userId: string): Promise<number> => {
+  const bookings = await bookingsRepository.listByUser(userId)
+  const entries = (await Promise.all(bookings.map(booking => ledgerRepository.listByBooking(booking.id)))).flat()
+  const issued = -balanceOf(entries.filter(entry => entry.kind === 'credit'), 'customer_credits')
+  const spent = bookings.reduce((total, booking) => total + spentOn(booking), 0)
+  return Math.max(0, issued - spent)
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { ledgerRepository } from '../db/repository'
+import { adjustQuote, minimumAdjustedTotal, quotePrice } from '../pricing'
+import { toCents } from '../payments/provider'
+import { LedgerImbalanceError, balanceOf, heldInEscrow, postTransaction, recordCharge, recordRelease, releaseSplit, type Posting } from './entries'
+import type { Booking } from '../../types'
+
+beforeEach(() => {
+  resetLocalApp()
+})
+
+const quote = quotePrice(
+  { service: 'House cleaning', description: '', location: 'Austin, TX', timeline: 'ASAP', complexity: 'standard' },
+  { hourlyRate: 40 },
+  { discountCode: 'WELCOME10' }
+)
+
+const booking: Booking = {
+  id: 'booking_ledger',
+  requestId: 'req_fixture_cleaning',
+  providerId: 'prov_maria',
+  userId: 'local_user',
+  scheduledTime: '2030-01-07T17:00:00.000Z',
+  finalPrice: quote.total,
+  status: 'completed',
+  paymentStatus: 'captured',
+  history: [],
+  createdAt: '2030-01-01T00:00:00.000Z',
+  quote
+}
+
+const totals = (postings: Posting[]) => ({
+  debits: postings.reduce((total, posting) => total + (posting.debit ?? 0), 0),
+  credits: postings.reduce((total, posting) => total + (posting.credit ?? 0), 0)
+})
+
+const share = (postings: Posting[], account: Posting['account']) =>
+  postings.find(posting => posting.account === account)?.credit ?? 0
+
+describe('releaseSplit', () => {
+  it('splits the whole payment by the quote', () => {
+    const held = toCents(quote.total)
+    const postings = releaseSplit(booking, held)
+
+    const { debits, credits } = totals(postings)
+    expect(debits).toBe(credits)
+    expect(share(postings, 'provider_payable')).toBe(toCents(quote.providerPayout))
+    // Homi covers the discount
+    expect(postings.find(posting => posting.account === 'discounts')?.debit).toBe(toCents(Math.abs(quote.lines.find(line => line.kind === 'discount')!.amount)))
+  })
+
+  it('shrinks every share in proportion after a partial refund', () => {
+    const held = Math.round(toCents(quote.total) / 2)
+    const postings = releaseSplit(booking, held)
+
+    const { debits, credits } = totals(postings)
+    expect(debits).toBe(credits)
+    expect(postings[0]).toEqual({ account: 'escrow', debit: held })
+    expect(share(postings, 'provider_payable')).toBe(Math.round(toCents(quote.providerPayout) / 2))
+  })
+
+  it('never posts a negative share after the provider cuts the price', () => {
+    const repriced = adjustQuote(quote, minimumAdjustedTotal(quote))
+    const postings = releaseSplit({ ...booking, finalPrice: repriced.total, quote: repriced }, toCents(repriced.total))
+
+    const { debits, credits } = totals(postings)
+    expect(debits).toBe(credits)
+    expect(postings.every(posting => (posting.debit ?? 0) >= 0 && (posting.credit ?? 0) >= 0)).toBe(true)
+    expect(share(postings, 'provider_payable')).toBe(toCents(repriced.providerPayout))
+    expect(share(postings, 'fee_revenue')).toBe(toCents(quote.lines.find(line => line.kind === 'service_fee')!.amount))
+  })
+
+  it('pays commission-only on bookings without a quote', () => {
+    const postings = releaseSplit({ ...booking, quote: undefined }, 10001)
+    expect(postings).toEqual([
+      { account: 'escrow', debit: 10001 },
+      { account: 'provider_payable', credit: 8501 },
+      { account: 'commission_revenue', credit: 1500 }
+    ])
+  })
+})
+
+describe('postTransaction', () => {
+  it('rejects postings that do not balance or are not whole cents', async () => {
+    await expect(postTransaction('charge', [
+      { account: 'cash', debit: 1000 },
+      { account: 'escrow', credit: 999 }
+    ])).rejects.toBeInstanceOf(LedgerImbalanceError)
+    await expect(postTransaction('charge', [
+      { account: 'cash', debit: 10.5 },
+      { account: 'escrow', credit: 10.5 }
+    ])).rejects.toBeInstanceOf(LedgerImbalanceError)
+    expect(await ledgerRepository.listByBooking(booking.id)).toEqual([])
+  })
+
+  it('writes one entry per non-zero line under one transaction', async () => {
+    const entries = await postTransaction('charge', [
+      { account: 'cash', debit: 1000 },
+      { account: 'discounts', debit: 0 },
+      { account: 'escrow', credit: 1000 }
+    ], { bookingId: booking.id, memo: 'Test charge' })
+
+    expect(entries).toHaveLength(2)
+    expect(new Set(entries.map(entry => entry.transactionId)).size).toBe(1)
+    expect(heldInEscrow(entries, booking.id)).toBe(1000)
+  })
+
+  it('posts a transaction with a fixed id only once', async () => {
+    const postings: Posting[] = [{ account: 'cash', debit: 500 }, { account: 'escrow', credit: 500 }]
+    const context = { transactionId: 'txn_once', bookingId: booking.id }
+
+    const [first, second] = await Promise.all([
+      postTransaction('charge', postings, context),
+      postTransaction('charge', postings, context)
+    ])
+    expect([first.length, second.length].sort()).toEqual([0, 2])
+    expect(await ledgerRepository.listByBooking(booking.id)).toHaveLength(2)
+  })
+})
+
+describe('recordRelease', () => {
+  it('empties escrow into the provider balance once', async () => {
+    await recordCharge(booking, toCents(quote.total))
+    const entries = await ledgerRepository.listByBooking(booking.id)
+
+    const [first, second] = await Promise.all([
+      recordRelease(booking, entries, 'batch_test'),
+      recordRelease(booking, entries, 'batch_test')
+    ])
+    expect(first + second).toBe(toCents(quote.providerPayout))
+    expect(balanceOf(await ledgerRepository.listByBooking(booking.id), 'escrow')).toBe(0)
+  })
+})
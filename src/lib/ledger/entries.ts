@@ -0,0 +1,209 @@
+import { isDuplicateKeyError, ledgerRepository } from '../db/repository'
+import { COMMISSION_RATE } from '../pricing'
+import { toCents } from '../payments/provider'
+import type { Booking, LedgerAccount, LedgerEntry, LedgerEntryKind } from '../../types'
+
+// Double-entry ledger for booking money. A customer's payment is held in
+// escrow when captured, released into the provider's payable balance and
+// Homi's revenue accounts once the dispute window passes, and leaves as a
+// payout batch. All amounts are integer cents.
+
+export interface Posting {
+  account: LedgerAccount
+  debit?: number
+  credit?: number
+}
+
+export interface LedgerContext {
+  // Fixed id for a transaction that may only be posted once; posting it again
+  // writes nothing
+  transactionId?: string
+  bookingId?: string
+  providerId?: string
+  payoutBatchId?: string
+  memo?: string
+}
+
+export class LedgerImbalanceError extends Error {
+  debits: number
+  credits: number
+
+  constructor(debits: number, credits: number) {
+    super(`Ledger transaction does not balance: ${debits} debited, ${credits} credited`)
+    this.name = 'LedgerImbalanceError'
+    this.debits = debits
+    this.credits = credits
+  }
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+export const postTransaction = async (
+  kind: LedgerEntryKind,
+  postings: Posting[],
+  context: LedgerContext = {}
+): Promise<LedgerEntry[]> => {
+  const lines = postings.filter(posting => (posting.debit ?? 0) !== 0 || (posting.credit ?? 0) !== 0)
+  const debits = sum(lines.map(line => line.debit ?? 0))
+  const credits = sum(lines.map(line => line.credit ?? 0))
+  const wholeCents = lines.every(line => Number.isInteger(line.debit ?? 0) && Number.isInteger(line.credit ?? 0))
+  if (debits !== credits || !wholeCents) throw new LedgerImbalanceError(debits, credits)
+  if (lines.length === 0) return []
+
+  const transactionId = context.transactionId ?? `txn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+  const createdAt = new Date().toISOString()
+  const entries: LedgerEntry[] = []
+  for (const [index, line] of lines.entries()) {
+    const entry = {
+      id: `${transactionId}_${index}`,
+      transactionId,
+      kind,
+      account: line.account,
+      debit: line.debit ?? 0,
+      credit: line.credit ?? 0,
+      bookingId: context.bookingId,
+      providerId: context.providerId,
+      payoutBatchId: context.payoutBatchId,
+      memo: context.memo ?? '',
+      createdAt
+    }
+    try {
+      entries.push(await ledgerRepository.create(entry))
+    } catch (error) {
+      // The first line's id claims the transaction, so whoever loses a race
+      // to post it stops here
+      if (index === 0 && context.transactionId && isDuplicateKeyError(error)) return []
+      throw error
+    }
+  }
+  return entries
+}
+
+// Debits minus credits; credit-normal accounts (escrow, payables, revenue)
+// come out negative
+export const balanceOf = (entries: LedgerEntry[], account: LedgerAccount) =>
+  sum(entries.filter(entry => entry.account === account).map(entry => entry.debit - entry.credit))
+
+// Money still held in escrow for a booking
+export const heldInEscrow = (entries: LedgerEntry[], bookingId: string) =>
+  -balanceOf(entries.filter(entry => entry.bookingId === bookingId), 'escrow')
+
+const quoteLineCents = (booking: Booking, kind: string) =>
+  toCents(sum(booking.quote?.lines.filter(line => line.kind === kind).map(line => line.amount) ?? []))
+
+// How the money held for a booking is divided on release. Uses the stored
+// quote; when part of the payment was refunded first, every share shrinks in
+// proportion and Homi's commission absorbs the rounding. A late-cancellation
+// fee has no materials or tax, so the provider gets it less commission.
+export const releaseSplit = (booking: Booking, held: number): Posting[] => {
+  if (!booking.quote || booking.cancellationFee) {
+    const payout = Math.round(held * (1 - COMMISSION_RATE))
+    return [
+      { account: 'escrow', debit: held },
+      { account: 'provider_payable', credit: payout },
+      { account: 'commission_revenue', credit: held - payout }
+    ]
+  }
+
+  const total = toCents(booking.quote.total)
+  const scale = (cents: number) => (held === total ? cents : Math.round((cents * held) / total))
+  const payout = scale(toCents(booking.quote.providerPayout))
+  const fee = scale(quoteLineCents(booking, 'service_fee'))
+  const tax = scale(quoteLineCents(booking, 'tax'))
+  // Discounts and spent credit are negative quote lines; Homi pays for them
+  const discount = scale(Math.abs(quoteLineCents(booking, 'discount')))
+  const credit = scale(Math.abs(quoteLineCents(booking, 'credit')))
+  const commission = held + discount + credit - payout - fee - tax
+
+  return [
+    { account: 'escrow', debit: held },
+    { account: 'discounts', debit: discount },
+    { account: 'customer_credits', debit: credit },
+    { account: 'provider_payable', credit: payout },
+    { account: 'commission_revenue', credit: commission },
+    { account: 'fee_revenue', credit: fee },
+    { account: 'tax_payable', credit: tax }
+  ]
+}
+
+const bookingContext = (booking: Booking, memo: string): LedgerContext => ({
+  bookingId: booking.id,
+  providerId: booking.providerId,
+  memo
+})
+
+// Captured customer payment goes into escrow
+export const recordCharge = (booking: Booking, captured: number) =>
+  postTransaction('charge', [
+    { account: 'cash', debit: captured },
+    { account: 'escrow', credit: captured }
+  ], bookingContext(booking, 'Customer payment captured'))
+
+// `totalRefunded` is everything refunded on the payment so far, so calling
+// this again for the same refund posts nothing. Refunds come out of escrow
+// while it still holds the money; after release Homi absorbs them.
+export const recordRefund = async (booking: Booking, totalRefunded: number) => {
+  const entries = await ledgerRepository.listByBooking(booking.id)
+  const alreadyRefunded = sum(
+    entries.filter(entry => entry.kind === 'refund' && entry.account === 'cash').map(entry => entry.credit)
+  )
+  const refund = totalRefunded - alreadyRefunded
+  if (refund <= 0) return []
+
+  const fromEscrow = Math.min(refund, Math.max(0, heldInEscrow(entries, booking.id)))
+  return postTransaction('refund', [
+    { account: 'escrow', debit: fromEscrow },
+    { account: 'refund_losses', debit: refund - fromEscrow },
+    { account: 'cash', credit: refund }
+  ], bookingContext(booking, 'Refund to customer'))
+}
+
+// Moves whatever escrow still holds for the booking into the provider's
+// payable balance and Homi's accounts. A booking is released once, so a
+// second release (say from another tab settling at the same time) posts
+// nothing. Returns the provider's share.
+export const recordRelease = async (booking: Booking, entries: LedgerEntry[], payoutBatchId: string) => {
+  const held = heldInEscrow(entries, booking.id)
+  if (held <= 0) return 0
+
+  const postings = releaseSplit(booking, held)
+  const posted = await postTransaction('release', postings, {
+    ...bookingContext(booking, 'Released from escrow'),
+    transactionId: `release_${booking.id}`,
+    payoutBatchId
+  })
+  return posted.length > 0 ? postings.find(posting => posting.account === 'provider_payable')?.credit ?? 0 : 0
+}
+
+export interface ProviderEarnings {
+  // Released to the provider, all time and in the current calendar month
+  total: number
+  thisMonth: number
+  // Completed jobs still inside the escrow hold
+  inEscrow: number
+  paidOut: number
+}
+
+export const summarizeEarnings = (
+  entries: LedgerEntry[],
+  bookings: Booking[],
+  now = new Date()
+): ProviderEarnings => {
+  const payable = entries.filter(entry => entry.account === 'provider_payable')
+  const sameMonth = (iso: string) => {
+    const date = new Date(iso)
+    return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth()
+  }
+  const inEscrow = sum(bookings.map(booking => {
+    const held = heldInEscrow(entries, booking.id)
+    if (held <= 0) return 0
+    return releaseSplit(booking, held).find(posting => posting.account === 'provider_payable')?.credit ?? 0
+  }))
+
+  return {
+    total: sum(payable.map(entry => entry.credit)),
+    thisMonth: sum(payable.filter(entry => sameMonth(entry.createdAt)).map(entry => entry.credit)),
+    inEscrow,
+    paidOut: sum(payable.map(entry => entry.debit))
+  }
+}
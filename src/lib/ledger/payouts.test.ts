@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository, ledgerRepository } from '../db/repository'
+import { quotePrice } from '../pricing'
+import { toCents } from '../payments/provider'
+import { balanceOf, recordCharge } from './entries'
+import { nextPayoutDate, settlePayouts } from './payouts'
+import type { Booking } from '../../types'
+
+const quote = quotePrice(
+  { service: 'House cleaning', description: '', location: 'San Francisco, CA', timeline: 'Next week', complexity: 'standard' },
+  { hourlyRate: 35 }
+)
+
+const completedBooking = (id: string, extra: Partial<Booking> = {}) => bookingsRepository.create({
+  id,
+  requestId: 'req_fixture_cleaning',
+  providerId: 'prov_maria',
+  userId: 'local_user',
+  scheduledTime: '2030-01-06T17:00:00.000Z',
+  finalPrice: quote.total,
+  status: 'completed',
+  paymentStatus: 'captured',
+  history: [],
+  createdAt: '2030-01-01T00:00:00.000Z',
+  quote,
+  ...extra
+})
+
+// Settles twice at once, the way two tabs (or a dev-mode double effect) do
+const settleTwice = async (at: string) => {
+  vi.setSystemTime(new Date(at))
+  const [batches] = await Promise.all([settlePayouts('prov_maria'), settlePayouts('prov_maria')])
+  return batches
+}
+
+const providerEntries = () => ledgerRepository.listByProvider('prov_maria')
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  resetLocalApp()
+  // Captured on a Monday morning
+  vi.setSystemTime(new Date('2030-01-07T10:00:00Z'))
+  await recordCharge(await completedBooking('booking_done'), toCents(quote.total))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('nextPayoutDate', () => {
+  it('is the next Friday, never the same day', () => {
+    expect(nextPayoutDate(new Date(2030, 0, 7, 10)).getDate()).toBe(11)
+    expect(nextPayoutDate(new Date(2030, 0, 11, 10)).getDate()).toBe(18)
+  })
+})
+
+describe('settlePayouts', () => {
+  it('keeps the payment in escrow during the hold', async () => {
+    expect(await settleTwice('2030-01-09T10:00:00Z')).toEqual([])
+    expect(-balanceOf(await providerEntries(), 'escrow')).toBe(toCents(quote.total))
+  })
+
+  it('releases into one batch and pays it out once', async () => {
+    const [batch] = await settleTwice('2030-01-10T12:00:00Z')
+    expect(batch).toMatchObject({ status: 'scheduled', amount: toCents(quote.providerPayout), bookingIds: ['booking_done'] })
+    let entries = await providerEntries()
+    expect(balanceOf(entries, 'escrow')).toBe(0)
+    expect(-balanceOf(entries, 'provider_payable')).toBe(toCents(quote.providerPayout))
+
+    const [paid] = await settleTwice('2030-01-11T12:00:00Z')
+    expect(paid).toMatchObject({ id: batch.id, status: 'paid' })
+    entries = await providerEntries()
+    expect(entries.filter(entry => entry.kind === 'payout')).toHaveLength(2)
+    expect(balanceOf(entries, 'provider_payable')).toBe(0)
+  })
+
+  it('keeps a disputed job in escrow until support settles it', async () => {
+    await bookingsRepository.update('booking_done', { status: 'disputed' })
+    expect(await settleTwice('2030-01-10T12:00:00Z')).toEqual([])
+    expect(-balanceOf(await providerEntries(), 'escrow')).toBe(toCents(quote.total))
+
+    await bookingsRepository.update('booking_done', { status: 'completed' })
+    const [batch] = await settleTwice('2030-01-10T13:00:00Z')
+    expect(batch.bookingIds).toEqual(['booking_done'])
+  })
+})
@@ -0,0 +1,120 @@
+import { bookingsRepository, isDuplicateKeyError, ledgerRepository, payoutBatchesRepository } from '../db/repository'
+import { postTransaction, recordRelease } from './entries'
+import type { LedgerEntry, PayoutBatch } from '../../types'
+
+// Weekly provider payouts. Captured payments sit in escrow for a dispute
+// window, are then released into the provider's next scheduled batch, and
+// the batch is paid out on its date. There is no server-side scheduler, so
+// settlePayouts catches up on anything due whenever a provider's data loads.
+// That can happen twice at once (two tabs, or a dev-mode double effect), so
+// every posting and batch has a fixed id and the second attempt writes
+// nothing, and batch totals are read back from the ledger rather than added
+// up in memory.
+
+// Days a captured payment stays in escrow before it can be released
+export const ESCROW_HOLD_DAYS = 3
+// Payouts go out on Fridays (0 = Sunday)
+export const PAYOUT_WEEKDAY = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Start of the next payout day strictly after `from`
+export const nextPayoutDate = (from: Date): Date => {
+  const date = new Date(from)
+  date.setHours(0, 0, 0, 0)
+  const days = (PAYOUT_WEEKDAY - date.getDay() + 7) % 7 || 7
+  date.setDate(date.getDate() + days)
+  return date
+}
+
+// What has been released into a batch so far
+const batchTotals = (entries: LedgerEntry[], batchId: string) => {
+  const released = entries.filter(entry =>
+    entry.kind === 'release' && entry.account === 'provider_payable' && entry.payoutBatchId === batchId
+  )
+  return {
+    amount: released.reduce((total, entry) => total + entry.credit, 0),
+    bookingIds: [...new Set(released.flatMap(entry => entry.bookingId ? [entry.bookingId] : []))]
+  }
+}
+
+// One batch per provider per payout day
+const batchIdFor = (providerId: string, scheduledFor: Date) =>
+  `batch_${providerId}_${scheduledFor.toISOString().slice(0, 10)}`
+
+const payDueBatches = async (providerId: string, batches: PayoutBatch[], now: Date) => {
+  const due = batches.filter(batch => batch.status === 'scheduled' && new Date(batch.scheduledFor) <= now)
+  if (due.length === 0) return
+
+  const entries = await ledgerRepository.listByProvider(providerId)
+  for (const batch of due) {
+    const totals = batchTotals(entries, batch.id)
+    // The bank transfer itself happens outside the app; this records it
+    await postTransaction('payout', [
+      { account: 'provider_payable', debit: totals.amount },
+      { account: 'cash', credit: totals.amount }
+    ], { transactionId: `payout_${batch.id}`, providerId: batch.providerId, payoutBatchId: batch.id, memo: 'Weekly payout' })
+    Object.assign(batch, await payoutBatchesRepository.update(batch.id, { ...batch, ...totals, status: 'paid', paidAt: now.toISOString() }))
+  }
+}
+
+const nextBatch = async (providerId: string, batches: PayoutBatch[], now: Date): Promise<PayoutBatch> => {
+  const scheduled = batches.find(candidate => candidate.status === 'scheduled')
+  if (scheduled) return scheduled
+
+  const scheduledFor = nextPayoutDate(now)
+  const id = batchIdFor(providerId, scheduledFor)
+  let batch: PayoutBatch
+  try {
+    batch = await payoutBatchesRepository.create({
+      id,
+      providerId,
+      status: 'scheduled',
+      amount: 0,
+      bookingIds: [],
+      scheduledFor: scheduledFor.toISOString(),
+      createdAt: now.toISOString()
+    })
+  } catch (error) {
+    const existing = isDuplicateKeyError(error) ? await payoutBatchesRepository.get(id) : null
+    if (!existing) throw error
+    batch = existing
+  }
+  batches.unshift(batch)
+  return batch
+}
+
+const releaseEligible = async (providerId: string, batches: PayoutBatch[], now: Date) => {
+  const entries = await ledgerRepository.listByProvider(providerId)
+  const releasedBookings = new Set(entries.filter(entry => entry.kind === 'release').map(entry => entry.bookingId))
+  const cutoff = now.getTime() - ESCROW_HOLD_DAYS * DAY_MS
+  const eligible = new Set(
+    entries
+      .filter(entry => entry.kind === 'charge' && new Date(entry.createdAt).getTime() <= cutoff)
+      .map(entry => entry.bookingId)
+      .filter(bookingId => bookingId && !releasedBookings.has(bookingId))
+  )
+  if (eligible.size === 0) return
+
+  // A disputed job stays in escrow until support settles it back to completed
+  // (released as usual) or cancels it (refunded from escrow)
+  const bookings = (await bookingsRepository.listByProvider(providerId))
+    .filter(booking => eligible.has(booking.id) && booking.status !== 'disputed')
+  if (bookings.length === 0) return
+
+  const batch = await nextBatch(providerId, batches, now)
+  for (const booking of bookings) {
+    await recordRelease(booking, entries, batch.id)
+  }
+  const totals = batchTotals(await ledgerRepository.listByProvider(providerId), batch.id)
+  Object.assign(batch, await payoutBatchesRepository.update(batch.id, { ...batch, ...totals }))
+}
+
+// Pays batches whose date has passed, then releases escrow that has cleared
+// the hold into the next batch. Returns the provider's batches, newest first.
+export const settlePayouts = async (providerId: string, now = new Date()): Promise<PayoutBatch[]> => {
+  const batches = await payoutBatchesRepository.listByProvider(providerId)
+  await payDueBatches(providerId, batches, now)
+  await releaseEligible(providerId, batches, now)
+  return batches
+}
@@ -0,0 +1,256 @@
+import { blink } from '../blink/client'
+import { providersRepository, requestsRepository } from './db/repository'
+import { formatMoney, quotePrice } from './pricing'
+import { getReliabilities, meetsMinimum } from './reviews/reliability'
+import { PRIOR_RATING } from './reviews/reputation'
+import type {
+  CustomerReliability,
+  MatchBreakdown,
+  MatchFactor,
+  Provider,
+  ProviderMatch,
+  ServiceRequest
+} from '../types'
+
+export type MatchRequest = Pick<
+  ServiceRequest,
+  'service' | 'description' | 'location' | 'budget' | 'timeline' | 'complexity' | 'estimatedHours'
+>
+
+// Maximum points each factor contributes to the 0-100 match score
+const WEIGHTS: Record<MatchFactor, number> = {
+  skills: 35,
+  price: 20,
+  distance: 20,
+  availability: 10,
+  reputation: 15
+}
+
+const FACTOR_LABELS: Record<MatchFactor, string> = {
+  skills: 'Skill fit',
+  price: 'Price fit',
+  distance: 'Distance',
+  availability: 'Availability fit',
+  reputation: 'Reputation'
+}
+
+// Providers below this skill fit are not shown at all
+const MIN_SKILL_FIT = 0.2
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'for', 'with', 'my', 'to', 'of', 'in', 'on', 'at',
+  'need', 'needs', 'needed', 'looking', 'help', 'service', 'services', 'some', 'i', 'me'
+])
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    // Crude stemming so "cleaning"/"cleaner"/"clean" and "photos"/"photography" meet
+    .map(token => token.replace(/(ing|er|ers|s|y|ic|ical)$/, '').slice(0, 5))
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value))
+
+// Fraction of the request's key terms covered by the provider's skills (bio counts for half)
+export const skillFit = (provider: Provider, request: MatchRequest): number => {
+  const requestTerms = new Set(tokenize(`${request.service} ${request.service} ${request.description || ''}`))
+  if (requestTerms.size === 0) return 0
+
+  const skillTerms = new Set(tokenize(provider.skills.join(' ')))
+  const bioTerms = new Set(tokenize(provider.bio || ''))
+  const serviceTerms = tokenize(request.service)
+
+  // The service itself must show up in the skills for a strong match
+  const serviceHit = serviceTerms.some(term => skillTerms.has(term))
+
+  let covered = 0
+  requestTerms.forEach(term => {
+    if (skillTerms.has(term)) covered += 1
+    else if (bioTerms.has(term)) covered += 0.5
+  })
+
+  const coverage = covered / requestTerms.size
+  return clamp(serviceHit ? 0.6 + 0.4 * coverage : coverage)
+}
+
+// 1 when the provider's flat price is within budget, decaying as it exceeds it
+export const priceFit = (provider: Provider, request: MatchRequest): number => {
+  if (!provider.hourlyRate || !request.budget) return 0.5
+  const cost = quotePrice(request, provider).total
+  if (cost <= request.budget) return 1
+  return clamp(1 - (cost - request.budget) / request.budget)
+}
+
+export const locationFit = (provider: Provider, request: MatchRequest): number => {
+  if (!provider.location || !request.location) return 0.5
+  const providerParts = provider.location.toLowerCase().split(',').map(p => p.trim()).filter(Boolean)
+  const requestParts = request.location.toLowerCase().split(',').map(p => p.trim()).filter(Boolean)
+  if (providerParts.length === 0 || requestParts.length === 0) return 0.5
+
+  // Same city/neighbourhood
+  if (providerParts[0] === requestParts[0]) return 1
+  // Same state or region
+  if (providerParts.some(part => requestParts.includes(part))) return 0.6
+
+  const providerTerms = new Set(tokenize(provider.location))
+  const shared = tokenize(request.location).filter(term => providerTerms.has(term))
+  return shared.length > 0 ? 0.4 : 0
+}
+
+const URGENT_TIMELINE = /asap|urgent|today|tonight|immediately|right away/
+const WEEKEND_TIMELINE = /weekend|saturday|sunday/
+
+export const availabilityFit = (provider: Provider, request: MatchRequest): number => {
+  const availability = (provider.availability || '').toLowerCase()
+  if (!availability) return 0.5
+  if (/unavailable|not available|booked/.test(availability)) return 0
+
+  const timeline = (request.timeline || '').toLowerCase()
+  if (URGENT_TIMELINE.test(timeline)) {
+    return /today|now|asap|immediately/.test(availability) ? 1 : 0.4
+  }
+  if (WEEKEND_TIMELINE.test(timeline)) {
+    return /weekend|saturday|sunday|any/.test(availability) ? 1 : 0.3
+  }
+  return 0.8
+}
+
+// The stored rating is already pulled toward the prior for providers with few
+// reviews (see reviews/reputation); providers with none get the prior itself
+export const reputationFit = (provider: Provider): number =>
+  clamp((provider.reviewCount > 0 ? provider.rating : PRIOR_RATING) / 5)
+
+const describeFactor = (factor: MatchFactor, fit: number, provider: Provider, request: MatchRequest): string => {
+  switch (factor) {
+    case 'skills':
+      if (fit >= 0.6) return `Lists ${request.service} among their skills`
+      return fit > 0 ? `Partial overlap with ${request.service}` : 'No related skills listed'
+    case 'price': {
+      if (!provider.hourlyRate || !request.budget) return 'No rate or budget to compare'
+      const quote = quotePrice(request, provider)
+      return `${formatMoney(quote.total)} for ${quote.estimatedHours} hrs vs your $${request.budget} budget`
+    }
+    case 'distance':
+      if (!provider.location || !request.location) return 'Location not specified'
+      if (fit >= 1) return `Based in ${provider.location}`
+      if (fit >= 0.6) return `Same region (${provider.location})`
+      return fit > 0 ? `Nearby area (${provider.location})` : `Outside your area (${provider.location})`
+    case 'availability':
+      return provider.availability ? provider.availability : 'No availability listed'
+    case 'reputation': {
+      const reviews = provider.reviewCount
+      const jobs = provider.completedJobs
+      return reviews > 0
+        ? `${provider.rating}★ from ${reviews} review${reviews === 1 ? '' : 's'}, ${jobs} job${jobs === 1 ? '' : 's'}`
+        : 'New provider, no reviews yet'
+    }
+  }
+}
+
+export const scoreBreakdown = (provider: Provider, request: MatchRequest): MatchBreakdown => {
+  const fits: Record<MatchFactor, number> = {
+    skills: skillFit(provider, request),
+    price: priceFit(provider, request),
+    distance: locationFit(provider, request),
+    availability: availabilityFit(provider, request),
+    reputation: reputationFit(provider)
+  }
+
+  return (Object.keys(WEIGHTS) as MatchFactor[]).map(factor => ({
+    factor,
+    label: FACTOR_LABELS[factor],
+    points: Math.round(WEIGHTS[factor] * fits[factor]),
+    maxPoints: WEIGHTS[factor],
+    detail: describeFactor(factor, fits[factor], provider, request)
+  }))
+}
+
+export const scoreProvider = (provider: Provider, request: MatchRequest): number =>
+  scoreBreakdown(provider, request).reduce((sum, item) => sum + item.points, 0)
+
+export const matchProvider = (provider: Provider, request: MatchRequest): ProviderMatch => {
+  const quote = quotePrice(request, provider)
+  const breakdown = scoreBreakdown(provider, request)
+  return {
+    ...provider,
+    availability: provider.availability || 'Contact for availability',
+    matchScore: breakdown.reduce((sum, item) => sum + item.points, 0),
+    matchBreakdown: breakdown,
+    estimatedHours: quote.estimatedHours,
+    flatPrice: quote.total
+  }
+}
+
+export const rankProviders = (
+  providers: Provider[],
+  request: MatchRequest,
+  options: { excludeUserId?: string; limit?: number } = {}
+): ProviderMatch[] =>
+  providers
+    .filter(provider => provider.userId !== options.excludeUserId)
+    .filter(provider => skillFit(provider, request) >= MIN_SKILL_FIT)
+    .map(provider => matchProvider(provider, request))
+    .sort((a, b) => b.matchScore - a.matchScore || b.rating - a.rating)
+    .slice(0, options.limit ?? 10)
+
+export const findMatchingProviders = async (
+  request: MatchRequest,
+  options: { excludeUserId?: string; limit?: number } = {}
+): Promise<ProviderMatch[]> => {
+  const providers = await providersRepository.list()
+  return rankProviders(providers, request, options)
+}
+
+// The other direction: open requests a provider is a good fit for, best
+// first. Customers rated below the provider's minCustomerReliability are left
+// out; between equal matches the more reliable customer comes first.
+export const findMatchingRequests = async (
+  provider: Provider,
+  options: { limit?: number } = {}
+): Promise<Array<{ request: ServiceRequest; match: ProviderMatch; reliability: CustomerReliability | null }>> => {
+  const requests = (await requestsRepository.listOpen())
+    .filter(request => request.userId !== provider.userId)
+    .filter(request => skillFit(provider, request) >= MIN_SKILL_FIT)
+  const reliabilities = await getReliabilities(requests.map(request => request.userId))
+  return requests
+    .map(request => ({
+      request,
+      match: matchProvider(provider, request),
+      reliability: reliabilities.get(request.userId) ?? null
+    }))
+    .filter(({ reliability }) => meetsMinimum(reliability, provider.minCustomerReliability))
+    .sort((a, b) =>
+      b.match.matchScore - a.match.matchScore ||
+      (b.reliability?.score ?? PRIOR_RATING) - (a.reliability?.score ?? PRIOR_RATING)
+    )
+    .slice(0, options.limit ?? 5)
+}
+
+// Short natural-language explanation of an already computed ranking. The AI
+// only describes the providers it is given; it never adds or reorders them.
+export const explainRanking = async (request: MatchRequest, matches: ProviderMatch[]): Promise<string> => {
+  if (matches.length === 0) return ''
+
+  const ranking = matches
+    .slice(0, 5)
+    .map((match, index) =>
+      `${index + 1}. ${match.name} — ${match.matchScore}% match, skills: ${match.skills.join(', ')}, ` +
+      `$${match.hourlyRate}/hr (≈$${match.flatPrice} total), ${match.location || 'location unknown'}, ` +
+      `rating ${match.reviewCount > 0 ? match.rating : 'none yet'} from ${match.reviewCount} reviews, ${match.completedJobs} jobs\n   score breakdown: ` +
+      match.matchBreakdown.map(item => `${item.label} ${item.points}/${item.maxPoints}`).join(', ')
+    )
+    .join('\n')
+
+  const { text } = await blink.ai.generateText({
+    prompt: `A customer requested: ${request.service} in ${request.location}, budget $${request.budget}, timeline "${request.timeline}", about ${request.estimatedHours} hours.
+
+Our matching engine ranked these real providers:
+${ranking}
+
+In 2-3 sentences, explain to the customer why the top providers ranked where they did. Only refer to the providers listed above and the facts given. Do not invent providers, reviews or credentials.`,
+    maxTokens: 200
+  })
+
+  return text.trim()
+}
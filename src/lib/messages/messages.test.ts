@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository } from '../db/repository'
+import { listNotifications } from '../notifications/notify'
+import { MESSAGE_LIMITS, MessageError, getThread, markThreadRead, sendMessage, unreadCounts, uploadAttachment } from './messages'
+import type { Booking } from '../../types'
+
+const provider = { role: 'provider' as const, id: 'user_prov_maria' }
+
+let booking: Booking
+
+beforeEach(async () => {
+  const app = resetLocalApp()
+  booking = await bookingsRepository.create({
+    id: 'booking_test',
+    requestId: 'req_fixture_cleaning',
+    providerId: 'prov_maria',
+    userId: app.user.id,
+    scheduledTime: '2030-01-07T17:00:00.000Z',
+    finalPrice: 120,
+    status: 'scheduled',
+    paymentStatus: 'authorized',
+    history: [],
+    createdAt: '2030-01-01T00:00:00.000Z'
+  })
+})
+
+const customer = () => ({ role: 'customer' as const, id: booking.userId })
+
+describe('sendMessage', () => {
+  it('addresses each message to the other party and notifies them', async () => {
+    const toProvider = await sendMessage(booking, customer(), { body: '  The gate code is 1234  ' })
+    const toCustomer = await sendMessage(booking, provider, { body: 'Thanks, see you Monday' })
+
+    expect(toProvider).toMatchObject({ recipientId: 'user_prov_maria', senderRole: 'customer', body: 'The gate code is 1234' })
+    expect(toCustomer.recipientId).toBe(booking.userId)
+    expect(await listNotifications('user_prov_maria')).toMatchObject([
+      { kind: 'new_message', title: 'New message from your customer', body: 'The gate code is 1234', link: '/bookings/booking_test' }
+    ])
+  })
+
+  it('describes a photo-only message in the notification', async () => {
+    await sendMessage(booking, customer(), {
+      body: '',
+      attachments: [{ url: 'data:image/png;base64,', name: 'sink.png', contentType: 'image/png' }]
+    })
+
+    expect((await listNotifications('user_prov_maria'))[0].body).toBe('Sent 1 photo')
+  })
+
+  it('rejects empty, overlong and system messages without writing anything', async () => {
+    await expect(sendMessage(booking, customer(), { body: '   ' })).rejects.toBeInstanceOf(MessageError)
+    await expect(sendMessage(booking, customer(), { body: 'x'.repeat(MESSAGE_LIMITS.bodyLength + 1) }))
+      .rejects.toBeInstanceOf(MessageError)
+    await expect(sendMessage(booking, { role: 'system', id: 'system' }, { body: 'Hello' })).rejects.toBeInstanceOf(MessageError)
+    expect(await getThread(booking.id)).toEqual([])
+  })
+})
+
+describe('read receipts', () => {
+  it('counts unread messages per booking until the recipient opens the thread', async () => {
+    await sendMessage(booking, customer(), { body: 'Is parking on the street OK?' })
+    await sendMessage(booking, customer(), { body: 'Also, we have a cat' })
+    await sendMessage(booking, provider, { body: 'Yes, on my way' })
+
+    expect(await unreadCounts('user_prov_maria')).toEqual(new Map([['booking_test', 2]]))
+
+    const thread = await markThreadRead(await getThread(booking.id), 'user_prov_maria')
+    expect(thread.filter(message => message.senderRole === 'customer').every(message => message.readAt)).toBe(true)
+    // The provider reading doesn't mark their own message as seen by the customer
+    expect(thread.find(message => message.senderRole === 'provider')?.readAt).toBeUndefined()
+    expect(await unreadCounts('user_prov_maria')).toEqual(new Map())
+    expect(await unreadCounts(booking.userId)).toEqual(new Map([['booking_test', 1]]))
+  })
+})
+
+describe('uploadAttachment', () => {
+  it('only accepts photos up to the size limit', async () => {
+    const photo = new File(['png'], 'leak.png', { type: 'image/png' })
+    const pdf = new File(['%PDF'], 'invoice.pdf', { type: 'application/pdf' })
+    const huge = new File([new Uint8Array(MESSAGE_LIMITS.attachmentBytes + 1)], 'huge.jpg', { type: 'image/jpeg' })
+
+    expect(await uploadAttachment(booking, photo)).toMatchObject({ name: 'leak.png', contentType: 'image/png' })
+    await expect(uploadAttachment(booking, pdf)).rejects.toThrow("invoice.pdf isn't a photo")
+    await expect(uploadAttachment(booking, huge)).rejects.toThrow('huge.jpg is over 10 MB')
+  })
+})
@@ -0,0 +1,94 @@
+import { blink } from '../../blink/client'
+import { messagesRepository, providersRepository } from '../db/repository'
+import type { BookingActor } from '../bookings/lifecycle'
+import { notifyNewMessage } from '../notifications/events'
+import type { Booking, BookingMessage, MessageAttachment } from '../../types'
+
+// The thread between a booking's customer and provider. Every message has one
+// recipient, the other party, and records when they first saw it; that is
+// both the sender's read receipt and the recipient's unread count. Photos are
+// uploaded to storage and referenced by URL.
+
+export const MESSAGE_LIMITS = {
+  bodyLength: 2000,
+  attachments: 4,
+  // Per photo
+  attachmentBytes: 10 * 1024 * 1024
+}
+
+export class MessageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessageError'
+  }
+}
+
+export const getThread = (bookingId: string) => messagesRepository.listByBooking(bookingId)
+
+const recipientFor = async (booking: Booking, sender: BookingActor) => {
+  if (sender.role === 'provider') return booking.userId
+  const provider = await providersRepository.get(booking.providerId)
+  if (!provider) throw new MessageError('This provider is no longer on Homi')
+  return provider.userId
+}
+
+export const uploadAttachment = async (booking: Booking, file: File): Promise<MessageAttachment> => {
+  if (!file.type.startsWith('image/')) throw new MessageError(`${file.name} isn't a photo`)
+  if (file.size > MESSAGE_LIMITS.attachmentBytes) {
+    throw new MessageError(`${file.name} is over ${MESSAGE_LIMITS.attachmentBytes / (1024 * 1024)} MB`)
+  }
+  const path = `messages/${booking.id}/${Date.now()}_${file.name.replace(/[^\w.-]/g, '_')}`
+  const { publicUrl } = await blink.storage.upload(file, path)
+  return { url: publicUrl, name: file.name, contentType: file.type }
+}
+
+export const sendMessage = async (
+  booking: Booking,
+  sender: BookingActor,
+  content: { body: string; attachments?: MessageAttachment[] }
+): Promise<BookingMessage> => {
+  if (sender.role === 'system') throw new MessageError('Only the customer and provider can message here')
+  const body = content.body.trim()
+  const attachments = content.attachments ?? []
+  if (!body && attachments.length === 0) throw new MessageError('Write a message or attach a photo')
+  if (body.length > MESSAGE_LIMITS.bodyLength) {
+    throw new MessageError(`Messages can be up to ${MESSAGE_LIMITS.bodyLength} characters`)
+  }
+  if (attachments.length > MESSAGE_LIMITS.attachments) {
+    throw new MessageError(`Attach up to ${MESSAGE_LIMITS.attachments} photos per message`)
+  }
+
+  const message = await messagesRepository.create({
+    id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    bookingId: booking.id,
+    requestId: booking.requestId,
+    senderId: sender.id,
+    senderRole: sender.role,
+    recipientId: await recipientFor(booking, sender),
+    body,
+    attachments,
+    createdAt: new Date().toISOString()
+  })
+  await notifyNewMessage(message)
+  return message
+}
+
+// Marks everything sent to `userId` in the thread as read and returns the
+// thread as it now stands
+export const markThreadRead = async (messages: BookingMessage[], userId: string): Promise<BookingMessage[]> => {
+  const readAt = new Date().toISOString()
+  return Promise.all(messages.map(message =>
+    message.recipientId === userId && !message.readAt
+      ? messagesRepository.update(message.id, { ...message, readAt })
+      : message
+  ))
+}
+
+// Unread messages for a user, keyed by booking id
+export const unreadCounts = async (userId: string): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>()
+  for (const message of await messagesRepository.listByRecipient(userId)) {
+    if (!message.readAt) counts.set(message.bookingId, (counts.get(message.bookingId) ?? 0) + 1)
+  }
+  return counts
+}
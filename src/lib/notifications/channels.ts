@@ -0,0 +1,135 @@
+import type { NotificationChannelKind, NotificationPreferences, UserNotification } from '../../types'
+
+// Delivery adapters for copies of in-app notifications. notify() hands each
+// notification to the channels the user opted into (see NotificationPreferences);
+// every channel sends to the address the user gave for it.
+
+export interface NotificationChannel {
+  kind: NotificationChannelKind
+  // Whether the user gave this channel somewhere to deliver to
+  canDeliver(preferences: NotificationPreferences): boolean
+  deliver(notification: UserNotification, preferences: NotificationPreferences): Promise<void>
+}
+
+export const CHANNEL_KINDS: NotificationChannelKind[] = ['email', 'sms', 'push']
+
+export const channelLabels: Record<NotificationChannelKind, string> = {
+  email: 'Email',
+  sms: 'Text message',
+  push: 'Browser notifications'
+}
+
+export class NotificationDeliveryError extends Error {
+  channel: NotificationChannelKind
+
+  constructor(channel: NotificationChannelKind, message: string) {
+    super(message)
+    this.name = 'NotificationDeliveryError'
+    this.channel = channel
+  }
+}
+
+export const addressFor = (kind: NotificationChannelKind, preferences: NotificationPreferences) => {
+  if (kind === 'email') return preferences.email
+  if (kind === 'sms') return preferences.phone
+  return preferences.pushSubscription?.endpoint ?? ''
+}
+
+// Links in email and texts have to work outside the app
+const absoluteLink = (link: string) =>
+  typeof location === 'undefined' ? link : new URL(link, location.origin).toString()
+
+export interface LoggedDelivery {
+  channel: NotificationChannelKind
+  to: string
+  title: string
+  body: string
+  link: string
+  at: string
+}
+
+// What the log channels would have sent, oldest first. Shown under
+// Notification Settings while the app runs without a notifications API.
+export const deliveryLog: LoggedDelivery[] = []
+
+// Development stand-in that records deliveries in `log` instead of sending
+// them. Push needs no subscription here, so it can be tried without a push
+// service.
+export const createLogChannel = (
+  kind: NotificationChannelKind,
+  log: LoggedDelivery[] = deliveryLog
+): NotificationChannel & { log: LoggedDelivery[] } => ({
+  kind,
+  log,
+  canDeliver: preferences => kind === 'push' || Boolean(addressFor(kind, preferences)),
+  async deliver(notification, preferences) {
+    const delivery: LoggedDelivery = {
+      channel: kind,
+      to: addressFor(kind, preferences) || 'this browser',
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      at: new Date().toISOString()
+    }
+    log.push(delivery)
+  }
+})
+
+// Talks to a notifications API that holds the email, SMS and push
+// credentials server-side:
+//
+//   POST /email   { to, subject, text, link }
+//   POST /sms     { to, text }
+//   POST /push    { subscription, title, body, link }
+//
+// Errors are { error: { message } }.
+export const createHttpChannels = (baseUrl: string): NotificationChannel[] => {
+  const post = async (kind: NotificationChannelKind, body: unknown) => {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/${kind}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+    } catch {
+      throw new NotificationDeliveryError(kind, 'Could not reach the notification service')
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null)
+      throw new NotificationDeliveryError(kind, payload?.error?.message ?? `Notification request failed (${response.status})`)
+    }
+  }
+
+  return [
+    {
+      kind: 'email',
+      canDeliver: preferences => Boolean(preferences.email),
+      deliver: (notification, preferences) => post('email', {
+        to: preferences.email,
+        subject: notification.title,
+        text: notification.body,
+        link: absoluteLink(notification.link)
+      })
+    },
+    {
+      kind: 'sms',
+      canDeliver: preferences => Boolean(preferences.phone),
+      deliver: (notification, preferences) => post('sms', {
+        to: preferences.phone,
+        text: `${notification.title}. ${absoluteLink(notification.link)}`
+      })
+    },
+    {
+      kind: 'push',
+      canDeliver: preferences => Boolean(preferences.pushSubscription),
+      deliver: (notification, preferences) => post('push', {
+        subscription: preferences.pushSubscription,
+        title: notification.title,
+        body: notification.body,
+        link: absoluteLink(notification.link)
+      })
+    }
+  ]
+}
@@ -0,0 +1,38 @@
+import { CHANNEL_KINDS, createHttpChannels, createLogChannel, type NotificationChannel } from './channels'
+
+// Notification settings come from Vite env vars (see .env.example). Without a
+// notifications API, deliveries are only recorded in deliveryLog.
+
+export type NotificationsProviderKind = 'local' | 'http'
+
+export interface NotificationsConfig {
+  provider: NotificationsProviderKind
+  apiUrl: string
+  // VAPID public key for web push subscriptions
+  pushPublicKey: string
+}
+
+const apiUrl = import.meta.env.VITE_NOTIFICATIONS_API_URL || ''
+
+export const notificationsConfig: NotificationsConfig = {
+  provider: import.meta.env.VITE_NOTIFICATIONS_PROVIDER === 'http' && apiUrl ? 'http' : 'local',
+  apiUrl,
+  pushPublicKey: import.meta.env.VITE_PUSH_PUBLIC_KEY || ''
+}
+
+export const createNotificationChannels = (config: NotificationsConfig): NotificationChannel[] =>
+  config.provider === 'http'
+    ? createHttpChannels(config.apiUrl)
+    : CHANNEL_KINDS.map(kind => createLogChannel(kind))
+
+let current: NotificationChannel[] | null = null
+
+export const getNotificationChannels = (): NotificationChannel[] => {
+  if (!current) current = createNotificationChannels(notificationsConfig)
+  return current
+}
+
+// Swap the delivery channels, e.g. for tests. Call before the app renders.
+export const setNotificationChannels = (channels: NotificationChannel[]) => {
+  current = channels
+}
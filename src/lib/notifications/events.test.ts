@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository, customerRatingsRepository, providersRepository, requestsRepository } from '../db/repository'
+import { notifyBookingEvent, notifyRequestPublished } from './events'
+import { listNotifications } from './notify'
+import type { Booking, BookingEvent } from '../../types'
+
+const PROVIDER_USER = 'user_prov_maria'
+
+let booking: Booking
+
+beforeEach(async () => {
+  const app = resetLocalApp()
+  booking = await bookingsRepository.create({
+    id: 'booking_test',
+    requestId: 'req_fixture_cleaning',
+    providerId: 'prov_maria',
+    userId: app.user.id,
+    scheduledTime: '2030-01-07T17:00:00.000Z',
+    timeZone: 'America/Los_Angeles',
+    finalPrice: 120,
+    status: 'scheduled',
+    paymentStatus: 'authorized',
+    history: [],
+    createdAt: '2030-01-01T00:00:00.000Z'
+  })
+})
+
+const event = (from: BookingEvent['from'], to: BookingEvent['to'], role: BookingEvent['role'], note?: string): BookingEvent =>
+  ({ from, to, role, actorId: role, at: '2030-01-02T00:00:00.000Z', note })
+
+describe('notifyBookingEvent', () => {
+  it('tells the other party about a cancellation, with the time and policy note', async () => {
+    await notifyBookingEvent(booking, event('scheduled', 'cancelled', 'customer', 'Plans changed'))
+
+    expect(await listNotifications(PROVIDER_USER)).toMatchObject([{
+      kind: 'booking_cancelled',
+      title: 'Deep cleaning was cancelled',
+      link: '/bookings/booking_test',
+      body: expect.stringMatching(/Plans changed$/)
+    }])
+    expect(await listNotifications(booking.userId)).toEqual([])
+  })
+
+  it('announces a plain acceptance once, when the booking is scheduled', async () => {
+    await notifyBookingEvent(booking, event('requested', 'accepted', 'provider'))
+    expect(await listNotifications(booking.userId)).toEqual([])
+
+    await notifyBookingEvent(booking, event('accepted', 'scheduled', 'provider'))
+    expect(await listNotifications(booking.userId)).toMatchObject([{ kind: 'booking_confirmed', title: 'Maria Lopez confirmed your booking' }])
+  })
+
+  it('sends system changes and provider reschedules to the customer', async () => {
+    await notifyBookingEvent(booking, event('requested', 'cancelled', 'system', 'Card authorization failed'))
+    await notifyBookingEvent(booking, event('scheduled', 'scheduled', 'provider'))
+
+    expect((await listNotifications(booking.userId)).map(notification => notification.kind).sort())
+      .toEqual(['booking_cancelled', 'booking_rescheduled'])
+    expect(await listNotifications(PROVIDER_USER)).toEqual([])
+  })
+})
+
+describe('notifyRequestPublished', () => {
+  it('tells matching providers unless the customer is below their minimum', async () => {
+    const request = (await requestsRepository.get('req_fixture_cleaning'))!
+    await notifyRequestPublished(request)
+    expect(await listNotifications(PROVIDER_USER)).toMatchObject([{ kind: 'request_matched', requestId: request.id }])
+
+    const maria = (await providersRepository.get('prov_maria'))!
+    await providersRepository.save({ ...maria, minCustomerReliability: 4 })
+    await customerRatingsRepository.create({
+      id: 'customer_rating_booking_test',
+      bookingId: booking.id,
+      providerId: 'prov_maria',
+      userId: request.userId,
+      punctuality: 1,
+      accuracy: 1,
+      payment: 1,
+      comment: '',
+      createdAt: new Date().toISOString()
+    })
+    await notifyRequestPublished(request)
+    expect(await listNotifications(PROVIDER_USER)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,120 @@
+import { providersRepository, requestsRepository } from '../db/repository'
+import { findMatchingProviders } from '../matching'
+import { getReliability, meetsMinimum } from '../reviews/reliability'
+import { formatDateTime } from '../timezones'
+import { notify } from './notify'
+import type { Booking, BookingEvent, BookingMessage, NotificationKind, ServiceRequest } from '../../types'
+
+// Turns booking and request changes into notifications for the other party.
+// Callers await these after their own write has succeeded; failures are
+// logged here so a notification problem never undoes or blocks the change.
+
+// How many of the best-matching providers hear about a new request
+const MATCHED_PROVIDERS = 3
+// Characters of a message shown in its notification
+const MESSAGE_PREVIEW = 140
+
+interface BookingNotice {
+  to: 'customer' | 'provider'
+  kind: NotificationKind
+  title: string
+}
+
+// Who hears about a history event and what it says. Accepting without a
+// proposal is followed straight away by 'scheduled', which is the one
+// announced; 'system' changes (e.g. a failed card) go to the customer.
+const noticeFor = (booking: Booking, event: BookingEvent, providerName: string, service: string): BookingNotice | null => {
+  const other = event.role === 'customer' ? 'provider' : 'customer'
+  if (event.from === event.to) return { to: other, kind: 'booking_rescheduled', title: `${service} was rescheduled` }
+
+  switch (event.to) {
+    case 'requested':
+      return { to: 'provider', kind: 'booking_requested', title: `New booking request: ${service}` }
+    case 'accepted':
+      return booking.proposal
+        ? { to: 'customer', kind: 'changes_proposed', title: `${providerName} proposed changes to your booking` }
+        : null
+    case 'scheduled':
+      return event.role === 'customer'
+        ? { to: 'provider', kind: 'booking_confirmed', title: `The customer accepted your changes to ${service}` }
+        : { to: 'customer', kind: 'booking_confirmed', title: `${providerName} confirmed your booking` }
+    case 'declined':
+      return { to: 'customer', kind: 'booking_declined', title: `${providerName} declined your booking request` }
+    case 'cancelled':
+      return { to: other, kind: 'booking_cancelled', title: `${service} was cancelled` }
+    case 'in_progress':
+      return { to: 'customer', kind: 'job_started', title: `${providerName} started the job` }
+    case 'completed':
+      return { to: 'customer', kind: 'job_completed', title: `${service} is done. How did it go?` }
+    case 'reviewed':
+      return { to: 'provider', kind: 'booking_reviewed', title: `You got a new review for ${service}` }
+    case 'disputed':
+      return { to: 'provider', kind: 'booking_disputed', title: `The customer reported a problem with ${service}` }
+  }
+}
+
+export const notifyBookingEvent = async (booking: Booking, event: BookingEvent) => {
+  try {
+    const [provider, request] = await Promise.all([
+      providersRepository.get(booking.providerId),
+      requestsRepository.get(booking.requestId)
+    ])
+    const notice = noticeFor(booking, event, provider?.name ?? 'Your provider', request?.service ?? 'Your booking')
+    if (!notice) return
+    const userId = notice.to === 'customer' ? booking.userId : provider?.userId
+    if (!userId) return
+
+    await notify({
+      userId,
+      kind: notice.kind,
+      title: notice.title,
+      body: [formatDateTime(booking.scheduledTime, booking.timeZone), event.note].filter(Boolean).join('. '),
+      link: `/bookings/${booking.id}`,
+      bookingId: booking.id,
+      requestId: booking.requestId
+    })
+  } catch (error) {
+    console.error('Error sending booking notification:', error)
+  }
+}
+
+// Tells the best-matching providers about a request that just opened,
+// skipping those whose minimum customer reliability the customer is below
+export const notifyRequestPublished = async (request: ServiceRequest) => {
+  try {
+    const [matches, reliability] = await Promise.all([
+      findMatchingProviders(request, { excludeUserId: request.userId, limit: MATCHED_PROVIDERS }),
+      getReliability(request.userId)
+    ])
+    await Promise.all(matches
+      .filter(match => meetsMinimum(reliability, match.minCustomerReliability))
+      .map(match => notify({
+        userId: match.userId,
+        kind: 'request_matched',
+        title: `New ${request.service} request in ${request.location}`,
+        body: `${match.matchScore}% match. ${request.timeline}`,
+        link: '/provider',
+        requestId: request.id
+      })))
+  } catch (error) {
+    console.error('Error sending request notifications:', error)
+  }
+}
+
+export const notifyNewMessage = async (message: BookingMessage) => {
+  try {
+    const photos = message.attachments.length
+    const preview = message.body.length > MESSAGE_PREVIEW ? `${message.body.slice(0, MESSAGE_PREVIEW)}…` : message.body
+    await notify({
+      userId: message.recipientId,
+      kind: 'new_message',
+      title: `New message from your ${message.senderRole}`,
+      body: preview || `Sent ${photos} photo${photos === 1 ? '' : 's'}`,
+      link: `/bookings/${message.bookingId}`,
+      bookingId: message.bookingId,
+      requestId: message.requestId || undefined
+    })
+  } catch (error) {
+    console.error('Error sending message notification:', error)
+  }
+}
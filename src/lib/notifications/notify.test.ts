@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { NotificationDeliveryError, createLogChannel } from './channels'
+import { setNotificationChannels } from './client'
+import {
+  NotificationSettingsError,
+  getPreferences,
+  listNotifications,
+  markAllNotificationsRead,
+  notify,
+  savePreferences
+} from './notify'
+
+let app: ReturnType<typeof resetLocalApp>
+
+beforeEach(() => {
+  app = resetLocalApp()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+const notice = {
+  userId: 'local_user',
+  kind: 'booking_confirmed' as const,
+  title: 'Maria Lopez confirmed your booking',
+  body: 'Mon, Jan 7, 9:00 AM',
+  link: '/bookings/booking_test',
+  bookingId: 'booking_test'
+}
+
+describe('notify', () => {
+  it('keeps an in-app copy only until the user opts into channels', async () => {
+    const saved = await notify(notice)
+
+    expect(await listNotifications('local_user')).toEqual([saved])
+    expect(saved.readAt).toBeUndefined()
+    expect(app.deliveries).toEqual([])
+  })
+
+  it('sends a copy to each channel the user opted into', async () => {
+    await savePreferences({ userId: 'local_user', channels: ['email', 'push'], email: 'demo@example.com', phone: '', updatedAt: '' })
+    await notify(notice)
+
+    expect(app.deliveries).toMatchObject([
+      { channel: 'email', to: 'demo@example.com', title: notice.title, link: notice.link },
+      { channel: 'push', to: 'this browser', title: notice.title }
+    ])
+  })
+
+  it('keeps the in-app copy when a channel fails', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const email = createLogChannel('email')
+    setNotificationChannels([
+      { ...email, deliver: () => Promise.reject(new NotificationDeliveryError('email', 'Mailbox unavailable')) },
+      createLogChannel('sms')
+    ])
+    await savePreferences({ userId: 'local_user', channels: ['email', 'sms'], email: 'demo@example.com', phone: '+1 555 123 4567', updatedAt: '' })
+    await notify(notice)
+
+    expect(await listNotifications('local_user')).toHaveLength(1)
+    expect(app.deliveries).toMatchObject([{ channel: 'sms', to: '+1 555 123 4567' }])
+    expect(logged).toHaveBeenCalledWith('Could not send email notification:', expect.any(NotificationDeliveryError))
+  })
+})
+
+describe('savePreferences', () => {
+  it('needs an address for email and text messages', async () => {
+    await expect(savePreferences({ userId: 'local_user', channels: ['email'], email: 'not an email', phone: '', updatedAt: '' }))
+      .rejects.toBeInstanceOf(NotificationSettingsError)
+    await expect(savePreferences({ userId: 'local_user', channels: ['sms'], email: '', phone: '555', updatedAt: '' }))
+      .rejects.toBeInstanceOf(NotificationSettingsError)
+    expect((await getPreferences('local_user')).channels).toEqual([])
+  })
+
+  it('trims what it stores', async () => {
+    await savePreferences({ userId: 'local_user', channels: ['sms'], email: '', phone: ' +1 555 123 4567 ', updatedAt: '' })
+
+    expect(await getPreferences('local_user')).toMatchObject({ channels: ['sms'], phone: '+1 555 123 4567' })
+  })
+})
+
+describe('markAllNotificationsRead', () => {
+  it('stamps unread notifications and leaves read ones alone', async () => {
+    await notify(notice)
+    const [first] = await markAllNotificationsRead(await listNotifications('local_user'))
+    await notify({ ...notice, title: 'Maria Lopez started the job' })
+    const again = await markAllNotificationsRead(await listNotifications('local_user'))
+
+    expect(again.every(notification => notification.readAt)).toBe(true)
+    expect(again.find(notification => notification.id === first.id)?.readAt).toBe(first.readAt)
+  })
+})
@@ -0,0 +1,66 @@
+import { notificationPreferencesRepository, notificationsRepository } from '../db/repository'
+import { getNotificationChannels } from './client'
+import type { NotificationPreferences, UserNotification } from '../../types'
+
+// Every notification is stored for the in-app bell, then copied to the
+// channels the user opted into. A failed delivery is logged and never loses
+// the in-app copy.
+
+export class NotificationSettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotificationSettingsError'
+  }
+}
+
+// In-app only until the user opts into more
+export const defaultPreferences = (userId: string): NotificationPreferences => ({
+  userId,
+  channels: [],
+  email: '',
+  phone: '',
+  updatedAt: ''
+})
+
+export const getPreferences = async (userId: string) =>
+  (await notificationPreferencesRepository.get(userId)) ?? defaultPreferences(userId)
+
+export const savePreferences = async (preferences: NotificationPreferences): Promise<NotificationPreferences> => {
+  const email = preferences.email.trim()
+  const phone = preferences.phone.trim()
+  if (preferences.channels.includes('email') && !/^\S+@\S+\.\S+$/.test(email)) {
+    throw new NotificationSettingsError('Enter an email address to get notifications by email')
+  }
+  if (preferences.channels.includes('sms') && phone.replace(/\D/g, '').length < 7) {
+    throw new NotificationSettingsError('Enter a phone number to get text messages')
+  }
+  return notificationPreferencesRepository.save({ ...preferences, email, phone, updatedAt: new Date().toISOString() })
+}
+
+export const notify = async (
+  content: Omit<UserNotification, 'id' | 'createdAt' | 'readAt'>
+): Promise<UserNotification> => {
+  const notification = await notificationsRepository.create({
+    ...content,
+    id: `ntf_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString()
+  })
+  const preferences = await getPreferences(content.userId)
+  const channels = getNotificationChannels()
+    .filter(channel => preferences.channels.includes(channel.kind) && channel.canDeliver(preferences))
+  await Promise.all(channels.map(channel =>
+    channel.deliver(notification, preferences)
+      .catch(error => console.error(`Could not send ${channel.kind} notification:`, error))
+  ))
+  return notification
+}
+
+export const listNotifications = (userId: string) => notificationsRepository.listByUser(userId)
+
+export const markNotificationRead = async (notification: UserNotification): Promise<UserNotification> =>
+  notification.readAt
+    ? notification
+    : notificationsRepository.update(notification.id, { ...notification, readAt: new Date().toISOString() })
+
+export const markAllNotificationsRead = (notifications: UserNotification[]) =>
+  Promise.all(notifications.map(markNotificationRead))
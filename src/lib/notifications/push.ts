@@ -0,0 +1,31 @@
+import { notificationsConfig } from './client'
+import { NotificationSettingsError } from './notify'
+
+// Browser side of web push: asks for permission, registers public/push-sw.js
+// and subscribes with the VAPID key. Without a key (local development) there
+// is no push service to subscribe to and the log channel stands in.
+
+const SERVICE_WORKER_URL = '/push-sw.js'
+
+export const pushSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+
+// VAPID keys are URL-safe base64
+const decodeKey = (key: string) => {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+export const subscribeToPush = async (): Promise<PushSubscriptionJSON | undefined> => {
+  if (!notificationsConfig.pushPublicKey) return undefined
+  if (!pushSupported()) throw new NotificationSettingsError("This browser can't show notifications")
+  if ((await Notification.requestPermission()) !== 'granted') {
+    throw new NotificationSettingsError('Allow notifications for Homi in your browser settings first')
+  }
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeKey(notificationsConfig.pushPublicKey)
+  })
+  return subscription.toJSON()
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository, ledgerRepository } from '../db/repository'
+import { authorizeBooking, captureBooking, reauthorizeBooking, releaseBooking } from './bookings'
+import { setPaymentProvider } from './client'
+import { PaymentError } from './provider'
+import type { Booking } from '../../types'
+
+let app: ReturnType<typeof resetLocalApp>
+
+beforeEach(() => {
+  app = resetLocalApp()
+})
+
+const newBooking = () => bookingsRepository.create({
+  id: 'booking_pay',
+  requestId: 'req_fixture_cleaning',
+  providerId: 'prov_maria',
+  userId: app.user.id,
+  scheduledTime: '2030-01-07T17:00:00.000Z',
+  finalPrice: 120,
+  status: 'requested',
+  paymentStatus: 'pending',
+  history: [],
+  createdAt: '2030-01-01T00:00:00.000Z'
+})
+
+const intent = (booking: Booking) => app.payments.intents().find(item => item.id === booking.paymentIntentId)
+
+describe('authorizeBooking', () => {
+  it('places a hold for the booking total', async () => {
+    const booking = await authorizeBooking(await newBooking())
+
+    expect(booking.paymentStatus).toBe('authorized')
+    expect(intent(booking)).toMatchObject({ status: 'requires_capture', amount: 12000 })
+  })
+
+  it('marks the payment failed when the card is declined', async () => {
+    app.payments.declineNext()
+
+    await expect(authorizeBooking(await newBooking())).rejects.toBeInstanceOf(PaymentError)
+    expect((await bookingsRepository.get('booking_pay'))?.paymentStatus).toBe('failed')
+  })
+})
+
+describe('reauthorizeBooking', () => {
+  it('replaces the hold when the price changes', async () => {
+    const booking = await authorizeBooking(await newBooking())
+    const repriced = await reauthorizeBooking(booking, { finalPrice: 150 })
+
+    expect(repriced).toMatchObject({ finalPrice: 150, paymentStatus: 'authorized' })
+    expect(repriced.paymentIntentId).not.toBe(booking.paymentIntentId)
+    expect(intent(repriced)).toMatchObject({ status: 'requires_capture', amount: 15000 })
+    expect(intent(booking)?.status).toBe('canceled')
+  })
+
+  it('keeps the old hold when the new one is declined', async () => {
+    const booking = await authorizeBooking(await newBooking())
+    app.payments.declineNext()
+
+    await expect(reauthorizeBooking(booking, { finalPrice: 150 })).rejects.toBeInstanceOf(PaymentError)
+    expect(intent(booking)?.status).toBe('requires_capture')
+    expect(await bookingsRepository.get(booking.id)).toMatchObject({ finalPrice: 120, paymentIntentId: booking.paymentIntentId })
+  })
+
+  it('voids the new hold when the old one cannot be released, so a retry starts clean', async () => {
+    const booking = await authorizeBooking(await newBooking())
+    setPaymentProvider({
+      ...app.payments,
+      void: intentId => intentId === booking.paymentIntentId
+        ? Promise.reject(new PaymentError('provider_error', 'Could not reach the payment service'))
+        : app.payments.void(intentId)
+    })
+
+    await expect(reauthorizeBooking(booking, { finalPrice: 150 })).rejects.toThrow('Could not reach the payment service')
+    expect(app.payments.intents().filter(item => item.status === 'requires_capture').map(item => item.id))
+      .toEqual([booking.paymentIntentId])
+    expect(await bookingsRepository.get(booking.id)).toMatchObject({ finalPrice: 120, paymentIntentId: booking.paymentIntentId })
+
+    setPaymentProvider(app.payments)
+    const repriced = await reauthorizeBooking(booking, { finalPrice: 150 })
+    expect(intent(repriced)).toMatchObject({ status: 'requires_capture', amount: 15000 })
+    expect(app.payments.intents().filter(item => item.status === 'requires_capture')).toHaveLength(1)
+  })
+})
+
+describe('captureBooking and releaseBooking', () => {
+  it('posts the captured amount to escrow and refunds from it', async () => {
+    const booking = await authorizeBooking(await newBooking())
+    const captured = await captureBooking(booking, {}, 50)
+    expect(captured.paymentStatus).toBe('captured')
+    expect(intent(captured)).toMatchObject({ amountCaptured: 5000 })
+
+    const refunded = await releaseBooking(captured, {}, 20)
+    expect(refunded.paymentStatus).toBe('partially_refunded')
+    const entries = await ledgerRepository.listByBooking(booking.id)
+    expect(entries.map(entry => [entry.kind, entry.account, entry.debit, entry.credit])).toEqual([
+      ['charge', 'cash', 5000, 0],
+      ['charge', 'escrow', 0, 5000],
+      ['refund', 'escrow', 2000, 0],
+      ['refund', 'cash', 0, 2000]
+    ])
+  })
+
+  it('voids a hold that was never captured', async () => {
+    const booking = await authorizeBooking(await newBooking())
+    const released = await releaseBooking(booking)
+
+    expect(released.paymentStatus).toBe('voided')
+    expect(intent(booking)?.status).toBe('canceled')
+    await expect(captureBooking(released)).rejects.toThrow('cannot go from voided to captured')
+  })
+})
@@ -0,0 +1,137 @@
+import { bookingsRepository } from '../db/repository'
+import { recordCharge, recordRefund } from '../ledger/entries'
+import type { Booking, PaymentStatus } from '../../types'
+import { getPaymentProvider } from './client'
+import { PaymentError, toCents, type PaymentIntent } from './provider'
+
+// Moves a booking's money through the payment provider. booking.paymentStatus
+// is only ever written here, from the state the provider reports back, and
+// every capture and refund is posted to the ledger (../ledger/entries).
+
+const transitions: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['authorized', 'captured', 'failed'],
+  // authorized → authorized replaces the hold after a price change
+  authorized: ['captured', 'voided', 'authorized'],
+  captured: ['refunded', 'partially_refunded'],
+  partially_refunded: ['refunded', 'partially_refunded'],
+  failed: ['authorized', 'captured', 'failed'],
+  voided: [],
+  refunded: []
+}
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  pending: 'Not charged',
+  authorized: 'Card authorized',
+  captured: 'Paid',
+  voided: 'Hold released',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially refunded',
+  failed: 'Payment failed'
+}
+
+const statusOf = (intent: PaymentIntent): PaymentStatus => {
+  switch (intent.status) {
+    case 'requires_capture': return 'authorized'
+    case 'succeeded': return 'captured'
+    case 'canceled': return 'voided'
+    case 'refunded': return 'refunded'
+    case 'partially_refunded': return 'partially_refunded'
+  }
+}
+
+const assertTransition = (booking: Booking, next: PaymentStatus) => {
+  if (!transitions[booking.paymentStatus].includes(next)) {
+    throw new PaymentError('invalid_state', `Booking payment cannot go from ${booking.paymentStatus} to ${next}`)
+  }
+}
+
+const record = (booking: Booking, intent: PaymentIntent, changes: Partial<Booking>) => {
+  const paymentStatus = statusOf(intent)
+  assertTransition(booking, paymentStatus)
+  return bookingsRepository.update(booking.id, { ...changes, paymentStatus, paymentIntentId: intent.id })
+}
+
+// null places the hold without an idempotency key
+const placeHold = (booking: Booking, idempotencyKey: string | null = `authorize:${booking.id}:${toCents(booking.finalPrice)}`) =>
+  getPaymentProvider().authorize({
+    amount: toCents(booking.finalPrice),
+    currency: booking.quote?.currency ?? 'USD',
+    customerId: booking.userId,
+    description: `Homi booking ${booking.id}`,
+    metadata: { bookingId: booking.id, requestId: booking.requestId, providerId: booking.providerId },
+    idempotencyKey: idempotencyKey ?? undefined
+  })
+
+// Places a hold for the booking's total. A declined card marks the payment
+// failed and the PaymentError is rethrown.
+export const authorizeBooking = async (booking: Booking): Promise<Booking> => {
+  assertTransition(booking, 'authorized')
+  let intent: PaymentIntent
+  try {
+    intent = await placeHold(booking)
+  } catch (error) {
+    await bookingsRepository.update(booking.id, { paymentStatus: 'failed' })
+    throw error
+  }
+  return record(booking, intent, {})
+}
+
+// Swaps the hold for one matching a new total (changes.finalPrice). The old
+// hold is only released once the new one has been authorized, and if it
+// can't be released the new one is voided again so the card never carries
+// both; the booking keeps its old price and hold and the error is rethrown.
+export const reauthorizeBooking = async (booking: Booking, changes: Partial<Booking>): Promise<Booking> => {
+  const next = { ...booking, ...changes }
+  if (booking.paymentStatus !== 'authorized' || !booking.paymentIntentId || next.finalPrice === booking.finalPrice) {
+    return bookingsRepository.update(booking.id, changes)
+  }
+  const provider = getPaymentProvider()
+  // No idempotency key: a retry after a rollback needs a fresh hold, not the voided one
+  const intent = await placeHold(next, null)
+  try {
+    await provider.void(booking.paymentIntentId)
+  } catch (error) {
+    await provider.void(intent.id).catch(voidError => console.error('Error voiding replacement hold:', voidError))
+    throw error
+  }
+  return record(booking, intent, changes)
+}
+
+// Charges the hold, e.g. when the job is completed. Bookings made before
+// payments existed have no hold yet, so one is placed first. An amount in
+// dollars captures only that much, e.g. a late-cancellation fee, and the
+// rest of the hold is released.
+export const captureBooking = async (
+  booking: Booking,
+  changes: Partial<Booking> = {},
+  amount?: number
+): Promise<Booking> => {
+  assertTransition(booking, 'captured')
+  const provider = getPaymentProvider()
+  const intentId = booking.paymentIntentId ?? (await placeHold(booking)).id
+  const intent = await provider.capture(intentId, amount === undefined ? undefined : toCents(amount))
+  const updated = await record(booking, intent, changes)
+  await recordCharge(updated, intent.amountCaptured)
+  return updated
+}
+
+// Gives the money back: an uncaptured hold is voided, a captured payment is
+// refunded (in full unless an amount in dollars is given).
+export const releaseBooking = async (
+  booking: Booking,
+  changes: Partial<Booking> = {},
+  amount?: number
+): Promise<Booking> => {
+  const provider = getPaymentProvider()
+  if (!booking.paymentIntentId) {
+    // Nothing was ever authorized, so there is nothing to release
+    return bookingsRepository.update(booking.id, changes)
+  }
+  if (booking.paymentStatus === 'authorized') {
+    return record(booking, await provider.void(booking.paymentIntentId), changes)
+  }
+  const intent = await provider.refund(booking.paymentIntentId, amount === undefined ? undefined : toCents(amount))
+  const updated = await record(booking, intent, changes)
+  await recordRefund(updated, intent.amountRefunded)
+  return updated
+}
@@ -0,0 +1,38 @@
+import { blinkConfig } from '../../blink/config'
+import { createHttpPaymentProvider } from './http'
+import { createLocalPaymentProvider } from './local'
+import type { PaymentProvider } from './provider'
+
+// Payment settings come from Vite env vars (see .env.example). Without a
+// payments API the local fake is used, so bookings work in development.
+
+export type PaymentProviderKind = 'local' | 'http'
+
+export interface PaymentsConfig {
+  provider: PaymentProviderKind
+  apiUrl: string
+}
+
+const apiUrl = import.meta.env.VITE_PAYMENTS_API_URL || ''
+
+export const paymentsConfig: PaymentsConfig = {
+  provider: import.meta.env.VITE_PAYMENTS_PROVIDER === 'http' && apiUrl ? 'http' : 'local',
+  apiUrl
+}
+
+export const createPaymentProvider = (config: PaymentsConfig): PaymentProvider =>
+  config.provider === 'http'
+    ? createHttpPaymentProvider(config.apiUrl)
+    : createLocalPaymentProvider({ storageKey: `homi:local-payments:${blinkConfig.projectId}` })
+
+let current: PaymentProvider | null = null
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!current) current = createPaymentProvider(paymentsConfig)
+  return current
+}
+
+// Swap the payment provider, e.g. for tests. Call before the app renders.
+export const setPaymentProvider = (provider: PaymentProvider) => {
+  current = provider
+}
@@ -0,0 +1,59 @@
+import { PaymentError, type PaymentErrorCode, type PaymentIntent, type PaymentProvider } from './provider'
+
+// Talks to a payments API that keeps the processor's secret key server-side
+// and exposes Stripe-shaped endpoints:
+//
+//   POST /payment_intents                 authorize (manual capture)
+//   POST /payment_intents/:id/capture     { amount? }
+//   POST /payment_intents/:id/cancel
+//   POST /payment_intents/:id/refunds     { amount? }
+//   GET  /payment_intents/:id
+//
+// Responses are PaymentIntent JSON; errors are { error: { code, message } }.
+
+const knownCodes: PaymentErrorCode[] = [
+  'card_declined',
+  'insufficient_funds',
+  'invalid_amount',
+  'invalid_state',
+  'not_found'
+]
+
+export const createHttpPaymentProvider = (baseUrl: string): PaymentProvider => {
+  const call = async (
+    path: string,
+    init: { method?: 'GET' | 'POST'; body?: unknown; idempotencyKey?: string } = {}
+  ): Promise<PaymentIntent> => {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        method: init.method ?? 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(init.idempotencyKey ? { 'Idempotency-Key': init.idempotencyKey } : {})
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body)
+      })
+    } catch {
+      throw new PaymentError('provider_error', 'Could not reach the payment service')
+    }
+
+    const payload = await response.json().catch(() => null)
+    if (!response.ok) {
+      const error = payload?.error
+      const code = knownCodes.includes(error?.code) ? error.code : 'provider_error'
+      throw new PaymentError(code, error?.message ?? `Payment request failed (${response.status})`)
+    }
+    return payload as PaymentIntent
+  }
+
+  return {
+    authorize: ({ idempotencyKey, ...params }) =>
+      call('/payment_intents', { body: { ...params, captureMethod: 'manual' }, idempotencyKey }),
+    capture: (intentId, amount) => call(`/payment_intents/${intentId}/capture`, { body: { amount } }),
+    void: intentId => call(`/payment_intents/${intentId}/cancel`),
+    refund: (intentId, amount) => call(`/payment_intents/${intentId}/refunds`, { body: { amount } }),
+    retrieve: intentId => call(`/payment_intents/${intentId}`, { method: 'GET' })
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalPaymentProvider } from './local'
+import { PaymentError } from './provider'
+
+const params = { amount: 15000, currency: 'USD', customerId: 'user_1', description: 'Test booking', metadata: {} }
+
+const failure = (promise: Promise<unknown>) => promise.then(() => null, (error: PaymentError) => error.code)
+
+describe('createLocalPaymentProvider', () => {
+  it('captures part of a hold and refunds up to what was captured', async () => {
+    const payments = createLocalPaymentProvider()
+    const hold = await payments.authorize(params)
+    expect(hold).toMatchObject({ status: 'requires_capture', amount: 15000, amountCaptured: 0 })
+
+    expect(await payments.capture(hold.id, 5000)).toMatchObject({ status: 'succeeded', amountCaptured: 5000 })
+    expect(await payments.refund(hold.id, 2000)).toMatchObject({ status: 'partially_refunded', amountRefunded: 2000 })
+    expect(await failure(payments.refund(hold.id, 3001))).toBe('invalid_amount')
+    expect(await payments.refund(hold.id)).toMatchObject({ status: 'refunded', amountRefunded: 5000 })
+  })
+
+  it('follows the processor state rules', async () => {
+    const payments = createLocalPaymentProvider()
+    const hold = await payments.authorize(params)
+
+    expect(await failure(payments.refund(hold.id))).toBe('invalid_state')
+    expect(await failure(payments.capture(hold.id, 15001))).toBe('invalid_amount')
+    await payments.void(hold.id)
+    expect(await failure(payments.capture(hold.id))).toBe('invalid_state')
+    expect(await failure(payments.void(hold.id))).toBe('invalid_state')
+    expect(await failure(payments.retrieve('pi_missing'))).toBe('not_found')
+    expect(await failure(payments.authorize({ ...params, amount: 10.5 }))).toBe('invalid_amount')
+  })
+
+  it('returns the same hold for a repeated idempotency key', async () => {
+    const payments = createLocalPaymentProvider()
+    const first = await payments.authorize({ ...params, idempotencyKey: 'authorize:booking_1' })
+    const second = await payments.authorize({ ...params, idempotencyKey: 'authorize:booking_1' })
+
+    expect(second.id).toBe(first.id)
+    expect(payments.intents()).toHaveLength(1)
+  })
+
+  it('declines the next authorization or anything above the limit', async () => {
+    const payments = createLocalPaymentProvider({ declineAbove: 20000 })
+
+    payments.declineNext('insufficient_funds')
+    expect(await failure(payments.authorize(params))).toBe('insufficient_funds')
+    expect(await payments.authorize(params)).toMatchObject({ status: 'requires_capture' })
+    expect(await failure(payments.authorize({ ...params, amount: 20001 }))).toBe('card_declined')
+
+    payments.reset()
+    expect(payments.intents()).toEqual([])
+  })
+
+  it('keeps intents across reloads when given a storage key', async () => {
+    const storageKey = 'homi:test-payments'
+    const hold = await createLocalPaymentProvider({ storageKey }).authorize(params)
+
+    expect(await createLocalPaymentProvider({ storageKey }).retrieve(hold.id)).toMatchObject({ amount: 15000 })
+    localStorage.removeItem(storageKey)
+  })
+})
@@ -0,0 +1,147 @@
+import {
+  PaymentError,
+  type AuthorizeParams,
+  type PaymentErrorCode,
+  type PaymentIntent,
+  type PaymentProvider
+} from './provider'
+
+// In-browser stand-in for a card processor. Follows the same state rules as
+// the real thing (no capturing a voided hold, no refunding more than was
+// captured) without moving any money.
+
+export interface LocalPaymentOptions {
+  // Persist intents to localStorage under this key so they survive reloads
+  storageKey?: string
+  // Decline every authorization above this many cents
+  declineAbove?: number
+}
+
+export interface LocalPaymentProvider extends PaymentProvider {
+  // Make the next authorization fail with the given code
+  declineNext(code?: Extract<PaymentErrorCode, 'card_declined' | 'insufficient_funds'>): void
+  // Snapshot of every intent, for assertions
+  intents(): PaymentIntent[]
+  reset(): void
+}
+
+export const createLocalPaymentProvider = (options: LocalPaymentOptions = {}): LocalPaymentProvider => {
+  const load = (): Record<string, PaymentIntent> => {
+    if (options.storageKey && typeof localStorage !== 'undefined') {
+      const stored = localStorage.getItem(options.storageKey)
+      if (stored) return JSON.parse(stored)
+    }
+    return {}
+  }
+
+  let intents = load()
+  const idempotent = new Map<string, string>()
+  let pendingDecline: PaymentErrorCode | null = null
+
+  const persist = () => {
+    if (options.storageKey && typeof localStorage !== 'undefined') {
+      localStorage.setItem(options.storageKey, JSON.stringify(intents))
+    }
+  }
+
+  const find = (id: string): PaymentIntent => {
+    const intent = intents[id]
+    if (!intent) throw new PaymentError('not_found', `No payment ${id}`)
+    return intent
+  }
+
+  const save = (intent: PaymentIntent) => {
+    intents[intent.id] = intent
+    persist()
+    return { ...intent }
+  }
+
+  return {
+    async authorize(params: AuthorizeParams) {
+      const existing = params.idempotencyKey && idempotent.get(params.idempotencyKey)
+      if (existing) return { ...find(existing) }
+
+      if (!Number.isInteger(params.amount) || params.amount <= 0) {
+        throw new PaymentError('invalid_amount', 'Amount must be a positive number of cents')
+      }
+      if (pendingDecline) {
+        const code = pendingDecline
+        pendingDecline = null
+        throw new PaymentError(code, code === 'insufficient_funds' ? 'Your card has insufficient funds.' : 'Your card was declined.')
+      }
+      if (options.declineAbove !== undefined && params.amount > options.declineAbove) {
+        throw new PaymentError('card_declined', 'Your card was declined.')
+      }
+
+      const intent = save({
+        id: `pi_local_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        status: 'requires_capture',
+        currency: params.currency,
+        amount: params.amount,
+        amountCaptured: 0,
+        amountRefunded: 0,
+        metadata: { ...params.metadata, customerId: params.customerId, description: params.description },
+        createdAt: new Date().toISOString()
+      })
+      if (params.idempotencyKey) idempotent.set(params.idempotencyKey, intent.id)
+      return intent
+    },
+
+    async capture(intentId, amount) {
+      const intent = find(intentId)
+      if (intent.status !== 'requires_capture') {
+        throw new PaymentError('invalid_state', `Cannot capture a payment that is ${intent.status}`)
+      }
+      const captured = amount ?? intent.amount
+      if (captured <= 0 || captured > intent.amount) {
+        throw new PaymentError('invalid_amount', 'Capture amount must be within the authorized hold')
+      }
+      return save({ ...intent, status: 'succeeded', amountCaptured: captured })
+    },
+
+    async void(intentId) {
+      const intent = find(intentId)
+      if (intent.status !== 'requires_capture') {
+        throw new PaymentError('invalid_state', `Cannot void a payment that is ${intent.status}`)
+      }
+      return save({ ...intent, status: 'canceled' })
+    },
+
+    async refund(intentId, amount) {
+      const intent = find(intentId)
+      if (intent.status !== 'succeeded' && intent.status !== 'partially_refunded') {
+        throw new PaymentError('invalid_state', `Cannot refund a payment that is ${intent.status}`)
+      }
+      const remaining = intent.amountCaptured - intent.amountRefunded
+      const refunded = amount ?? remaining
+      if (refunded <= 0 || refunded > remaining) {
+        throw new PaymentError('invalid_amount', 'Refund amount exceeds what is left to refund')
+      }
+      const amountRefunded = intent.amountRefunded + refunded
+      return save({
+        ...intent,
+        status: amountRefunded === intent.amountCaptured ? 'refunded' : 'partially_refunded',
+        amountRefunded
+      })
+    },
+
+    async retrieve(intentId) {
+      return { ...find(intentId) }
+    },
+
+    declineNext(code = 'card_declined') {
+      pendingDecline = code
+    },
+
+    intents() {
+      return Object.values(intents).map(intent => ({ ...intent }))
+    },
+
+    reset() {
+      intents = {}
+      idempotent.clear()
+      pendingDecline = null
+      persist()
+    }
+  }
+}
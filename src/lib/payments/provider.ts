@@ -0,0 +1,64 @@
+// Payment provider contract, modelled on Stripe's manual-capture flow: a hold
+// is authorized when the customer books, captured when the job is done, and
+// either voided or refunded if it is called off. Amounts are in cents.
+
+export type PaymentIntentStatus =
+  | 'requires_capture'
+  | 'succeeded'
+  | 'canceled'
+  | 'refunded'
+  | 'partially_refunded'
+
+export interface PaymentIntent {
+  id: string
+  status: PaymentIntentStatus
+  currency: string
+  // Held at authorization
+  amount: number
+  amountCaptured: number
+  amountRefunded: number
+  metadata: Record<string, string>
+  createdAt: string
+}
+
+export interface AuthorizeParams {
+  amount: number
+  currency: string
+  customerId: string
+  description: string
+  metadata?: Record<string, string>
+  // Makes retries of the same authorization safe
+  idempotencyKey?: string
+}
+
+export interface PaymentProvider {
+  authorize(params: AuthorizeParams): Promise<PaymentIntent>
+  // Captures the full hold unless a smaller amount is given
+  capture(intentId: string, amount?: number): Promise<PaymentIntent>
+  // Releases an uncaptured hold
+  void(intentId: string): Promise<PaymentIntent>
+  // Refunds captured money, all of what is left unless an amount is given
+  refund(intentId: string, amount?: number): Promise<PaymentIntent>
+  retrieve(intentId: string): Promise<PaymentIntent>
+}
+
+export type PaymentErrorCode =
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'invalid_amount'
+  | 'invalid_state'
+  | 'not_found'
+  | 'provider_error'
+
+export class PaymentError extends Error {
+  code: PaymentErrorCode
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message)
+    this.name = 'PaymentError'
+    this.code = code
+  }
+}
+
+export const toCents = (amount: number) => Math.round(amount * 100)
+export const fromCents = (cents: number) => cents / 100
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MINIMUM_CARD_CHARGE,
+  PriceAdjustmentError,
+  adjustQuote,
+  categorize,
+  minimumAdjustedTotal,
+  taxRegionFor,
+  quotePrice,
+  type PricingInput
+} from './pricing'
+import type { Quote, QuoteLine } from '../types'
+
+const cleaning: PricingInput = {
+  service: 'House cleaning',
+  description: 'Two-bedroom apartment',
+  location: 'Austin, TX',
+  timeline: 'Next month',
+  complexity: 'standard'
+}
+
+const line = (quote: Quote, kind: QuoteLine['kind']) => quote.lines.find(item => item.kind === kind)?.amount ?? 0
+
+describe('quotePrice', () => {
+  it('itemizes labor, materials, fee and tax from the local rate', () => {
+    const quote = quotePrice(cleaning)
+
+    // $35/hr cleaning rate × 1.1 for Austin, rounded, for 3 hours
+    expect(quote.hourlyRate).toBe(39)
+    expect(quote.estimatedHours).toBe(3)
+    expect(line(quote, 'labor')).toBe(117)
+    expect(line(quote, 'materials')).toBe(20)
+    expect(line(quote, 'service_fee')).toBe(13.7)
+    // Texas taxes labor as well as materials
+    expect(line(quote, 'tax')).toBe(8.56)
+    expect(quote.total).toBe(159.26)
+    expect(quote.commission).toBe(17.55)
+    expect(quote.providerPayout).toBe(119.45)
+  })
+
+  it('gives the same quote for the same inputs', () => {
+    expect(quotePrice(cleaning)).toEqual(quotePrice({ ...cleaning }))
+  })
+
+  it('totals its lines', () => {
+    const quote = quotePrice({ ...cleaning, timeline: 'ASAP' }, undefined, { discountCode: 'welcome10' })
+    const sum = quote.lines.reduce((total, item) => total + item.amount, 0)
+    expect(quote.total).toBeCloseTo(sum, 2)
+  })
+
+  it("uses the provider's own rate", () => {
+    const quote = quotePrice(cleaning, { hourlyRate: 50 })
+    expect(quote.hourlyRate).toBe(50)
+    expect(line(quote, 'labor')).toBe(150)
+  })
+
+  it('charges at least the category minimum', () => {
+    const quote = quotePrice(
+      { service: 'Leaky faucet', description: '', location: 'Oakland, CA', timeline: 'Next week', complexity: 'simple' },
+      { hourlyRate: 60 }
+    )
+    expect(line(quote, 'labor')).toBe(120)
+    expect(quote.lines[0].detail).toBe('Plumbing minimum')
+  })
+
+  it('adds a surcharge for urgent timelines', () => {
+    const quote = quotePrice({ ...cleaning, timeline: 'ASAP please' })
+    expect(line(quote, 'surcharge')).toBe(29.25)
+  })
+
+  it('only taxes materials where labor is exempt', () => {
+    const quote = quotePrice({ ...cleaning, location: 'San Francisco, CA' })
+    expect(quote.region).toBe('CA')
+    expect(line(quote, 'tax')).toBe(1.45)
+  })
+
+  it('applies known discount codes and ignores unknown ones', () => {
+    const base = quotePrice(cleaning)
+    expect(line(quotePrice(cleaning, undefined, { discountCode: 'WELCOME10' }), 'discount')).toBe(-13.7)
+    expect(quotePrice(cleaning, undefined, { discountCode: 'BOGUS' })).toEqual(base)
+  })
+
+  it('never lets credit take the card charge below the minimum', () => {
+    const quote = quotePrice(cleaning, undefined, { credit: 1000 })
+    expect(quote.total).toBe(MINIMUM_CARD_CHARGE)
+  })
+})
+
+describe('taxRegionFor', () => {
+  it('reads a state code, a state name or a known city', () => {
+    expect(taxRegionFor('Brooklyn, NY')?.code).toBe('NY')
+    expect(taxRegionFor('Austin, Texas')?.code).toBe('TX')
+    expect(taxRegionFor('Seattle')?.code).toBe('WA')
+    expect(taxRegionFor('Nowhere in particular')).toBeNull()
+  })
+
+  it('taxes Washington, DC as the District rather than the state', () => {
+    expect(taxRegionFor('Washington, DC')).toMatchObject({ code: 'DC', laborTaxable: false })
+    expect(taxRegionFor('Washington DC')?.code).toBe('DC')
+    expect(taxRegionFor('Spokane, Washington')?.code).toBe('WA')
+    // A code we don't collect tax for never falls back to the city's name
+    expect(taxRegionFor('Washington, PA')).toBeNull()
+  })
+})
+
+describe('categorize', () => {
+  it('matches keywords on whole words', () => {
+    expect(categorize('Moving help').id).toBe('moving')
+    expect(categorize('Stain removal').id).toBe('general')
+    expect(categorize('Street sweeping').id).toBe('general')
+    expect(categorize('Apartment deep cleaned').id).toBe('cleaning')
+  })
+
+  it('falls back to the description when the service name is unclear', () => {
+    expect(categorize('Help needed', 'The kitchen sink is leaking').id).toBe('plumbing')
+  })
+})
+
+describe('adjustQuote', () => {
+  it('shows the difference as its own line and splits it at the commission rate', () => {
+    const quote = quotePrice(cleaning)
+    const adjusted = adjustQuote(quote, quote.total + 20)
+
+    expect(adjusted.total).toBe(quote.total + 20)
+    expect(line(adjusted, 'adjustment')).toBe(20)
+    expect(adjusted.commission).toBe(quote.commission + 3)
+    expect(adjusted.providerPayout).toBe(quote.providerPayout + 17)
+    expect(line(adjusted, 'service_fee')).toBe(line(quote, 'service_fee'))
+  })
+
+  it('refuses a cut that would leave a negative commission or payout', () => {
+    const quote = quotePrice(cleaning, undefined, { discountCode: 'WELCOME10' })
+    const minimum = minimumAdjustedTotal(quote)
+    const lowest = adjustQuote(quote, minimum)
+
+    expect(minimum).toBeGreaterThan(line(quote, 'service_fee') + line(quote, 'tax'))
+    expect(lowest.commission).toBeGreaterThanOrEqual(0)
+    expect(lowest.providerPayout).toBeGreaterThanOrEqual(0)
+    expect(() => adjustQuote(quote, minimum - 0.01)).toThrow(PriceAdjustmentError)
+    expect(() => adjustQuote(quote, 1)).toThrow(`The lowest price you can propose for this job is $${minimum.toFixed(2)}`)
+  })
+})
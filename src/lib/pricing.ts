@@ -0,0 +1,281 @@
+import type { Complexity, Provider, Quote, QuoteLine, ServiceRequest } from '../types'
+
+// Deterministic pricing engine. The same inputs always give the same quote,
+// so the estimate in RequestFlow, the per-provider prices on ProviderMatches
+// and the amount charged in BookingFlow all agree. The AI only judges the
+// job's complexity; everything else comes from the tables below.
+
+export type PricingInput = Pick<ServiceRequest, 'service' | 'description' | 'location' | 'timeline' | 'complexity'>
+
+export type Urgency = 'flexible' | 'soon' | 'urgent'
+
+export interface ServiceCategory {
+  id: string
+  label: string
+  keywords: RegExp
+  // Typical local hourly rate before the location multiplier
+  baseRate: number
+  // Expected hours of work by complexity
+  hours: Record<Complexity, number>
+  // Supplies the provider typically buys for the job, by complexity
+  materials: Record<Complexity, number>
+  // Smallest labor charge for a visit
+  minimumCharge: number
+}
+
+export interface TaxRegion {
+  code: string
+  name: string
+  rate: number
+  // Most states only tax materials; some also tax labor on home services
+  laborTaxable: boolean
+}
+
+export interface Discount {
+  code: string
+  label: string
+  percent?: number
+  amount?: number
+}
+
+// Keywords match whole words, so "stain removal" isn't a move and "street"
+// isn't a tree
+const CATEGORIES: ServiceCategory[] = [
+  { id: 'cleaning', label: 'Cleaning', keywords: /\b(clean(s|ed|ing|ers?)?|maids?|housekeep(ing|ers?)?|tidy(ing)?)\b/, baseRate: 35, hours: { simple: 2, standard: 3, complex: 6 }, materials: { simple: 10, standard: 20, complex: 40 }, minimumCharge: 70 },
+  { id: 'plumbing', label: 'Plumbing', keywords: /\b(plumb(ers?|ing)?|leak(s|ed|ing|y)?|pipes?|drains?|toilets?|sinks?|faucets?|water heaters?)\b/, baseRate: 90, hours: { simple: 1, standard: 2, complex: 4 }, materials: { simple: 15, standard: 40, complex: 120 }, minimumCharge: 120 },
+  { id: 'electrical', label: 'Electrical', keywords: /\b(electric(al|ians?)?|wiring|rewir(e|ed|ing)|outlets?|light(s|ing)?|switch(es)?|panels?|fixtures?)\b/, baseRate: 95, hours: { simple: 1, standard: 2, complex: 5 }, materials: { simple: 10, standard: 35, complex: 100 }, minimumCharge: 120 },
+  { id: 'handyman', label: 'Handyman', keywords: /\b(handym[ae]n|repair(s|ed|ing)?|fix(es|ed|ing)?|assembl(e|ed|y|ing)|mount(s|ed|ing)?|install(s|ed|ing|ation)?|furniture|shel(f|ves|ving))\b/, baseRate: 55, hours: { simple: 1, standard: 2, complex: 4 }, materials: { simple: 10, standard: 25, complex: 60 }, minimumCharge: 75 },
+  { id: 'painting', label: 'Painting', keywords: /\b(paint(s|ed|ing|ers?)?|wallpaper(ing)?|drywall)\b/, baseRate: 50, hours: { simple: 3, standard: 6, complex: 12 }, materials: { simple: 40, standard: 90, complex: 200 }, minimumCharge: 150 },
+  { id: 'moving', label: 'Moving', keywords: /\b(mov(e|es|ed|ing|ers?)|pack(s|ed|ing|ers?)?|haul(s|ed|ing)?|lift(s|ed|ing)?|deliver(s|y|ies|ed|ing)?)\b/, baseRate: 60, hours: { simple: 2, standard: 4, complex: 8 }, materials: { simple: 0, standard: 30, complex: 80 }, minimumCharge: 120 },
+  { id: 'gardening', label: 'Gardening', keywords: /\b(garden(s|ing|ers?)?|lawns?|yards?|landscap(e|es|ed|ing|ers?)|mow(s|ed|n|ing)?|hedges?|trees?)\b/, baseRate: 45, hours: { simple: 2, standard: 3, complex: 6 }, materials: { simple: 10, standard: 25, complex: 60 }, minimumCharge: 80 },
+  { id: 'photography', label: 'Photography', keywords: /\b(photo(s|graphy|graphers?)?|cameras?|portraits?|headshots?|shoot(s|ing)?)\b/, baseRate: 100, hours: { simple: 1, standard: 2, complex: 5 }, materials: { simple: 0, standard: 0, complex: 0 }, minimumCharge: 150 },
+  { id: 'tech', label: 'Tech support', keywords: /\b(tech(nical)?|computers?|laptops?|wi-?fi|network(s|ing)?|printers?|software|phones?)\b/, baseRate: 70, hours: { simple: 1, standard: 2, complex: 3 }, materials: { simple: 0, standard: 0, complex: 0 }, minimumCharge: 70 },
+  { id: 'design', label: 'Design', keywords: /\b(design(s|ed|ing|ers?)?|logos?|graphics?|brand(s|ing)?|illustrat(e|ed|ion|ions|ors?|ing))\b/, baseRate: 75, hours: { simple: 3, standard: 6, complex: 12 }, materials: { simple: 0, standard: 0, complex: 0 }, minimumCharge: 150 }
+]
+
+const GENERAL: ServiceCategory = {
+  id: 'general',
+  label: 'General services',
+  keywords: /$^/,
+  baseRate: 50,
+  hours: { simple: 1, standard: 2, complex: 4 },
+  materials: { simple: 0, standard: 10, complex: 30 },
+  minimumCharge: 60
+}
+
+// Cost of living adjustment applied to category base rates
+const LOCATION_MULTIPLIERS: Array<[RegExp, number]> = [
+  [/san francisco|\bsf\b|manhattan/, 1.35],
+  [/new york|nyc|brooklyn|queens/, 1.3],
+  [/oakland|berkeley|san jose|palo alto|seattle|boston|los angeles|\bla\b/, 1.2],
+  [/chicago|washington|\bdc\b|denver|austin|miami|san diego/, 1.1]
+]
+
+// Combined state and typical local sales tax for the markets we serve
+const TAX_REGIONS: TaxRegion[] = [
+  { code: 'CA', name: 'California', rate: 0.0725, laborTaxable: false },
+  { code: 'NY', name: 'New York', rate: 0.08875, laborTaxable: true },
+  { code: 'WA', name: 'Washington', rate: 0.065, laborTaxable: true },
+  { code: 'DC', name: 'District of Columbia', rate: 0.06, laborTaxable: false },
+  { code: 'TX', name: 'Texas', rate: 0.0625, laborTaxable: true },
+  { code: 'IL', name: 'Illinois', rate: 0.0625, laborTaxable: false },
+  { code: 'MA', name: 'Massachusetts', rate: 0.0625, laborTaxable: false },
+  { code: 'CO', name: 'Colorado', rate: 0.029, laborTaxable: false },
+  { code: 'FL', name: 'Florida', rate: 0.06, laborTaxable: false }
+]
+
+// Cities people often give without a state
+const CITY_REGIONS: Array<[RegExp, string]> = [
+  [/san francisco|oakland|berkeley|san jose|palo alto|los angeles|san diego/, 'CA'],
+  [/new york|nyc|manhattan|brooklyn|queens|bronx/, 'NY'],
+  [/washington,? d\.?c\b|district of columbia/, 'DC'],
+  [/seattle/, 'WA'],
+  [/austin|dallas|houston/, 'TX'],
+  [/chicago/, 'IL'],
+  [/boston/, 'MA'],
+  [/denver/, 'CO'],
+  [/miami/, 'FL']
+]
+
+const URGENCY_SURCHARGES: Record<Urgency, number> = {
+  flexible: 0,
+  soon: 0.1,
+  urgent: 0.25
+}
+
+export const DISCOUNT_CODES: Discount[] = [
+  { code: 'WELCOME10', label: 'Welcome offer', percent: 10 },
+  { code: 'HOMI20', label: 'Homi credit', amount: 20 }
+]
+
+// Customer-side fee added to the price
+export const PLATFORM_FEE_RATE = 0.1
+// Provider-side commission kept from the provider's labor and surcharges
+export const COMMISSION_RATE = 0.15
+// Smallest amount a card can be charged; Homi credit never brings a total below it
+export const MINIMUM_CARD_CHARGE = 0.5
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+// Rounds up to the cent, ignoring float noise below a hundredth of a cent
+const ceilCents = (value: number) => Math.ceil(Math.round(value * 10000) / 100) / 100
+
+export const formatMoney = (amount: number) =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' })
+
+export const categorize = (service: string, description = ''): ServiceCategory => {
+  const text = `${service} ${description}`.toLowerCase()
+  // The service name decides first; the description only breaks a miss
+  return (
+    CATEGORIES.find(category => category.keywords.test(service.toLowerCase())) ??
+    CATEGORIES.find(category => category.keywords.test(text)) ??
+    GENERAL
+  )
+}
+
+export const locationMultiplier = (location: string): number => {
+  const normalized = location.toLowerCase()
+  return LOCATION_MULTIPLIERS.find(([pattern]) => pattern.test(normalized))?.[1] ?? 1
+}
+
+// "Brooklyn, NY", "Austin, Texas" or just "Seattle". A two-letter code
+// decides on its own, so "Washington, DC" isn't read as the state.
+export const taxRegionFor = (location: string): TaxRegion | null => {
+  const parts = location.split(',').map(part => part.trim().toLowerCase()).filter(Boolean).reverse()
+  const given = parts.find(part => /^[a-z]{2}$/.test(part))
+  if (given) return TAX_REGIONS.find(region => region.code === given.toUpperCase()) ?? null
+  for (const part of parts) {
+    const region = TAX_REGIONS.find(candidate => candidate.name.toLowerCase() === part)
+    if (region) return region
+  }
+  const normalized = location.toLowerCase()
+  const code = CITY_REGIONS.find(([pattern]) => pattern.test(normalized))?.[1]
+  return TAX_REGIONS.find(region => region.code === code) ?? null
+}
+
+export const urgencyOf = (timeline: string): Urgency => {
+  const normalized = timeline.toLowerCase()
+  if (/asap|urgent|emergency|today|tonight|immediately|right away|\bnow\b/.test(normalized)) return 'urgent'
+  if (/tomorrow|this week|this weekend|next few days|within .*days/.test(normalized)) return 'soon'
+  return 'flexible'
+}
+
+export const findDiscount = (code: string): Discount | undefined =>
+  DISCOUNT_CODES.find(discount => discount.code === code.trim().toUpperCase())
+
+// Itemized quote for a request. Without a provider the category's typical
+// local rate is used; with one, their own hourly rate (already local)
+// replaces it. Unknown discount codes are ignored. `credit` is the customer's
+// Homi credit in dollars; as much as fits comes off the final total.
+export const quotePrice = (
+  input: PricingInput,
+  provider?: Pick<Provider, 'hourlyRate'>,
+  options: { discountCode?: string; credit?: number } = {}
+): Quote => {
+  const category = categorize(input.service, input.description)
+  const complexity = input.complexity
+  const urgency = urgencyOf(input.timeline)
+  const region = taxRegionFor(input.location)
+  const estimatedHours = category.hours[complexity]
+  const hourlyRate = provider?.hourlyRate
+    ? provider.hourlyRate
+    : Math.round(category.baseRate * locationMultiplier(input.location))
+
+  const rawLabor = hourlyRate * estimatedHours
+  const labor = roundCents(Math.max(rawLabor, category.minimumCharge))
+  const materials = category.materials[complexity]
+  const surcharge = roundCents(labor * URGENCY_SURCHARGES[urgency])
+  const subtotal = roundCents(labor + materials + surcharge)
+
+  const discount = options.discountCode ? findDiscount(options.discountCode) : undefined
+  const discountAmount = discount
+    ? roundCents(Math.min(subtotal, discount.amount ?? (subtotal * (discount.percent ?? 0)) / 100))
+    : 0
+
+  const serviceFee = roundCents((subtotal - discountAmount) * PLATFORM_FEE_RATE)
+  // Discounts come off the taxable labor first, never below zero
+  const taxableLabor = region?.laborTaxable ? Math.max(0, labor + surcharge - discountAmount) : 0
+  const tax = region ? roundCents((materials + taxableLabor) * region.rate) : 0
+
+  const items: QuoteLine[] = [
+    {
+      kind: 'labor',
+      label: 'Labor',
+      detail: rawLabor < category.minimumCharge ? `${category.label} minimum` : `${estimatedHours} hrs × ${formatMoney(hourlyRate)}/hr`,
+      amount: labor
+    },
+    { kind: 'materials', label: 'Materials (estimate)', amount: materials },
+    { kind: 'surcharge', label: 'Urgency surcharge', detail: urgency === 'urgent' ? 'Urgent timeline' : 'Short notice', amount: surcharge },
+    { kind: 'discount', label: discount?.label ?? 'Discount', detail: discount?.code, amount: -discountAmount },
+    { kind: 'service_fee', label: 'Service fee', detail: `${Math.round(PLATFORM_FEE_RATE * 100)}%`, amount: serviceFee },
+    { kind: 'tax', label: 'Tax', detail: region ? `${region.name} ${(region.rate * 100).toFixed(2)}%` : undefined, amount: tax }
+  ]
+  const beforeCredit = roundCents(items.reduce((sum, line) => sum + line.amount, 0))
+  const credit = roundCents(Math.max(0, Math.min(options.credit ?? 0, beforeCredit - MINIMUM_CARD_CHARGE)))
+  items.push({ kind: 'credit', label: 'Homi credit', amount: -credit })
+  const lines = items.filter(line => line.amount !== 0)
+
+  const commission = roundCents((labor + surcharge) * COMMISSION_RATE)
+
+  return {
+    currency: 'USD',
+    category: category.label,
+    complexity,
+    estimatedHours,
+    hourlyRate,
+    region: region?.code ?? '',
+    lines,
+    total: roundCents(lines.reduce((sum, line) => sum + line.amount, 0)),
+    commission,
+    // The platform absorbs discounts; providers are paid on the undiscounted job
+    providerPayout: roundCents(labor + materials + surcharge - commission),
+    discountCode: discount?.code
+  }
+}
+
+export class PriceAdjustmentError extends Error {
+  minimum: number
+
+  constructor(minimum: number) {
+    super(`The lowest price you can propose for this job is ${formatMoney(minimum)}`)
+    this.name = 'PriceAdjustmentError'
+    this.minimum = minimum
+  }
+}
+
+// Lowest total a quote can be adjusted to. Fees and tax are fixed, so a cut
+// comes out of the job itself and can go no further than Homi's commission
+// or the provider's payout reaching zero; past that the escrow release would
+// post negative shares.
+export const minimumAdjustedTotal = (quote: Quote): number => {
+  const largestCut = Math.min(quote.commission / COMMISSION_RATE, quote.providerPayout / (1 - COMMISSION_RATE))
+  return Math.max(MINIMUM_CARD_CHARGE, ceilCents(quote.total - largestCut))
+}
+
+// Re-prices a quote to a new total agreed with the provider. The difference
+// is shown as its own line and split between the provider and Homi at the
+// usual commission rate; fees and tax stay as originally quoted. Throws
+// PriceAdjustmentError below minimumAdjustedTotal.
+export const adjustQuote = (quote: Quote, total: number): Quote => {
+  const minimum = minimumAdjustedTotal(quote)
+  if (roundCents(total) < minimum) throw new PriceAdjustmentError(minimum)
+  const existing = quote.lines.find(line => line.kind === 'adjustment')?.amount ?? 0
+  const difference = roundCents(total - quote.total)
+  if (difference === 0) return quote
+
+  const adjustment = roundCents(existing + difference)
+  const commissionChange = roundCents(difference * COMMISSION_RATE)
+  const lines = quote.lines.filter(line => line.kind !== 'adjustment')
+  if (adjustment !== 0) {
+    // Listed with the job's own costs, ahead of fees and tax
+    const feesAt = lines.findIndex(line => line.kind === 'service_fee' || line.kind === 'tax')
+    lines.splice(feesAt === -1 ? lines.length : feesAt, 0, { kind: 'adjustment', label: 'Provider price adjustment', amount: adjustment })
+  }
+
+  return {
+    ...quote,
+    lines,
+    total: roundCents(total),
+    commission: roundCents(quote.commission + commissionChange),
+    providerPayout: roundCents(quote.providerPayout + difference - commissionChange)
+  }
+}
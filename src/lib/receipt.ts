@@ -0,0 +1,50 @@
+import { formatMoney } from './pricing'
+import { paymentStatusLabels } from './payments/bookings'
+import { formatDateTime } from './timezones'
+import type { Booking, Provider, ServiceRequest } from '../types'
+
+// Plain-text receipt for a booking, built from the quote stored on it
+
+export interface ReceiptDetails {
+  booking: Booking
+  request?: ServiceRequest | null
+  provider?: Provider | null
+}
+
+const WIDTH = 48
+
+const row = (label: string, amount: string) => `${label.padEnd(WIDTH - amount.length - 1)} ${amount}`
+
+export const receiptText = ({ booking, request, provider }: ReceiptDetails): string => {
+  const lines = booking.quote
+    ? booking.quote.lines.map(line => row(line.detail ? `${line.label} (${line.detail})` : line.label, formatMoney(line.amount)))
+    : [row('Service', formatMoney(booking.finalPrice))]
+
+  return [
+    'HOMI RECEIPT',
+    '='.repeat(WIDTH),
+    `Booking:   ${booking.id}`,
+    `Booked on: ${new Date(booking.createdAt).toLocaleString()}`,
+    `Scheduled: ${formatDateTime(booking.scheduledTime, booking.timeZone)}`,
+    `Service:   ${request?.service ?? 'Service'}`,
+    `Location:  ${request?.location ?? ''}`,
+    `Provider:  ${provider?.name ?? booking.providerId}`,
+    '-'.repeat(WIDTH),
+    ...lines,
+    '-'.repeat(WIDTH),
+    row('TOTAL', formatMoney(booking.quote?.total ?? booking.finalPrice)),
+    ...(booking.cancellationFee ? [row('Late cancellation fee charged', formatMoney(booking.cancellationFee))] : []),
+    `Payment:   ${paymentStatusLabels[booking.paymentStatus]}`,
+    ''
+  ].join('\n')
+}
+
+export const downloadReceipt = (details: ReceiptDetails) => {
+  const blob = new Blob([receiptText(details)], { type: 'text/plain' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `homi-receipt-${details.booking.id}.txt`
+  link.click()
+  URL.revokeObjectURL(url)
+}
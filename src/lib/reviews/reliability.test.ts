@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository, providersRepository } from '../db/repository'
+import { findMatchingRequests } from '../matching'
+import { CustomerRatingError, getReliability, meetsMinimum, rateCustomer, summarizeReliability } from './reliability'
+import type { Booking, CustomerRating } from '../../types'
+
+const NOW = new Date('2030-06-01T00:00:00Z')
+const provider = { role: 'provider' as const, id: 'user_prov_maria' }
+
+const rating = (punctuality: number, accuracy: number, payment: number): CustomerRating => ({
+  id: `customer_rating_${punctuality}${accuracy}${payment}`,
+  bookingId: 'booking_test',
+  providerId: 'prov_maria',
+  userId: 'local_user',
+  punctuality,
+  accuracy,
+  payment,
+  comment: '',
+  createdAt: NOW.toISOString()
+})
+
+describe('summarizeReliability', () => {
+  it('is null until someone rates the customer', () => {
+    expect(summarizeReliability([], NOW)).toBeNull()
+  })
+
+  it('weights each aspect like reviews and averages them into the score', () => {
+    expect(summarizeReliability([rating(5, 2, 5)], NOW)).toEqual({
+      punctuality: 4.2,
+      accuracy: 3.7,
+      payment: 4.2,
+      score: 4,
+      ratingCount: 1
+    })
+  })
+})
+
+describe('meetsMinimum', () => {
+  it('lets unrated customers through, and everyone when no minimum is set', () => {
+    const reliability = summarizeReliability([rating(1, 1, 1)], NOW)
+    expect(meetsMinimum(null, 4.5)).toBe(true)
+    expect(meetsMinimum(reliability, undefined)).toBe(true)
+    // One bad rating is pulled toward the prior
+    expect(reliability?.score).toBe(3.5)
+    expect(meetsMinimum(reliability, 3.5)).toBe(true)
+    expect(meetsMinimum(reliability, 3.6)).toBe(false)
+  })
+})
+
+describe('rateCustomer', () => {
+  let booking: Booking
+
+  beforeEach(async () => {
+    const app = resetLocalApp()
+    booking = await bookingsRepository.create({
+      id: 'booking_test',
+      requestId: 'req_fixture_cleaning',
+      providerId: 'prov_maria',
+      userId: app.user.id,
+      scheduledTime: '2030-01-07T17:00:00.000Z',
+      finalPrice: 120,
+      status: 'completed',
+      paymentStatus: 'captured',
+      history: [],
+      createdAt: '2030-01-01T00:00:00.000Z'
+    })
+  })
+
+  it('records one rating per job from the provider', async () => {
+    const saved = await rateCustomer(booking, provider, { punctuality: 5, accuracy: 4, payment: 5, comment: ' Easy to work with ' })
+
+    expect(saved).toMatchObject({ userId: booking.userId, providerId: 'prov_maria', comment: 'Easy to work with' })
+    expect((await getReliability(booking.userId))?.ratingCount).toBe(1)
+    await expect(rateCustomer(booking, provider, { punctuality: 1, accuracy: 1, payment: 1, comment: '' }))
+      .rejects.toThrow('You already rated this customer for this job')
+  })
+
+  it('refuses the customer and jobs that are not done', async () => {
+    const scores = { punctuality: 5, accuracy: 5, payment: 5, comment: '' }
+
+    await expect(rateCustomer(booking, { role: 'customer', id: booking.userId }, scores)).rejects.toBeInstanceOf(CustomerRatingError)
+    await expect(rateCustomer({ ...booking, status: 'scheduled' }, provider, scores)).rejects.toBeInstanceOf(CustomerRatingError)
+    expect(await getReliability(booking.userId)).toBeNull()
+  })
+
+  it('hides requests from customers below the provider minimum', async () => {
+    const maria = (await providersRepository.get('prov_maria'))!
+    expect((await findMatchingRequests(maria)).map(match => match.request.id)).toContain('req_fixture_cleaning')
+
+    await rateCustomer(booking, provider, { punctuality: 1, accuracy: 1, payment: 1, comment: '' })
+    const matches = await findMatchingRequests({ ...maria, minCustomerReliability: 4 })
+    expect(matches.map(match => match.request.id)).not.toContain('req_fixture_cleaning')
+  })
+})
@@ -0,0 +1,78 @@
+import { customerRatingsRepository } from '../db/repository'
+import type { BookingActor } from '../bookings/lifecycle'
+import { weightedRating } from './reputation'
+import type { Booking, CustomerRating, CustomerRatingAspect, CustomerReliability } from '../../types'
+
+// Customer reliability from providers' ratings. Each aspect is weighted the
+// same way as provider reviews (recent ratings count most, pulled toward the
+// prior until there's enough evidence) and the score is their average.
+// Providers see it in their inbox and can set a minimum in their profile
+// that findMatchingRequests applies.
+
+export const CUSTOMER_ASPECTS: CustomerRatingAspect[] = ['punctuality', 'accuracy', 'payment']
+
+export const aspectLabels: Record<CustomerRatingAspect, string> = {
+  punctuality: 'Punctuality',
+  accuracy: 'Accurate description',
+  payment: 'Payment'
+}
+
+export class CustomerRatingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CustomerRatingError'
+  }
+}
+
+export const customerRatingIdFor = (bookingId: string) => `customer_rating_${bookingId}`
+
+export const getCustomerRating = (bookingId: string) => customerRatingsRepository.get(customerRatingIdFor(bookingId))
+
+// null until someone has rated the customer
+export const summarizeReliability = (ratings: CustomerRating[], now = new Date()): CustomerReliability | null => {
+  if (ratings.length === 0) return null
+  const aspects = Object.fromEntries(CUSTOMER_ASPECTS.map(aspect => [
+    aspect,
+    weightedRating(ratings.map(rating => ({ rating: rating[aspect], createdAt: rating.createdAt })), now)
+  ])) as Record<CustomerRatingAspect, number>
+  const score = CUSTOMER_ASPECTS.reduce((total, aspect) => total + aspects[aspect], 0) / CUSTOMER_ASPECTS.length
+  return { ...aspects, score: Math.round(score * 10) / 10, ratingCount: ratings.length }
+}
+
+export const getReliability = async (userId: string, now = new Date()) =>
+  summarizeReliability(await customerRatingsRepository.listByUser(userId), now)
+
+// Reliability for each customer, keyed by user id; unrated customers map to null
+export const getReliabilities = async (userIds: string[], now = new Date()): Promise<Map<string, CustomerReliability | null>> => {
+  const unique = [...new Set(userIds)]
+  const reliabilities = await Promise.all(unique.map(userId => getReliability(userId, now)))
+  return new Map(unique.map((userId, index) => [userId, reliabilities[index]]))
+}
+
+export const meetsMinimum = (reliability: CustomerReliability | null, minimum?: number) =>
+  !reliability || !minimum || reliability.score >= minimum
+
+// The provider rates the customer once, after the job is done
+export const rateCustomer = async (
+  booking: Booking,
+  actor: BookingActor,
+  rating: Record<CustomerRatingAspect, number> & Pick<CustomerRating, 'comment'>
+): Promise<CustomerRating> => {
+  if (actor.role !== 'provider') throw new CustomerRatingError('Only the provider on the job can rate the customer')
+  if (booking.status !== 'completed' && booking.status !== 'reviewed') {
+    throw new CustomerRatingError('Customers can be rated once the job is completed')
+  }
+  if (await getCustomerRating(booking.id)) throw new CustomerRatingError('You already rated this customer for this job')
+
+  return customerRatingsRepository.create({
+    id: customerRatingIdFor(booking.id),
+    bookingId: booking.id,
+    providerId: booking.providerId,
+    userId: booking.userId,
+    punctuality: rating.punctuality,
+    accuracy: rating.accuracy,
+    payment: rating.payment,
+    comment: rating.comment.trim(),
+    createdAt: new Date().toISOString()
+  })
+}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { resetLocalApp } from '../../test/localApp'
+import { bookingsRepository, providersRepository } from '../db/repository'
+import { BookingTransitionError } from '../bookings/lifecycle'
+import { PRIOR_RATING, REVIEW_HALF_LIFE_DAYS, reviewWeight, summarizeReputation, weightedRating } from './reputation'
+import { replyToReview, submitReview } from './reviews'
+import type { Booking, Review } from '../../types'
+
+const NOW = new Date('2030-06-01T00:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const review = (rating: number, daysAgo = 0): Review => ({
+  id: `review_${rating}_${daysAgo}`,
+  bookingId: 'booking_test',
+  providerId: 'prov_maria',
+  userId: 'local_user',
+  authorName: 'Demo Customer',
+  rating,
+  comment: '',
+  createdAt: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString()
+})
+
+describe('weightedRating', () => {
+  it('halves the weight of a review every half-life', () => {
+    expect(reviewWeight(review(5), NOW)).toBe(1)
+    expect(reviewWeight(review(5, REVIEW_HALF_LIFE_DAYS), NOW)).toBeCloseTo(0.5)
+  })
+
+  it('pulls a short record toward the prior so one 5-star job does not top the ranking', () => {
+    expect(weightedRating([], NOW)).toBe(0)
+    expect(weightedRating([review(5)], NOW)).toBe(4.2)
+    const longRecord = Array.from({ length: 40 }, (_, index) => review(5, index))
+    expect(weightedRating(longRecord, NOW)).toBeGreaterThan(4.8)
+  })
+
+  it('counts recent reviews more than old ones', () => {
+    const improving = weightedRating([review(2, 3 * REVIEW_HALF_LIFE_DAYS), review(5)], NOW)
+    const slipping = weightedRating([review(5, 3 * REVIEW_HALF_LIFE_DAYS), review(2)], NOW)
+    expect(improving).toBeGreaterThan(PRIOR_RATING)
+    expect(slipping).toBeLessThan(PRIOR_RATING)
+  })
+})
+
+describe('summarizeReputation', () => {
+  it('counts completed and reviewed jobs only', () => {
+    const bookings = (['completed', 'reviewed', 'cancelled', 'scheduled'] as const)
+      .map(status => ({ status }) as Booking)
+    expect(summarizeReputation([review(4)], bookings, NOW)).toEqual({ rating: 4, reviewCount: 1, completedJobs: 2 })
+  })
+})
+
+describe('submitReview', () => {
+  let booking: Booking
+
+  beforeEach(async () => {
+    const app = resetLocalApp()
+    booking = await bookingsRepository.create({
+      id: 'booking_test',
+      requestId: 'req_fixture_cleaning',
+      providerId: 'prov_maria',
+      userId: app.user.id,
+      scheduledTime: '2030-01-07T17:00:00.000Z',
+      finalPrice: 120,
+      status: 'completed',
+      paymentStatus: 'captured',
+      history: [],
+      createdAt: '2030-01-01T00:00:00.000Z'
+    })
+  })
+
+  it('moves the booking to reviewed and rebuilds the provider reputation from the reviews table', async () => {
+    const result = await submitReview(booking, { role: 'customer', id: booking.userId }, {
+      rating: 5,
+      comment: '  Spotless, thank you!  ',
+      authorName: 'Demo Customer'
+    })
+
+    expect(result.booking.status).toBe('reviewed')
+    expect(result.review).toMatchObject({ bookingId: booking.id, rating: 5, comment: 'Spotless, thank you!' })
+    // The seeded rating and review count are replaced by what the table holds
+    expect(await providersRepository.get('prov_maria')).toMatchObject({ rating: 4.2, reviewCount: 1, completedJobs: 1 })
+  })
+
+  it('only lets the customer review a completed booking once', async () => {
+    const { booking: reviewed } = await submitReview(booking, { role: 'customer', id: booking.userId }, {
+      rating: 4, comment: '', authorName: 'Demo Customer'
+    })
+
+    await expect(submitReview(reviewed, { role: 'customer', id: booking.userId }, { rating: 1, comment: '', authorName: 'Demo Customer' }))
+      .rejects.toBeInstanceOf(BookingTransitionError)
+    await expect(submitReview(booking, { role: 'provider', id: 'user_prov_maria' }, { rating: 5, comment: '', authorName: 'Maria' }))
+      .rejects.toBeInstanceOf(BookingTransitionError)
+  })
+
+  it('keeps only the latest provider reply', async () => {
+    const { review: created } = await submitReview(booking, { role: 'customer', id: booking.userId }, {
+      rating: 4, comment: 'Good job', authorName: 'Demo Customer'
+    })
+    const first = await replyToReview(created, 'Thanks!')
+    const second = await replyToReview(first, ' Thanks, see you next time. ')
+
+    expect(second.reply).toBe('Thanks, see you next time.')
+    expect(second.repliedAt).toBeDefined()
+  })
+})
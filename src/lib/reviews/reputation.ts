@@ -0,0 +1,54 @@
+import { bookingsRepository, providersRepository, reviewsRepository } from '../db/repository'
+import type { Booking, BookingStatus, Provider, Review } from '../../types'
+
+// Provider reputation from real reviews. A review's weight halves every
+// REVIEW_HALF_LIFE_DAYS so recent work counts most, and the weighted average
+// is pulled toward PRIOR_RATING until there are about PRIOR_WEIGHT reviews'
+// worth of evidence, so a single 5-star job doesn't outrank a long track
+// record. refreshReputation writes the result onto the provider whenever a
+// job is completed or reviewed.
+
+export const REVIEW_HALF_LIFE_DAYS = 365
+export const PRIOR_RATING = 4
+export const PRIOR_WEIGHT = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Bookings that count towards completedJobs
+const COMPLETED: BookingStatus[] = ['completed', 'reviewed']
+
+export interface Reputation {
+  // 0 until the first review
+  rating: number
+  reviewCount: number
+  completedJobs: number
+}
+
+export const reviewWeight = (review: Pick<Review, 'createdAt'>, now = new Date()) => {
+  const ageDays = Math.max(0, (now.getTime() - new Date(review.createdAt).getTime()) / DAY_MS)
+  return 0.5 ** (ageDays / REVIEW_HALF_LIFE_DAYS)
+}
+
+export const weightedRating = (reviews: Array<Pick<Review, 'rating' | 'createdAt'>>, now = new Date()) => {
+  if (reviews.length === 0) return 0
+  const weights = reviews.map(review => reviewWeight(review, now))
+  const weight = weights.reduce((total, value) => total + value, 0)
+  const stars = reviews.reduce((total, review, index) => total + review.rating * weights[index], 0)
+  return Math.round(((stars + PRIOR_RATING * PRIOR_WEIGHT) / (weight + PRIOR_WEIGHT)) * 10) / 10
+}
+
+export const summarizeReputation = (reviews: Review[], bookings: Booking[], now = new Date()): Reputation => ({
+  rating: weightedRating(reviews, now),
+  reviewCount: reviews.length,
+  completedJobs: bookings.filter(booking => COMPLETED.includes(booking.status)).length
+})
+
+export const refreshReputation = async (providerId: string, now = new Date()): Promise<Provider | null> => {
+  const [provider, reviews, bookings] = await Promise.all([
+    providersRepository.get(providerId),
+    reviewsRepository.listByProvider(providerId),
+    bookingsRepository.listByProvider(providerId)
+  ])
+  if (!provider) return null
+  return providersRepository.save({ ...provider, ...summarizeReputation(reviews, bookings, now) })
+}
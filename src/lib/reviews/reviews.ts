@@ -0,0 +1,37 @@
+import { reviewsRepository } from '../db/repository'
+import { BookingTransitionError, canTransition, transitionBooking, type BookingActor } from '../bookings/lifecycle'
+import { refreshReputation } from './reputation'
+import type { Booking, Review } from '../../types'
+
+// Customers review a completed booking once, which moves it to 'reviewed'
+// and updates the provider's reputation; the provider can then reply.
+
+export const reviewIdFor = (bookingId: string) => `review_${bookingId}`
+
+export const getBookingReview = (bookingId: string) => reviewsRepository.get(reviewIdFor(bookingId))
+
+export const submitReview = async (
+  booking: Booking,
+  actor: BookingActor,
+  review: Pick<Review, 'rating' | 'comment' | 'authorName'>
+): Promise<{ booking: Booking; review: Review }> => {
+  if (!canTransition(booking, 'reviewed', actor.role)) throw new BookingTransitionError(booking.status, 'reviewed', actor.role)
+
+  const created = await reviewsRepository.create({
+    id: reviewIdFor(booking.id),
+    bookingId: booking.id,
+    providerId: booking.providerId,
+    userId: actor.id,
+    authorName: review.authorName,
+    rating: review.rating,
+    comment: review.comment.trim(),
+    createdAt: new Date().toISOString()
+  })
+  const reviewed = await transitionBooking(booking, 'reviewed', actor, `Rated ${review.rating} of 5 stars`)
+  await refreshReputation(booking.providerId)
+  return { booking: reviewed, review: created }
+}
+
+// Replying again replaces the earlier reply
+export const replyToReview = (review: Review, reply: string): Promise<Review> =>
+  reviewsRepository.update(review.id, { ...review, reply: reply.trim(), repliedAt: new Date().toISOString() })
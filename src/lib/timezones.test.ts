@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { fromZonedInput, timeZoneForLocation, zonedTimeToUtc } from './timezones'
+
+describe('zonedTimeToUtc', () => {
+  it('finds the instant a wall-clock time happens in a zone', () => {
+    expect(zonedTimeToUtc('2026-10-19', '09:00', 'America/New_York')?.toISOString()).toBe('2026-10-19T13:00:00.000Z')
+    expect(zonedTimeToUtc('2026-01-15', '09:00', 'America/New_York')?.toISOString()).toBe('2026-01-15T14:00:00.000Z')
+    expect(zonedTimeToUtc('2026-10-19', '09:00', 'UTC')?.toISOString()).toBe('2026-10-19T09:00:00.000Z')
+  })
+
+  it('returns null for a time skipped when clocks go forward', () => {
+    expect(zonedTimeToUtc('2026-03-08', '02:30', 'America/New_York')).toBeNull()
+    expect(zonedTimeToUtc('2026-03-08', '03:00', 'America/New_York')?.toISOString()).toBe('2026-03-08T07:00:00.000Z')
+  })
+
+  it('resolves a time repeated when clocks go back to its first occurrence', () => {
+    expect(zonedTimeToUtc('2026-11-01', '01:30', 'America/New_York')?.toISOString()).toBe('2026-11-01T05:30:00.000Z')
+  })
+})
+
+describe('fromZonedInput', () => {
+  it('parses datetime-local values and rejects partial ones', () => {
+    expect(fromZonedInput('2026-10-19T14:30', 'America/Los_Angeles')?.toISOString()).toBe('2026-10-19T21:30:00.000Z')
+    expect(fromZonedInput('2026-10-19', 'America/Los_Angeles')).toBeNull()
+  })
+})
+
+describe('timeZoneForLocation', () => {
+  it('goes by the state when one is given', () => {
+    expect(timeZoneForLocation('Paris, TX')).toBe('America/Chicago')
+    expect(timeZoneForLocation('London, KY')).toBe('America/New_York')
+    expect(timeZoneForLocation('Portland, ME')).toBe('America/New_York')
+    expect(timeZoneForLocation('Portland, Maine')).toBe('America/New_York')
+  })
+
+  it('knows common places typed without a state', () => {
+    expect(timeZoneForLocation('Portland')).toBe('America/Los_Angeles')
+    expect(timeZoneForLocation('Paris, France')).toBe('Europe/Paris')
+    expect(timeZoneForLocation('London, UK')).toBe('Europe/London')
+    expect(timeZoneForLocation('Somewhere in Texas')).toBe('America/Chicago')
+  })
+})
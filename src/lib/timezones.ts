@@ -0,0 +1,158 @@
+// Bookings happen where the service is, so their times are stored as instants
+// plus the IANA zone of the service location, and shown in that zone to both
+// the customer and the provider wherever their browser is.
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+const STATE_ZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver'
+}
+
+const STATE_NAMES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID',
+  illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA', maine: 'ME',
+  maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS', missouri: 'MO',
+  montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ',
+  'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH',
+  oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
+  'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT', virginia: 'VA',
+  washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY'
+}
+
+// Places people type without a state
+const PLACE_ZONES: Array<[RegExp, string]> = [
+  [/\b(brooklyn|manhattan|queens|bronx|nyc|boston|philadelphia|miami|atlanta)\b/, 'America/New_York'],
+  [/\b(chicago|houston|dallas|austin|minneapolis|nashville)\b/, 'America/Chicago'],
+  [/\b(denver|salt lake)\b/, 'America/Denver'],
+  [/\b(phoenix|tucson)\b/, 'America/Phoenix'],
+  [/\b(san francisco|oakland|berkeley|san jose|los angeles|seattle|portland|las vegas|bay area)\b/, 'America/Los_Angeles'],
+  [/\b(toronto|ottawa|montreal)\b/, 'America/Toronto'],
+  [/\bvancouver\b/, 'America/Vancouver'],
+  [/\b(london|uk|united kingdom|england)\b/, 'Europe/London'],
+  [/\b(paris|france)\b/, 'Europe/Paris'],
+  [/\b(berlin|germany)\b/, 'Europe/Berlin'],
+  [/\b(sydney|melbourne)\b/, 'Australia/Sydney']
+]
+
+// IANA zone for a free-text service location; the browser's own zone when
+// the location doesn't say. A state given after a comma ("Paris, TX",
+// "Portland, Maine") wins over a city of the same name elsewhere.
+export const timeZoneForLocation = (location: string | undefined): string => {
+  const text = (location ?? '').toLowerCase()
+  const abbreviation = (location ?? '').match(/,\s*([A-Z]{2})\b/)?.[1]
+  if (abbreviation && STATE_ZONES[abbreviation]) return STATE_ZONES[abbreviation]
+  const named = text.split(',').slice(1).map(part => STATE_NAMES[part.trim()]).find(Boolean)
+  if (named) return STATE_ZONES[named]
+
+  const place = PLACE_ZONES.find(([pattern]) => pattern.test(text))
+  if (place) return place[1]
+  const state = Object.keys(STATE_NAMES).find(name => text.includes(name))
+  if (state) return STATE_ZONES[STATE_NAMES[state]]
+
+  return browserTimeZone()
+}
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>()
+
+// Wall-clock fields of an instant in a zone
+export const zonedParts = (date: Date, timeZone: string): ZonedParts => {
+  let formatter = partsFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    })
+    partsFormatters.set(timeZone, formatter)
+  }
+  const value = (type: string) => Number(formatter!.formatToParts(date).find(part => part.type === type)?.value)
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute') }
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// "2026-10-19" in the zone
+export const zonedDateKey = (date: Date, timeZone: string) => {
+  const { year, month, day } = zonedParts(date, timeZone)
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+// "2026-10-19T14:30", the value an <input type="datetime-local"> expects
+export const toZonedInput = (iso: string, timeZone: string) => {
+  const { hour, minute } = zonedParts(new Date(iso), timeZone)
+  return `${zonedDateKey(new Date(iso), timeZone)}T${pad(hour)}:${pad(minute)}`
+}
+
+// Minutes the zone is ahead of UTC at an instant
+const offsetMinutes = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute } = zonedParts(date, timeZone)
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute)
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000)
+}
+
+// The instant a wall-clock time ("2026-10-19", "14:30") happens in a zone.
+// Returns null for times skipped when clocks go forward; a time repeated when
+// they go back resolves to its first occurrence.
+export const zonedTimeToUtc = (dateKey: string, time: string, timeZone: string): Date | null => {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wall = Date.UTC(year, month - 1, day, hour, minute)
+
+  // The offset either side of a transition; try the earlier instant first
+  const candidates = [
+    wall - offsetMinutes(new Date(wall - 12 * 3600000), timeZone) * 60000,
+    wall - offsetMinutes(new Date(wall + 12 * 3600000), timeZone) * 60000
+  ].sort((a, b) => a - b)
+  const match = candidates.find(candidate => {
+    const parts = zonedParts(new Date(candidate), timeZone)
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) === wall
+  })
+  return match === undefined ? null : new Date(match)
+}
+
+// Parses an <input type="datetime-local"> value as a time in the zone
+export const fromZonedInput = (value: string, timeZone: string) => {
+  const [dateKey, time] = value.split('T')
+  return dateKey && time ? zonedTimeToUtc(dateKey, time, timeZone) : null
+}
+
+const withZone = (options: Intl.DateTimeFormatOptions, timeZone?: string): Intl.DateTimeFormatOptions => ({
+  ...options,
+  timeZone: timeZone ?? browserTimeZone()
+})
+
+// All formatting uses the viewer's locale; only the zone is the booking's
+
+export const formatDate = (iso: string, timeZone?: string) =>
+  new Date(iso).toLocaleDateString(undefined, withZone({ weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }, timeZone))
+
+export const formatTime = (iso: string, timeZone?: string) =>
+  new Date(iso).toLocaleTimeString(undefined, withZone({ hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }, timeZone))
+
+export const formatDateTime = (iso: string, timeZone?: string) =>
+  `${formatDate(iso, timeZone)}, ${formatTime(iso, timeZone)}`
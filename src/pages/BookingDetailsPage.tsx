@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { Button } from '../components/ui/button'
+import { Card, CardContent } from '../components/ui/card'
+import { LoadingScreen, NotFoundScreen } from '../components/PageState'
+import { QuoteBreakdown } from '../components/QuoteBreakdown'
+import { CancelBookingDialog } from '../components/CancelBookingDialog'
+import { RescheduleDialog } from '../components/RescheduleDialog'
+import { ReviewCard } from '../components/ReviewCard'
+import { ReviewForm } from '../components/ReviewForm'
+import { BookingMessages } from '../components/BookingMessages'
+import { formatMoney } from '../lib/pricing'
+import { downloadReceipt } from '../lib/receipt'
+import { downloadBookingIcs } from '../lib/calendar/ics'
+import { formatDate, formatTime } from '../lib/timezones'
+import { paymentStatusLabels } from '../lib/payments/bookings'
+import { availableTransitions, bookingStatusLabels, rescheduleBooking, roleFor, transitionBooking } from '../lib/bookings/lifecycle'
+import { RescheduleClosedError, canReschedule, isNoShow } from '../lib/bookings/cancellation'
+import { SlotTakenError } from '../lib/bookings/holds'
+import { getBookingReview, submitReview } from '../lib/reviews/reviews'
+import { bookingsRepository, providersRepository, requestsRepository } from '../lib/db/repository'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import type { Booking, BookingStatus, Provider, Review, ServiceRequest } from '../types'
+import { AlertTriangle, CalendarClock, CalendarPlus, Check, Download, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface BookingDetailsPageProps {
+  user: BlinkUser
+}
+
+// Actions a customer can take from this page; provider actions live on the
+// provider dashboard and reviewing has its own form below. Cancelling is
+// confirmed in CancelBookingDialog first.
+const customerActions: Partial<Record<BookingStatus, { label: string; icon: typeof X }>> = {
+  cancelled: { label: 'Cancel Booking', icon: X },
+  disputed: { label: 'Report a Problem', icon: AlertTriangle }
+}
+
+const headings: Partial<Record<BookingStatus, string>> = {
+  requested: 'Booking Requested!',
+  declined: 'Booking Declined',
+  cancelled: 'Booking Cancelled',
+  in_progress: 'Job In Progress',
+  completed: 'Job Completed',
+  reviewed: 'Job Completed',
+  disputed: 'Booking Under Review'
+}
+
+export function BookingDetailsPage({ user }: BookingDetailsPageProps) {
+  const { id } = useParams()
+  const [booking, setBooking] = useState<Booking | null>(null)
+  const [request, setRequest] = useState<ServiceRequest | null>(null)
+  const [provider, setProvider] = useState<Provider | null>(null)
+  const [review, setReview] = useState<Review | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+  const [rescheduling, setRescheduling] = useState(false)
+
+  useEffect(() => {
+    const loadBooking = async () => {
+      setLoading(true)
+      try {
+        const bookingData = await bookingsRepository.get(id!)
+        setBooking(bookingData)
+        if (bookingData) {
+          const [requestData, providerData, reviewData] = await Promise.all([
+            requestsRepository.get(bookingData.requestId),
+            providersRepository.get(bookingData.providerId),
+            getBookingReview(bookingData.id)
+          ])
+          setRequest(requestData)
+          setProvider(providerData)
+          setReview(reviewData)
+        }
+      } catch (error) {
+        console.error('Error loading booking:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadBooking()
+  }, [id])
+
+  if (loading) return <LoadingScreen message="Loading your booking..." />
+  if (!booking) return <NotFoundScreen message="This booking doesn't exist or was removed." />
+
+  const role = roleFor(booking, user.id, provider)
+  const actions = role === 'customer'
+    ? availableTransitions(booking, role).filter(to => customerActions[to])
+    : []
+
+  const moveBooking = async (to: BookingStatus) => {
+    setUpdating(true)
+    try {
+      setBooking(await transitionBooking(booking, to, { role: 'customer', id: user.id }))
+      setCancelling(false)
+    } catch (error) {
+      console.error('Error updating booking:', error)
+      toast.error('Could not update this booking. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const leaveReview = async (rating: number, comment: string) => {
+    setUpdating(true)
+    try {
+      const result = await submitReview(booking, { role: 'customer', id: user.id }, {
+        rating,
+        comment,
+        authorName: user.displayName || 'Homi customer'
+      })
+      setBooking(result.booking)
+      setReview(result.review)
+      toast.success('Thanks for your review!')
+    } catch (error) {
+      console.error('Error submitting review:', error)
+      toast.error('Could not submit your review. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const changeTime = async (current: Booking, start: Date) => {
+    setUpdating(true)
+    try {
+      setBooking(await rescheduleBooking(current, { role: 'customer', id: user.id }, start))
+      setRescheduling(false)
+      toast.success('Booking rescheduled')
+    } catch (error) {
+      console.error('Error rescheduling booking:', error)
+      toast.error(
+        error instanceof SlotTakenError || error instanceof RescheduleClosedError
+          ? error.message
+          : 'Could not reschedule this booking. Please try again.'
+      )
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="p-8 text-center space-y-6">
+            <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto">
+              <Check className="w-8 h-8 text-white" />
+            </div>
+            <div className="space-y-2">
+              <h2 className="text-2xl font-bold text-green-800">{headings[booking.status] ?? 'Booking Confirmed!'}</h2>
+              <p className="text-green-700">
+                Your service has been booked with {provider?.name || 'your provider'}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg p-4 space-y-2">
+              <div className="flex justify-between">
+                <span className="font-medium">Date & Time:</span>
+                <span>{formatDate(booking.scheduledTime, booking.timeZone)} at {formatTime(booking.scheduledTime, booking.timeZone)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="font-medium">Service:</span>
+                <span>{request?.service || 'Service'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="font-medium">Status:</span>
+                <span>{bookingStatusLabels[booking.status]}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="font-medium">Payment:</span>
+                <span>{paymentStatusLabels[booking.paymentStatus]}</span>
+              </div>
+              {booking.cancellationFee !== undefined && booking.cancellationFee > 0 && (
+                <div className="flex justify-between">
+                  <span className="font-medium">Late cancellation fee:</span>
+                  <span>{formatMoney(booking.cancellationFee)}</span>
+                </div>
+              )}
+              {!booking.quote && (
+                <div className="flex justify-between">
+                  <span className="font-medium">Total:</span>
+                  <span className="font-bold">{formatMoney(booking.finalPrice)}</span>
+                </div>
+              )}
+            </div>
+            {booking.quote && (
+              <div className="bg-white rounded-lg p-4 text-left">
+                <QuoteBreakdown quote={booking.quote} />
+              </div>
+            )}
+            <div className="flex gap-4 justify-center">
+              <Button asChild>
+                <Link to="/request">Book Another Service</Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link to="/dashboard">Go to Dashboard</Link>
+              </Button>
+              <Button variant="outline" onClick={() => downloadReceipt({ booking, request, provider })}>
+                <Download className="w-4 h-4 mr-2" />
+                Receipt
+              </Button>
+              {(role === 'customer' || role === 'provider') && (
+                <Button variant="outline" onClick={() => downloadBookingIcs({ booking, role, request, provider })}>
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Add to Calendar
+                </Button>
+              )}
+              {role === 'customer' && canReschedule(booking, role) && (
+                <Button variant="outline" onClick={() => setRescheduling(true)} disabled={updating}>
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Reschedule
+                </Button>
+              )}
+              {actions.map(to => {
+                const { label, icon: Icon } = customerActions[to]!
+                return (
+                  <Button
+                    key={to}
+                    variant="outline"
+                    onClick={() => (to === 'cancelled' ? setCancelling(true) : moveBooking(to))}
+                    disabled={updating}
+                  >
+                    <Icon className="w-4 h-4 mr-2" />
+                    {to === 'cancelled' && isNoShow(booking) ? "Provider Didn't Show" : label}
+                  </Button>
+                )
+              })}
+            </div>
+            {role === 'customer' && booking.status === 'completed' && !review && (
+              <ReviewForm providerName={provider?.name || 'your provider'} saving={updating} onSubmit={leaveReview} />
+            )}
+            {review && (
+              <div className="bg-white rounded-lg p-4 text-left space-y-2">
+                <h3 className="font-medium">Review</h3>
+                <ReviewCard review={review} />
+              </div>
+            )}
+            {booking.history.length > 0 && (
+              <div className="bg-white rounded-lg p-4 text-left space-y-2">
+                <h3 className="font-medium">History</h3>
+                {booking.history.map((event, index) => (
+                  <div key={index} className="flex justify-between text-sm">
+                    <span>
+                      {bookingStatusLabels[event.to]}
+                      <span className="text-muted-foreground"> by {event.role}{event.note && ` · ${event.note}`}</span>
+                    </span>
+                    <span className="text-muted-foreground">{new Date(event.at).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {(role === 'customer' || role === 'provider') && (
+          <BookingMessages
+            booking={booking}
+            userId={user.id}
+            role={role}
+            otherName={role === 'customer' ? provider?.name || 'your provider' : 'your customer'}
+          />
+        )}
+      </div>
+
+      <CancelBookingDialog
+        booking={cancelling ? booking : null}
+        role="customer"
+        saving={updating}
+        onClose={() => setCancelling(false)}
+        onConfirm={() => moveBooking('cancelled')}
+      />
+      <RescheduleDialog
+        booking={rescheduling ? booking : null}
+        provider={provider}
+        saving={updating}
+        onClose={() => setRescheduling(false)}
+        onReschedule={changeTime}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { BookingFlow } from '../components/BookingFlow'
+import { LoadingScreen, NotFoundScreen } from '../components/PageState'
+import { providersRepository, requestsRepository } from '../lib/db/repository'
+import { matchProvider } from '../lib/matching'
+import type { ProviderMatch, ServiceRequest } from '../types'
+
+interface BookingPageProps {
+  user: BlinkUser
+}
+
+export function BookingPage({ user }: BookingPageProps) {
+  const { id, providerId } = useParams()
+  const navigate = useNavigate()
+  const [request, setRequest] = useState<ServiceRequest | null>(null)
+  const [provider, setProvider] = useState<ProviderMatch | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadBookingData = async () => {
+      setLoading(true)
+      try {
+        const [requestData, providerData] = await Promise.all([
+          requestsRepository.get(id!),
+          providersRepository.get(providerId!)
+        ])
+        setRequest(requestData)
+        // Re-score the chosen provider so price and match score agree with the matches page
+        setProvider(requestData && providerData ? matchProvider(providerData, requestData) : null)
+      } catch (error) {
+        console.error('Error loading booking data:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadBookingData()
+  }, [id, providerId])
+
+  if (loading) return <LoadingScreen message="Preparing your booking..." />
+  if (!request || !provider) return <NotFoundScreen message="This request or provider is no longer available." />
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 px-4 sm:px-6 lg:px-8 py-8">
+      <BookingFlow
+        request={request}
+        provider={provider}
+        user={user}
+        onBookingComplete={(bookingId) => navigate(`/bookings/${bookingId}`)}
+        onBack={() => navigate(`/requests/${request.id}/matches`)}
+      />
+    </div>
+  )
+}
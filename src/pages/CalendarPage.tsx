@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { ArrowLeft, Copy, Download, RefreshCw } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Input } from '../components/ui/input'
+import { BookingCalendar } from '../components/BookingCalendar'
+import { LoadingScreen } from '../components/PageState'
+import { loadCalendarEntries, type CalendarEntry } from '../lib/calendar/entries'
+import { calendarFeedEnabled, feedEntries, feedUrl, getOrCreateFeed, rotateFeed, webcalUrl } from '../lib/calendar/feed'
+import { downloadIcs } from '../lib/calendar/ics'
+import type { CalendarFeed } from '../types'
+
+interface CalendarPageProps {
+  user: BlinkUser
+}
+
+export function CalendarPage({ user }: CalendarPageProps) {
+  const [entries, setEntries] = useState<CalendarEntry[]>([])
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rotating, setRotating] = useState(false)
+
+  useEffect(() => {
+    const loadCalendar = async () => {
+      setLoading(true)
+      try {
+        const [calendarEntries, userFeed] = await Promise.all([
+          loadCalendarEntries(user.id),
+          calendarFeedEnabled ? getOrCreateFeed(user.id) : Promise.resolve(null)
+        ])
+        setEntries(calendarEntries)
+        setFeed(userFeed)
+      } catch (error) {
+        console.error('Error loading calendar:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadCalendar()
+  }, [user])
+
+  const copyFeedUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success('Calendar link copied')
+    } catch {
+      toast.error('Could not copy the link. Select it and copy it manually.')
+    }
+  }
+
+  // Anyone with the old link stops receiving updates
+  const resetFeed = async () => {
+    setRotating(true)
+    try {
+      setFeed(await rotateFeed(user.id))
+      toast.success('New calendar link created. Update it in your calendar app.')
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error)
+      toast.error('Could not reset your calendar link. Please try again.')
+    } finally {
+      setRotating(false)
+    }
+  }
+
+  if (loading) return <LoadingScreen message="Loading your calendar..." />
+
+  const url = feed && feedUrl(feed)
+  const webcal = feed && webcalUrl(feed)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="outline" size="sm">
+            <Link to="/dashboard">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Calendar</h1>
+        </div>
+
+        <BookingCalendar entries={entries} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sync With Your Calendar</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {url ? (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Subscribe to this private link in Google Calendar, Apple Calendar or Outlook. New bookings,
+                  reschedules and cancellations show up automatically. Don't share it.
+                </p>
+                <div className="flex gap-2">
+                  <Input readOnly value={url} onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" onClick={() => copyFeedUrl(url)}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  {webcal && (
+                    <Button asChild variant="outline" size="sm">
+                      <a href={webcal}>Open in Calendar App</a>
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={resetFeed} disabled={rotating}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Reset Link
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Calendar subscriptions aren't available yet. Download your bookings and import them instead.
+              </p>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => downloadIcs(feedEntries(entries), 'homi-bookings.ics')}
+              disabled={entries.length === 0}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download All (.ics)
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react'
+import { Navigate, useNavigate, useParams } from 'react-router-dom'
+import ProviderMatches from '../components/ProviderMatches'
+import { LoadingScreen, NotFoundScreen } from '../components/PageState'
+import { requestsRepository } from '../lib/db/repository'
+import type { ServiceRequest } from '../types'
+
+export function MatchesPage() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [request, setRequest] = useState<ServiceRequest | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadRequest = async () => {
+      setLoading(true)
+      try {
+        setRequest(await requestsRepository.get(id!))
+      } catch (error) {
+        console.error('Error loading request:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadRequest()
+  }, [id])
+
+  if (loading) return <LoadingScreen message="Loading your request..." />
+  if (!request) return <NotFoundScreen message="This request doesn't exist or was removed." />
+  if (request.status === 'draft') return <Navigate to={`/request/${request.id}`} replace />
+
+  return (
+    <ProviderMatches
+      request={request}
+      onProviderSelect={(provider) => navigate(`/requests/${request.id}/book/${provider.id}`)}
+      onBack={() => navigate('/dashboard')}
+    />
+  )
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { Navigate, useNavigate, useParams } from 'react-router-dom'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import RequestFlow from '../components/RequestFlow'
+import { LoadingScreen, NotFoundScreen } from '../components/PageState'
+import { requestsRepository } from '../lib/db/repository'
+import type { ServiceRequest } from '../types'
+
+interface RequestPageProps {
+  user: BlinkUser
+}
+
+// New request at /request, or a saved draft resumed at /request/:id
+export function RequestPage({ user }: RequestPageProps) {
+  const { id } = useParams()
+  const navigate = useNavigate()
+  const [draft, setDraft] = useState<ServiceRequest | null>(null)
+  const [loading, setLoading] = useState(Boolean(id))
+
+  useEffect(() => {
+    if (!id) {
+      setDraft(null)
+      setLoading(false)
+      return
+    }
+
+    const loadDraft = async () => {
+      setLoading(true)
+      try {
+        const request = await requestsRepository.get(id)
+        setDraft(request && request.userId === user.id ? request : null)
+      } catch (error) {
+        console.error('Error loading draft:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadDraft()
+  }, [id, user.id])
+
+  if (loading) return <LoadingScreen message="Loading your request..." />
+  if (id && !draft) return <NotFoundScreen message="This request doesn't exist or was removed." />
+  // Already submitted; nothing left to scope
+  if (draft && draft.status !== 'draft') return <Navigate to={`/requests/${draft.id}/matches`} replace />
+
+  return (
+    <RequestFlow
+      key={draft?.id ?? 'new'}
+      user={user}
+      savedDraft={draft ?? undefined}
+      onRequestComplete={(request) => navigate(`/requests/${request.id}/matches`)}
+      onBack={() => navigate(draft ? '/dashboard' : '/')}
+    />
+  )
+}
@@ -0,0 +1,29 @@
+import { setBlinkClient } from '../blink/client'
+import { createLocalBackend } from '../blink/local/backend'
+import { localSeed, localUser, scriptedIntakeReply, scriptedRankingExplanation } from '../blink/local/fixtures'
+import { setPaymentProvider } from '../lib/payments/client'
+import { createLocalPaymentProvider } from '../lib/payments/local'
+import { CHANNEL_KINDS, createLogChannel, deliveryLog } from '../lib/notifications/channels'
+import { setNotificationChannels } from '../lib/notifications/client'
+
+// The app wired up offline: the local Blink backend seeded with the fixtures,
+// the in-browser card processor and notification channels that only record
+// what they would have sent.
+
+const backend = createLocalBackend({
+  seed: localSeed,
+  fallbackObject: scriptedIntakeReply,
+  fallbackText: scriptedRankingExplanation
+})
+const payments = createLocalPaymentProvider()
+
+// Call from beforeEach so every test starts from the fixtures
+export const resetLocalApp = () => {
+  backend.reset()
+  payments.reset()
+  deliveryLog.length = 0
+  setBlinkClient(backend)
+  setPaymentProvider(payments)
+  setNotificationChannels(CHANNEL_KINDS.map(kind => createLogChannel(kind)))
+  return { backend, payments, deliveries: deliveryLog, user: localUser }
+}
@@ -0,0 +1,10 @@
+import { afterEach } from 'vitest'
+import { cleanup } from '@testing-library/react'
+
+// jsdom leaves out layout APIs the components call. Tests that need real
+// Blob reads run in the node environment, where there is no DOM to patch.
+if (typeof Element !== 'undefined') Element.prototype.scrollIntoView = () => {}
+
+afterEach(() => {
+  cleanup()
+})
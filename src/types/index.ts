@@ -0,0 +1,399 @@
+// Shared domain model used across the request → matches → booking flow.
+// Components work with these types; DB rows are converted in lib/mappers.
+
+// 'draft' requests are still being scoped in the intake chat
+export type RequestStatus = 'draft' | 'pending' | 'booked' | 'completed' | 'cancelled'
+
+// Judged by the AI during intake; drives the duration model in lib/pricing
+export type Complexity = 'simple' | 'standard' | 'complex'
+
+export interface ServiceRequest {
+  id: string
+  userId: string
+  service: string
+  description: string
+  inputText: string
+  skills: string[]
+  location: string
+  budget: number
+  timeline: string
+  complexity: Complexity
+  // Both come from lib/pricing
+  estimatedHours: number
+  flatPrice: number
+  // Price actually booked, set once a booking is made
+  finalPrice?: number
+  status: RequestStatus
+  createdAt: string
+  // Intake chat state, kept so a draft can be resumed where it left off
+  conversation?: RequestConversation
+}
+
+// What the intake chat produces before the request is saved
+export type RequestSummary = Pick<
+  ServiceRequest,
+  'service' | 'description' | 'location' | 'budget' | 'timeline' | 'complexity' | 'estimatedHours' | 'flatPrice'
+>
+
+// Fields the user has to provide before a request can be summarized
+export type DraftField = 'service' | 'location' | 'budget' | 'timeline'
+
+export interface RequestDraft {
+  service: string | null
+  description: string | null
+  location: string | null
+  budget: number | null
+  timeline: string | null
+}
+
+export interface ConversationMessage {
+  id: string
+  type: 'user' | 'ai'
+  content: string
+  timestamp: string
+  suggestions?: string[]
+}
+
+export interface RequestConversation {
+  messages: ConversationMessage[]
+  draft: RequestDraft
+  // Fields the user edited by hand
+  pinned: DraftField[]
+  // Summary awaiting confirmation, if the chat got that far
+  summary: RequestSummary | null
+}
+
+// Local wall-clock times, "09:00" to "17:30"
+export interface TimeRange {
+  start: string
+  end: string
+}
+
+export interface AvailabilitySchedule {
+  // Working hours per weekday, indexed like Date.getDay() (0 = Sunday)
+  weekly: TimeRange[][]
+  // Whole days off, "2026-12-24"
+  blackoutDates: string[]
+  // Gap kept free before and after every job
+  bufferMinutes: number
+}
+
+export interface Provider {
+  id: string
+  userId: string
+  name: string
+  bio: string
+  skills: string[]
+  hourlyRate: number
+  location: string
+  // Human-readable summary; generated from `schedule` once one is set
+  availability: string
+  // Missing until the provider sets their hours (see lib/bookings/availability)
+  schedule?: AvailabilitySchedule
+  // Kept up to date from reviews and bookings by lib/reviews/reputation;
+  // rating is 0 until the first review
+  rating: number
+  reviewCount: number
+  completedJobs: number
+  profileImage: string
+  // Hide open requests from customers rated below this reliability score
+  // (see lib/reviews/reliability); customers nobody has rated yet always show
+  minCustomerReliability?: number
+}
+
+export type MatchFactor = 'skills' | 'price' | 'distance' | 'availability' | 'reputation'
+
+export interface MatchFactorScore {
+  factor: MatchFactor
+  label: string
+  points: number
+  maxPoints: number
+  detail: string
+}
+
+// One entry per factor; the points always sum to the provider's matchScore
+export type MatchBreakdown = MatchFactorScore[]
+
+export interface ProviderMatch extends Provider {
+  matchScore: number
+  matchBreakdown: MatchBreakdown
+  estimatedHours: number
+  flatPrice: number
+}
+
+// adjustment: a price change the provider proposed and the customer accepted;
+// credit: Homi credit the customer spent on the booking
+export type QuoteLineKind = 'labor' | 'materials' | 'surcharge' | 'discount' | 'service_fee' | 'tax' | 'adjustment' | 'credit'
+
+export interface QuoteLine {
+  kind: QuoteLineKind
+  label: string
+  detail?: string
+  // Dollars; discounts and credit are negative
+  amount: number
+}
+
+// Itemized price from lib/pricing. Stored on the booking when it is made so
+// receipts and dashboards never recompute it.
+export interface Quote {
+  currency: 'USD'
+  category: string
+  complexity: Complexity
+  estimatedHours: number
+  hourlyRate: number
+  // Tax region code, empty when no sales tax applies
+  region: string
+  lines: QuoteLine[]
+  total: number
+  // Provider side: Homi's commission and what the provider is paid
+  commission: number
+  providerPayout: number
+  discountCode?: string
+}
+
+// Transitions between these are enforced by lib/bookings/lifecycle
+export type BookingStatus =
+  | 'requested'
+  | 'accepted'
+  | 'declined'
+  | 'scheduled'
+  | 'in_progress'
+  | 'completed'
+  | 'reviewed'
+  | 'cancelled'
+  | 'disputed'
+
+export type BookingRole = 'customer' | 'provider' | 'system'
+
+// One entry of a booking's audit history
+export interface BookingEvent {
+  // null for the event that created the booking
+  from: BookingStatus | null
+  to: BookingStatus
+  role: BookingRole
+  actorId: string
+  at: string
+  note?: string
+}
+// pending: nothing authorized yet; authorized: card hold placed at booking;
+// captured: charged on completion; voided: hold released without charging
+export type PaymentStatus =
+  | 'pending'
+  | 'authorized'
+  | 'captured'
+  | 'voided'
+  | 'refunded'
+  | 'partially_refunded'
+  | 'failed'
+
+// Changes a provider asks for when accepting a request. The customer has to
+// agree before the booking is scheduled.
+export interface BookingProposal {
+  scheduledTime?: string
+  // New total in dollars
+  price?: number
+  note: string
+  proposedAt: string
+}
+
+export interface Booking {
+  id: string
+  requestId: string
+  providerId: string
+  userId: string
+  scheduledTime: string
+  // IANA zone of the service location, e.g. "America/Los_Angeles". Missing on
+  // older bookings, which were made in the customer's browser zone.
+  timeZone?: string
+  finalPrice: number
+  status: BookingStatus
+  paymentStatus: PaymentStatus
+  // Payment provider's id for the hold/charge, set once authorized
+  paymentIntentId?: string
+  // Every status change, oldest first
+  history: BookingEvent[]
+  // Set while the provider's counter-proposal awaits the customer
+  proposal?: BookingProposal
+  createdAt: string
+  // Missing on bookings made before quotes were itemized
+  quote?: Quote
+  // Dollars kept from the payment when the customer cancelled late
+  cancellationFee?: number
+}
+
+export type LedgerAccount =
+  | 'cash'
+  | 'escrow'
+  | 'provider_payable'
+  | 'commission_revenue'
+  | 'fee_revenue'
+  | 'tax_payable'
+  | 'discounts'
+  | 'refund_losses'
+  | 'customer_credits'
+  | 'credit_expense'
+
+// charge: customer paid into escrow; release: escrow split between the
+// provider and Homi; refund: money back to the customer; payout: sent to the
+// provider; credit: Homi credit given to the customer
+export type LedgerEntryKind = 'charge' | 'release' | 'refund' | 'payout' | 'credit'
+
+// Amounts are in cents
+export interface LedgerEntry {
+  id: string
+  transactionId: string
+  kind: LedgerEntryKind
+  account: LedgerAccount
+  debit: number
+  credit: number
+  bookingId?: string
+  providerId?: string
+  payoutBatchId?: string
+  memo: string
+  createdAt: string
+}
+
+export type PayoutBatchStatus = 'scheduled' | 'paid'
+
+export interface PayoutBatch {
+  id: string
+  providerId: string
+  status: PayoutBatchStatus
+  // Cents
+  amount: number
+  bookingIds: string[]
+  scheduledFor: string
+  paidAt?: string
+  createdAt: string
+}
+
+// One 30-minute cell of a provider's calendar, claimed while a customer checks
+// out and kept by the booking that results. The id is derived from the
+// provider and the cell's start, so two claims on the same cell cannot both
+// be written (see lib/bookings/holds).
+export interface SlotHold {
+  id: string
+  // Shared by every cell claimed together
+  holdId: string
+  providerId: string
+  // The customer checking out
+  holderId: string
+  bookingId?: string
+  // The job the cells were claimed for
+  startsAt: string
+  endsAt: string
+  // Missing once a booking owns the cells
+  expiresAt?: string
+  createdAt: string
+}
+
+// A private calendar subscription. The id is the secret token in the feed
+// URL; rotating it revokes the old URL (see lib/calendar/feed).
+export interface CalendarFeed {
+  id: string
+  userId: string
+  createdAt: string
+  revokedAt?: string
+}
+
+// A customer's rating of a completed booking, one per booking. The provider
+// can answer it publicly.
+export interface Review {
+  id: string
+  bookingId: string
+  providerId: string
+  // The customer who wrote it
+  userId: string
+  authorName: string
+  // Whole stars, 1–5
+  rating: number
+  comment: string
+  reply?: string
+  repliedAt?: string
+  createdAt: string
+}
+
+export type CustomerRatingAspect = 'punctuality' | 'accuracy' | 'payment'
+
+// A provider's rating of the customer on a completed booking, one per
+// booking. Each aspect is whole stars, 1–5; accuracy is how well the request
+// described the actual job.
+export interface CustomerRating extends Record<CustomerRatingAspect, number> {
+  id: string
+  bookingId: string
+  providerId: string
+  // The customer being rated
+  userId: string
+  comment: string
+  createdAt: string
+}
+
+// Aggregate of a customer's ratings, on the same 0–5 scale as provider ratings
+export interface CustomerReliability extends Record<CustomerRatingAspect, number> {
+  score: number
+  ratingCount: number
+}
+
+export interface MessageAttachment {
+  url: string
+  name: string
+  contentType: string
+}
+
+// One message in the thread between a booking's customer and provider
+export interface BookingMessage {
+  id: string
+  bookingId: string
+  requestId: string
+  senderId: string
+  senderRole: Exclude<BookingRole, 'system'>
+  recipientId: string
+  body: string
+  attachments: MessageAttachment[]
+  createdAt: string
+  // When the recipient first saw it; unset while unread
+  readAt?: string
+}
+
+export type NotificationKind =
+  | 'request_matched'
+  | 'booking_requested'
+  | 'changes_proposed'
+  | 'booking_confirmed'
+  | 'booking_declined'
+  | 'booking_rescheduled'
+  | 'booking_cancelled'
+  | 'job_started'
+  | 'job_completed'
+  | 'booking_reviewed'
+  | 'booking_disputed'
+  | 'new_message'
+
+// In-app notifications are always stored; these deliver copies elsewhere
+export type NotificationChannelKind = 'email' | 'sms' | 'push'
+
+export interface UserNotification {
+  id: string
+  userId: string
+  kind: NotificationKind
+  title: string
+  body: string
+  // In-app path to open, e.g. the booking
+  link: string
+  bookingId?: string
+  requestId?: string
+  createdAt: string
+  // Unset while unread
+  readAt?: string
+}
+
+export interface NotificationPreferences {
+  userId: string
+  // Channels the user opted into
+  channels: NotificationChannelKind[]
+  email: string
+  phone: string
+  // From PushManager.subscribe, once the user allowed browser notifications
+  pushSubscription?: PushSubscriptionJSON
+  updatedAt: string
+}
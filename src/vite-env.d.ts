@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BLINK_PROJECT_ID?: string
+  readonly VITE_BLINK_AUTH_MODE?: 'required' | 'optional'
+  readonly VITE_BLINK_BACKEND?: 'blink' | 'local'
+  readonly VITE_PAYMENTS_PROVIDER?: 'local' | 'http'
+  readonly VITE_PAYMENTS_API_URL?: string
+  readonly VITE_CALENDAR_FEED_URL?: string
+  readonly VITE_NOTIFICATIONS_PROVIDER?: 'local' | 'http'
+  readonly VITE_NOTIFICATIONS_API_URL?: string
+  readonly VITE_PUSH_PUBLIC_KEY?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}